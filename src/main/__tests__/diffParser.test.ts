@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDiff, parseHunks, unquotePath } from '../diffParser';
+
+// Fixtures are real git output, made with the flags GitService pins:
+// --no-color --no-ext-diff --src-prefix=a/ --dst-prefix=b/
+const readFixture = (name: string): string =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+const parseFixture = (name: string) => parseDiff(readFixture(name));
+
+describe('parseDiff', () => {
+  it('parses an added file', () => {
+    const diff = parseFixture('added.patch');
+
+    expect(diff.files).toEqual([
+      {
+        filename: 'added.txt',
+        changeType: 'added',
+        newMode: '100644',
+        binary: false,
+        additions: 2,
+        deletions: 0,
+        patch: '@@ -0,0 +1,2 @@\n+hello\n+world',
+        hunks: [
+          {
+            header: '@@ -0,0 +1,2 @@',
+            oldStart: 0,
+            oldLines: 0,
+            newStart: 1,
+            newLines: 2,
+            section: '',
+            lines: [
+              { type: 'add', content: 'hello', newNumber: 1 },
+              { type: 'add', content: 'world', newNumber: 2 }
+            ]
+          }
+        ]
+      }
+    ]);
+    expect(diff.totalAdditions).toBe(2);
+    expect(diff.totalDeletions).toBe(0);
+  });
+
+  it('parses a deleted file under its old path', () => {
+    const diff = parseFixture('deleted.patch');
+
+    expect(diff.files).toEqual([
+      {
+        filename: 'gone.txt',
+        changeType: 'deleted',
+        oldMode: '100644',
+        binary: false,
+        additions: 0,
+        deletions: 1,
+        patch: '@@ -1 +0,0 @@\n-keep',
+        hunks: [
+          {
+            header: '@@ -1 +0,0 @@',
+            oldStart: 1,
+            oldLines: 1,
+            newStart: 0,
+            newLines: 0,
+            section: '',
+            lines: [{ type: 'delete', content: 'keep', oldNumber: 1 }]
+          }
+        ]
+      }
+    ]);
+  });
+
+  it('parses a rename with changes', () => {
+    const [file] = parseFixture('rename.patch').files;
+
+    expect(file).toMatchObject({
+      filename: 'new.txt',
+      oldFilename: 'old.txt',
+      changeType: 'renamed',
+      similarity: 87,
+      oldMode: '100644',
+      newMode: '100644',
+      binary: false,
+      additions: 1,
+      deletions: 1
+    });
+    expect(file.hunks).toHaveLength(1);
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 7, newStart: 1, newLines: 7 });
+    expect(file.hunks[0].lines.slice(2, 6)).toEqual([
+      { type: 'context', content: 'three', oldNumber: 3, newNumber: 3 },
+      { type: 'delete', content: 'four', oldNumber: 4 },
+      { type: 'add', content: 'FOUR', newNumber: 4 },
+      { type: 'context', content: 'five', oldNumber: 5, newNumber: 5 }
+    ]);
+  });
+
+  it('parses a copy without hunks', () => {
+    expect(parseFixture('copy.patch').files).toEqual([
+      {
+        filename: 'dup.txt',
+        oldFilename: 'orig.txt',
+        changeType: 'copied',
+        similarity: 100,
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+        patch: ''
+      }
+    ]);
+  });
+
+  it('parses a mode-only change', () => {
+    expect(parseFixture('mode-change.patch').files).toEqual([
+      {
+        filename: 'run.sh',
+        changeType: 'modified',
+        oldMode: '100644',
+        newMode: '100755',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+        patch: ''
+      }
+    ]);
+  });
+
+  it('flags binary files', () => {
+    expect(parseFixture('binary.patch').files).toEqual([
+      {
+        filename: 'img.bin',
+        changeType: 'modified',
+        oldMode: '100644',
+        newMode: '100644',
+        binary: true,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+        patch: ''
+      }
+    ]);
+  });
+
+  it('marks lines followed by "\\ No newline at end of file"', () => {
+    const [file] = parseFixture('no-newline.patch').files;
+
+    expect(file).toMatchObject({ filename: 'tail.txt', changeType: 'modified', additions: 2, deletions: 1 });
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'line', oldNumber: 1, newNumber: 1 },
+      { type: 'delete', content: 'last', oldNumber: 2, noNewlineAtEnd: true },
+      { type: 'add', content: 'last', newNumber: 2 },
+      { type: 'add', content: 'more', newNumber: 3 }
+    ]);
+  });
+
+  it('unquotes C-quoted paths', () => {
+    const diff = parseFixture('quoted-paths.patch');
+
+    expect(diff.files.map(file => [file.filename, file.changeType, file.additions, file.deletions])).toEqual([
+      ['say "hi".txt', 'added', 1, 0],
+      ['tést.txt', 'modified', 1, 1]
+    ]);
+    expect(diff.files[1].hunks[0].lines).toEqual([
+      { type: 'delete', content: 'x', oldNumber: 1 },
+      { type: 'add', content: 'y', newNumber: 1 }
+    ]);
+  });
+
+  it('keeps spaces in paths and drops the trailing tab', () => {
+    const diff = parseFixture('spaces.patch');
+
+    expect(diff.files.map(file => [file.filename, file.oldFilename, file.changeType, file.additions, file.deletions])).toEqual([
+      ['my file.txt', undefined, 'modified', 1, 0],
+      ['other file.txt', undefined, 'added', 1, 0]
+    ]);
+    expect(diff.files[0].hunks[0].lines).toEqual([
+      { type: 'context', content: 'a', oldNumber: 1, newNumber: 1 },
+      { type: 'add', content: 'b', newNumber: 2 }
+    ]);
+    expect(diff.totalAdditions).toBe(2);
+  });
+
+  it('parses several fixtures concatenated into one diff', () => {
+    const diff = parseDiff(['rename.patch', 'binary.patch', 'deleted.patch'].map(readFixture).join(''));
+
+    expect(diff.files.map(file => file.filename)).toEqual(['new.txt', 'img.bin', 'gone.txt']);
+    expect(diff.totalAdditions).toBe(1);
+    expect(diff.totalDeletions).toBe(2);
+  });
+
+  it('returns no files for empty output', () => {
+    expect(parseDiff('')).toEqual({ files: [], totalAdditions: 0, totalDeletions: 0 });
+  });
+});
+
+describe('parseHunks', () => {
+  it('reads the section text after the hunk header', () => {
+    const [hunk] = parseHunks('@@ -10,2 +10,3 @@ function main() {\n a\n+b\n c');
+
+    expect(hunk).toMatchObject({ oldStart: 10, oldLines: 2, newStart: 10, newLines: 3, section: 'function main() {' });
+    expect(hunk.lines.map(line => [line.oldNumber, line.newNumber])).toEqual([[10, 10], [undefined, 11], [11, 12]]);
+  });
+
+  it('ends a truncated hunk early', () => {
+    const [hunk] = parseHunks('@@ -1,5 +1,5 @@\n a\n-b');
+
+    expect(hunk.lines).toHaveLength(2);
+  });
+});
+
+describe('unquotePath', () => {
+  it('decodes octal UTF-8 bytes and C escapes', () => {
+    expect(unquotePath('"t\\303\\251st.txt"')).toBe('tést.txt');
+    expect(unquotePath('"tab\\there \\"q\\" \\\\"')).toBe('tab\there "q" \\');
+  });
+
+  it('leaves unquoted paths alone', () => {
+    expect(unquotePath('my file.txt')).toBe('my file.txt');
+  });
+});
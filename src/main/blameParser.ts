@@ -0,0 +1,92 @@
+import { BlameCommit, BlameLine } from './types';
+
+const HEADER = /^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/;
+const UNCOMMITTED = /^0{40}$/;
+
+/**
+ * Parse `git blame --porcelain` output. Each line starts with a header
+ * naming its commit; the commit's details follow only the first time it
+ * appears, and the line content comes last, prefixed by a tab.
+ */
+export const parseBlamePorcelain = (output: string): { lines: BlameLine[]; commits: Record<string, BlameCommit> } => {
+  const lines: BlameLine[] = [];
+  const commits: Record<string, BlameCommit> = {};
+  let current: BlameLine | null = null;
+
+  for (const raw of output.split('\n')) {
+    if (current && raw.startsWith('\t')) {
+      current.content = raw.substring(1);
+      lines.push(current);
+      current = null;
+      continue;
+    }
+
+    const header = raw.match(HEADER);
+    if (header) {
+      const hash = header[1];
+      current = {
+        hash,
+        originalLineNumber: parseInt(header[2], 10),
+        lineNumber: parseInt(header[3], 10),
+        path: '',
+        content: ''
+      };
+      if (!commits[hash]) {
+        commits[hash] = {
+          hash,
+          author: '',
+          authorEmail: '',
+          authorTime: new Date(0),
+          summary: '',
+          boundary: false,
+          uncommitted: UNCOMMITTED.test(hash)
+        };
+      }
+      continue;
+    }
+
+    if (!current) continue;
+
+    const commit = commits[current.hash];
+    const separator = raw.indexOf(' ');
+    const key = separator === -1 ? raw : raw.substring(0, separator);
+    const value = separator === -1 ? '' : raw.substring(separator + 1);
+
+    switch (key) {
+      case 'author':
+        commit.author = value;
+        break;
+      case 'author-mail':
+        commit.authorEmail = value.replace(/^<|>$/g, '');
+        break;
+      case 'author-time':
+        commit.authorTime = new Date(parseInt(value, 10) * 1000);
+        break;
+      case 'summary':
+        commit.summary = value;
+        break;
+      case 'boundary':
+        commit.boundary = true;
+        break;
+      case 'previous': {
+        // "previous <hash> <path>", the path may contain spaces
+        const pathStart = value.indexOf(' ');
+        commit.previousHash = value.substring(0, pathStart);
+        commit.previousPath = value.substring(pathStart + 1);
+        break;
+      }
+      case 'filename':
+        current.path = value;
+        break;
+    }
+  }
+
+  // Git repeats the filename only for commits that touched the file under more than one path
+  const paths: Record<string, string> = {};
+  for (const line of lines) {
+    paths[line.hash] = line.path || paths[line.hash] || '';
+    line.path = paths[line.hash];
+  }
+
+  return { lines, commits };
+};
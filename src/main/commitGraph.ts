@@ -0,0 +1,80 @@
+import { CommitGraphRow, GraphLine } from './types';
+
+export interface GraphCommit {
+  hash: string;
+  parents: string[];
+}
+
+interface Lane {
+  hash: string; // Commit the lane is waiting for
+  color: number;
+}
+
+/**
+ * Assign every commit a lane and work out the lines drawn through its row.
+ * Commits must be ordered children first (`--date-order` or `--topo-order`).
+ * Lanes keep their column until they end so lines never cross sideways;
+ * freed columns are reused by the next branch that needs one.
+ */
+export const layoutCommitGraph = (commits: GraphCommit[]): CommitGraphRow[] => {
+  const lanes: Array<Lane | null> = [];
+  const rows: CommitGraphRow[] = [];
+  let nextColor = 0;
+
+  const allocateLane = (lane: Lane): number => {
+    const free = lanes.indexOf(null);
+    if (free !== -1) {
+      lanes[free] = lane;
+      return free;
+    }
+    lanes.push(lane);
+    return lanes.length - 1;
+  };
+
+  for (const commit of commits) {
+    const lines: GraphLine[] = [];
+    const incoming = lanes.flatMap((lane, index) => (lane?.hash === commit.hash ? [index] : []));
+    const widthBefore = lanes.length;
+
+    // A branch tip nobody was waiting for starts a new lane
+    const lane = incoming.length > 0 ? incoming[0] : allocateLane({ hash: commit.hash, color: nextColor++ });
+    const color = (lanes[lane] as Lane).color;
+
+    // Lanes that do not end here pass straight through
+    lanes.forEach((other, index) => {
+      if (other && other.hash !== commit.hash && index < widthBefore) {
+        lines.push({ fromLane: index, toLane: index, color: other.color, segment: 'full' });
+      }
+    });
+
+    // Children converge on the commit, only the first lane carries on
+    for (const index of incoming) {
+      lines.push({ fromLane: index, toLane: lane, color: (lanes[index] as Lane).color, segment: 'top' });
+      if (index !== lane) {
+        lanes[index] = null;
+      }
+    }
+
+    if (commit.parents.length === 0) {
+      lanes[lane] = null;
+    } else {
+      lanes[lane] = { hash: commit.parents[0], color };
+      lines.push({ fromLane: lane, toLane: lane, color, segment: 'bottom' });
+
+      // Further parents join a lane already waiting for them or fork a new one
+      for (const parent of commit.parents.slice(1)) {
+        const existing = lanes.findIndex(other => other?.hash === parent);
+        const target = existing !== -1 ? existing : allocateLane({ hash: parent, color: nextColor++ });
+        lines.push({ fromLane: lane, toLane: target, color: (lanes[target] as Lane).color, segment: 'bottom' });
+      }
+    }
+
+    rows.push({ lane, color, lines, laneCount: Math.max(widthBefore, lanes.length) });
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+      lanes.pop();
+    }
+  }
+
+  return rows;
+};
@@ -0,0 +1,122 @@
+import { ConflictHunk, HunkResolution } from './types';
+
+type Segment =
+  | { kind: 'text'; lines: string[] }
+  | { kind: 'hunk'; hunk: ConflictHunk; raw: string[] };
+
+const MARKER_SIZE = 7;
+
+const isMarker = (line: string, char: string): boolean => {
+  const trimmed = line.replace(/\r$/, '');
+  const marker = char.repeat(MARKER_SIZE);
+  return trimmed === marker || trimmed.startsWith(marker + ' ');
+};
+
+const markerLabel = (line: string): string => {
+  return line.replace(/\r$/, '').substring(MARKER_SIZE).trim();
+};
+
+/**
+ * Split a working tree file into plain text and conflict hunks
+ */
+const splitSegments = (content: string): Segment[] => {
+  const lines = content.split('\n');
+  const segments: Segment[] = [];
+  let text: string[] = [];
+  let hunk: ConflictHunk | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+  let hunkLines: string[] = [];
+  let index = 0;
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (!hunk) {
+      if (isMarker(line, '<')) {
+        if (text.length > 0) {
+          segments.push({ kind: 'text', lines: text });
+          text = [];
+        }
+        hunk = {
+          index: index++,
+          startLine: lineIndex + 1,
+          oursLabel: markerLabel(line),
+          theirsLabel: '',
+          ours: [],
+          base: null,
+          theirs: []
+        };
+        section = 'ours';
+        hunkLines = [line];
+      } else {
+        text.push(line);
+      }
+      continue;
+    }
+
+    hunkLines.push(line);
+    if (section === 'ours' && isMarker(line, '|')) {
+      section = 'base';
+      hunk.base = [];
+    } else if (section !== 'theirs' && isMarker(line, '=')) {
+      section = 'theirs';
+    } else if (section === 'theirs' && isMarker(line, '>')) {
+      hunk.theirsLabel = markerLabel(line);
+      segments.push({ kind: 'hunk', hunk, raw: hunkLines });
+      hunk = null;
+    } else if (section === 'base') {
+      hunk.base?.push(line);
+    } else {
+      hunk[section].push(line);
+    }
+  }
+
+  // An unterminated conflict block is kept as plain text
+  if (hunk) {
+    text.push(...hunkLines);
+  }
+  if (text.length > 0) {
+    segments.push({ kind: 'text', lines: text });
+  }
+
+  return segments;
+};
+
+/**
+ * Extract conflict hunks from a file containing conflict markers
+ */
+export const parseConflictMarkers = (content: string): ConflictHunk[] => {
+  return splitSegments(content)
+    .flatMap(segment => (segment.kind === 'hunk' ? [segment.hunk] : []));
+};
+
+/**
+ * Replace every conflict hunk with the chosen side. Hunks without a
+ * resolution keep their markers.
+ */
+export const applyConflictResolutions = (content: string, resolutions: HunkResolution[]): string => {
+  const output: string[] = [];
+
+  for (const segment of splitSegments(content)) {
+    if (segment.kind === 'text') {
+      output.push(...segment.lines);
+      continue;
+    }
+
+    const { hunk, raw } = segment;
+    switch (resolutions[hunk.index]) {
+      case 'ours':
+        output.push(...hunk.ours);
+        break;
+      case 'theirs':
+        output.push(...hunk.theirs);
+        break;
+      case 'both':
+        output.push(...hunk.ours, ...hunk.theirs);
+        break;
+      default:
+        output.push(...raw);
+    }
+  }
+
+  return output.join('\n');
+};
@@ -0,0 +1,228 @@
+import { CommitDiff, DiffFile, PatchHunk, PatchLine } from './types';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+const C_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+/**
+ * Undo git's C-style quoting of paths with special characters, for example
+ * "t\303\251st.txt". Octal escapes are UTF-8 bytes.
+ */
+export const unquotePath = (path: string): string => {
+  if (!path.startsWith('"') || !path.endsWith('"') || path.length < 2) {
+    return path;
+  }
+
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i], 'utf8'));
+      continue;
+    }
+
+    const octal = body.substring(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      const escaped = body[i + 1];
+      bytes.push(C_ESCAPES[escaped] ?? escaped.charCodeAt(0));
+      i += 1;
+    }
+  }
+
+  return Buffer.from(bytes).toString('utf8');
+};
+
+const stripPrefix = (path: string): string | undefined => {
+  const unquoted = unquotePath(path);
+  if (unquoted === '/dev/null') return undefined;
+  return unquoted.replace(/^[ab]\//, '');
+};
+
+/**
+ * Read the two paths of a "diff --git a/<old> b/<new>" line. Unquoted paths
+ * may contain spaces, so when neither side is quoted the line is split
+ * where both halves name the same file; renames get their paths from the
+ * rename lines instead.
+ */
+const parseDiffGitPaths = (rest: string): { oldPath?: string; newPath?: string } => {
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*") (.+)$/) || rest.match(/^(.+?) ("(?:[^"\\]|\\.)*")$/);
+  if (quoted) {
+    return { oldPath: stripPrefix(quoted[1]), newPath: stripPrefix(quoted[2]) };
+  }
+
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest.substring(2, half) === rest.substring(half + 3)) {
+    const path = rest.substring(2, half);
+    return { oldPath: path, newPath: path };
+  }
+
+  const split = rest.lastIndexOf(' b/');
+  return split === -1 ? {} : { oldPath: stripPrefix(rest.substring(0, split)), newPath: rest.substring(split + 3) };
+};
+
+/**
+ * Parse hunk text into numbered lines. A hunk cut short (a truncated patch)
+ * simply ends early.
+ */
+export const parseHunks = (patch: string): PatchHunk[] => {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (const raw of patch.split('\n')) {
+    const header = raw.match(HUNK_HEADER);
+    if (header) {
+      oldNumber = parseInt(header[1], 10);
+      newNumber = parseInt(header[3], 10);
+      current = {
+        header: raw,
+        oldStart: oldNumber,
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: newNumber,
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        section: header[5],
+        lines: []
+      };
+      hunks.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    let line: PatchLine | null = null;
+    if (raw.startsWith('+')) {
+      line = { type: 'add', content: raw.substring(1), newNumber: newNumber++ };
+    } else if (raw.startsWith('-')) {
+      line = { type: 'delete', content: raw.substring(1), oldNumber: oldNumber++ };
+    } else if (raw.startsWith(' ')) {
+      line = { type: 'context', content: raw.substring(1), oldNumber: oldNumber++, newNumber: newNumber++ };
+    } else if (raw.startsWith('\\') && current.lines.length > 0) {
+      current.lines[current.lines.length - 1].noNewlineAtEnd = true;
+    }
+
+    if (line) {
+      current.lines.push(line);
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * Parse the header and hunks of one file, starting at its "diff --git" line
+ */
+const parseFileBlock = (block: string[]): DiffFile => {
+  const file: DiffFile = {
+    filename: '',
+    changeType: 'modified',
+    binary: false,
+    additions: 0,
+    deletions: 0,
+    hunks: [],
+    patch: ''
+  };
+
+  let { oldPath, newPath } = parseDiffGitPaths(block[0].substring('diff --git '.length));
+  let index = 1;
+  let indexMode: string | undefined;
+
+  for (; index < block.length && !block[index].startsWith('@@'); index++) {
+    const line = block[index];
+
+    if (line.startsWith('new file mode ')) {
+      file.changeType = 'added';
+      file.newMode = line.substring('new file mode '.length);
+    } else if (line.startsWith('deleted file mode ')) {
+      file.changeType = 'deleted';
+      file.oldMode = line.substring('deleted file mode '.length);
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.substring('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.substring('new mode '.length);
+    } else if (line.startsWith('index ')) {
+      // "index abc123..def456 100644" carries the mode when it did not change
+      indexMode = line.split(' ')[2];
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = parseInt(line.substring('similarity index '.length), 10);
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      file.changeType = line.startsWith('rename') ? 'renamed' : 'copied';
+      oldPath = unquotePath(line.substring(line.indexOf(' from ') + ' from '.length));
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      newPath = unquotePath(line.substring(line.indexOf(' to ') + ' to '.length));
+    } else if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+      // Paths containing spaces are followed by a tab
+      const path = stripPrefix(line.substring(4).replace(/\t$/, ''));
+      if (line.startsWith('---')) {
+        oldPath = path ?? oldPath;
+      } else {
+        newPath = path ?? newPath;
+      }
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  if (indexMode) {
+    if (file.changeType !== 'added') file.oldMode = file.oldMode ?? indexMode;
+    if (file.changeType !== 'deleted') file.newMode = file.newMode ?? indexMode;
+  }
+
+  file.filename = (file.changeType === 'deleted' ? oldPath : newPath) || oldPath || newPath || '';
+  if (file.changeType === 'renamed' || file.changeType === 'copied') {
+    file.oldFilename = oldPath;
+  }
+
+  const patchLines = block.slice(index);
+  while (patchLines.length > 0 && patchLines[patchLines.length - 1] === '') {
+    patchLines.pop();
+  }
+  file.patch = patchLines.join('\n');
+  file.hunks = parseHunks(file.patch);
+
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') file.additions++;
+      if (line.type === 'delete') file.deletions++;
+    }
+  }
+
+  return file;
+};
+
+/**
+ * Parse git diff, show or stash show output into one entry per file.
+ * Combined diffs of merge commits ("diff --cc") are skipped.
+ */
+export const parseDiff = (diffOutput: string): CommitDiff => {
+  const files: DiffFile[] = [];
+  let block: string[] | null = null;
+
+  const finishBlock = () => {
+    if (block) {
+      files.push(parseFileBlock(block));
+    }
+    block = null;
+  };
+
+  for (const line of diffOutput.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      finishBlock();
+      block = [line];
+    } else if (line.startsWith('diff --cc ') || line.startsWith('diff --combined ')) {
+      finishBlock();
+    } else if (block) {
+      block.push(line);
+    }
+  }
+  finishBlock();
+
+  return {
+    files,
+    totalAdditions: files.reduce((sum, file) => sum + file.additions, 0),
+    totalDeletions: files.reduce((sum, file) => sum + file.deletions, 0)
+  };
+};
@@ -1,11 +1,42 @@
-import simpleGit, { SimpleGit, StatusResult, LogResult } from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
 import * as path from 'path';
 import * as fs from 'fs';
-import { GitStatus, Repository, CommitWithDiff, GetCommitsOptions, CherryPickOptions, CherryPickResult, DiffFile, CommitDiff } from './types';
+import * as os from 'os';
+import { GitStatus, Repository, CommitWithDiff, GetCommitsOptions, CherryPickOptions, CherryPickResult, DiffFile, CommitDiff, OperationState, ConflictFile, ConflictSide, HunkResolution, GitOperationResult, StashEntry, StashOptions, CheckoutOptions, CheckoutResult, BranchInfo, DeleteBranchResult, RemoteInfo, FetchOptions, FetchResult, RemoteOperationResult, GitProgress, PushOptions, PushResult, PullOptions, PullResult, TrackingState, CommitGraphRow, CommitDetails, SignatureStatus, CommitOptions, CommitResult, FixupKind, RebaseAction, RebaseTodoItem, RevertOptions, ResetMode, ResetPreview, TagInfo, CreateTagOptions, TagResult, TagPushResult, ReflogEntry, FileHistoryEntry, FileChangeType, BlameResult, TreeEntry, TreeEntryType, FileContent, Commit, CompareMode, CompareResult, WorkingDiffOptions, WhitespaceMode } from './types';
+import { parseConflictMarkers, applyConflictResolutions } from './conflictMarkers';
+import { buildPartialPatch } from './patchBuilder';
+import { parsePorcelainStatus } from './statusParser';
+import { parsePushPorcelain } from './pushParser';
+import { layoutCommitGraph } from './commitGraph';
+import { parseRefDecorations } from './refDecorations';
+import { parseNumstat } from './numstatParser';
+import { parseDiff, parseHunks, unquotePath } from './diffParser';
+import { parseBlamePorcelain } from './blameParser';
+import { LruCache } from './lruCache';
+import { WatchTarget } from './repositoryWatcher';
+
+// Patches beyond these sizes are cut short before crossing IPC, the full file diff loads on request
+const MAX_FILE_PATCH_SIZE = 64 * 1024;
+const MAX_COMMIT_PATCH_SIZE = 512 * 1024;
+const DIFF_CACHE_SIZE = 100;
+// Files previewed in the tree browser are loaded whole, larger ones only by saving them
+const MAX_PREVIEW_SIZE = 2 * 1024 * 1024;
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+  bmp: 'image/bmp', webp: 'image/webp', ico: 'image/x-icon', svg: 'image/svg+xml'
+};
+
+// Output parseDiff can read whatever the user's color, prefix or external diff settings are
+const PATCH_FORMAT = ['--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+
+const CHANGE_TYPES: Record<string, FileChangeType> = { A: 'added', D: 'deleted', M: 'modified', T: 'modified', R: 'renamed', C: 'copied' };
+const NOTHING_TO_COMMIT = /^(nothing (added )?to commit|no changes added to commit)/m;
 
 export class GitService {
   private git: SimpleGit | null = null;
   private currentPath: string | null = null;
+  // A commit hash always names the same changes, so entries never go stale
+  private diffCache = new LruCache<string, CommitDiff>(DIFF_CACHE_SIZE);
 
   /**
    * Open a git repository at the specified path
@@ -61,20 +92,16 @@ export class GitService {
    */
   async getStatus(): Promise<GitStatus> {
     if (!this.git) {
-      return { staged: [], unstaged: [], untracked: [] };
+      return { files: [] };
     }
 
     try {
-      const status: StatusResult = await this.git.status();
-
-      return {
-        staged: status.staged,
-        unstaged: [...status.modified, ...status.deleted],
-        untracked: status.not_added
-      };
+      // Without optional locks status never rewrites the index, which the repository watcher would report
+      const output = await this.git.raw(['--no-optional-locks', 'status', '--porcelain=v2', '-z', '--untracked-files=all']);
+      return { files: parsePorcelainStatus(output) };
     } catch (error) {
       console.error('Failed to get status:', error);
-      return { staged: [], unstaged: [], untracked: [] };
+      return { files: [] };
     }
   }
 
@@ -96,393 +123,2235 @@ export class GitService {
   }
 
   /**
-   * Create a commit with the given message
+   * Remove files from the index, keeping their working tree changes. An
+   * empty list does nothing rather than unstaging the whole index.
    */
-  async commit(message: string): Promise<boolean> {
-    if (!this.git) {
+  async unstageFiles(files: string[]): Promise<boolean> {
+    if (!this.git || files.length === 0) {
       return false;
     }
 
     try {
-      await this.git.commit(message);
+      if (await this.hasHead()) {
+        await this.git.raw(['reset', '-q', 'HEAD', '--', ...files]);
+      } else {
+        // Nothing to reset to before the first commit
+        await this.git.raw(['rm', '--cached', '-r', '-q', '--', ...files]);
+      }
       return true;
     } catch (error) {
-      console.error('Failed to commit:', error);
+      console.error('Failed to unstage files:', error);
       return false;
     }
   }
 
   /**
-   * Get list of branches
+   * Discard unstaged modifications, restoring files to their staged version
    */
-  async getBranches(): Promise<string[]> {
-    if (!this.git) {
-      return [];
+  async discardChanges(files: string[]): Promise<boolean> {
+    if (!this.git || files.length === 0) {
+      return false;
     }
 
     try {
-      const branches = await this.git.branch();
-      return branches.all;
+      await this.git.raw(['checkout', '--', ...files]);
+      return true;
     } catch (error) {
-      console.error('Failed to get branches:', error);
-      return [];
+      console.error('Failed to discard changes:', error);
+      return false;
     }
   }
 
   /**
-   * Create a new branch
+   * Delete untracked files and directories. Without paths git clean would
+   * delete everything untracked, so an empty list does nothing.
    */
-  async createBranch(name: string): Promise<boolean> {
-    if (!this.git) {
+  async cleanUntracked(files: string[]): Promise<boolean> {
+    if (!this.git || files.length === 0) {
       return false;
     }
 
     try {
-      await this.git.checkoutBranch(name, 'HEAD');
+      await this.git.raw(['clean', '-f', '-d', '--', ...files]);
       return true;
     } catch (error) {
-      console.error('Failed to create branch:', error);
+      console.error('Failed to clean untracked files:', error);
       return false;
     }
   }
 
   /**
-   * Checkout to a branch
+   * Check whether the current branch has at least one commit
    */
-  async checkoutBranch(name: string): Promise<boolean> {
+  private async hasHead(): Promise<boolean> {
     if (!this.git) {
       return false;
     }
 
     try {
-      await this.git.checkout(name);
+      await this.git.raw(['rev-parse', '--verify', '-q', 'HEAD']);
       return true;
-    } catch (error) {
-      console.error('Failed to checkout branch:', error);
+    } catch {
       return false;
     }
   }
 
   /**
-   * Merge a branch into the current branch
+   * Get the raw diff of a single file against the index, or of the index
+   * against HEAD when staged is true
    */
-  async mergeBranch(sourceBranch: string): Promise<boolean> {
+  async getFileDiff(filePath: string, staged: boolean = false): Promise<string> {
     if (!this.git) {
-      return false;
+      return '';
     }
 
     try {
-      await this.git.merge([sourceBranch]);
-      return true;
+      // Fixed prefixes so the output can always be fed back to git apply
+      const args = ['diff', ...PATCH_FORMAT];
+      if (staged) {
+        args.push('--cached');
+      }
+      return await this.git.raw([...args, '--', filePath]);
     } catch (error) {
-      console.error('Failed to merge branch:', error);
-      return false;
+      console.error('Failed to get file diff:', error);
+      return '';
     }
   }
 
   /**
-   * Rebase current branch onto another branch
+   * Stage one hunk of a file's working tree changes, or only the selected
+   * lines of that hunk
    */
-  async rebaseBranch(targetBranch: string): Promise<boolean> {
+  async stageHunk(filePath: string, hunkIndex: number, lineIndices?: number[]): Promise<boolean> {
     if (!this.git) {
       return false;
     }
 
     try {
-      await this.git.rebase([targetBranch]);
-      return true;
+      const diff = await this.getFileDiff(filePath, false);
+      return await this.applyToIndex(buildPartialPatch(diff, hunkIndex, lineIndices, false), false);
     } catch (error) {
-      console.error('Failed to rebase branch:', error);
+      console.error('Failed to stage hunk:', error);
       return false;
     }
   }
 
   /**
-   * Get commit history with optional diffs
+   * Unstage one hunk of a file's staged changes, or only the selected lines
+   * of that hunk
    */
-  async getCommits(options: GetCommitsOptions = {}): Promise<CommitWithDiff[]> {
+  async unstageHunk(filePath: string, hunkIndex: number, lineIndices?: number[]): Promise<boolean> {
     if (!this.git) {
-      console.log('Git not initialized');
-      return [];
+      return false;
     }
 
     try {
-      console.log('Getting commits with options:', options);
+      const diff = await this.getFileDiff(filePath, true);
+      return await this.applyToIndex(buildPartialPatch(diff, hunkIndex, lineIndices, true), true);
+    } catch (error) {
+      console.error('Failed to unstage hunk:', error);
+      return false;
+    }
+  }
 
-      // Use simple-git log with basic options
-      const logOptions: Record<string, string | number> = {};
+  /**
+   * Apply a patch to the index only, leaving the working tree untouched
+   */
+  private async applyToIndex(patch: string | null, reverse: boolean): Promise<boolean> {
+    if (!this.git || !patch) {
+      return false;
+    }
 
-      if (options.limit) {
-        logOptions.maxCount = options.limit;
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'yagm-'));
+    const patchFile = path.join(tempDir, 'partial.patch');
+    try {
+      await fs.promises.writeFile(patchFile, patch, 'utf-8');
+      const args = ['apply', '--cached', '--whitespace=nowarn'];
+      if (reverse) {
+        args.push('--reverse');
       }
+      await this.git.raw([...args, patchFile]);
+      return true;
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
 
-      if (options.skip) {
-        logOptions.skip = options.skip;
+  /**
+   * Commit the staged changes, or amend the last commit
+   */
+  async commit(message: string, options: CommitOptions = {}): Promise<CommitResult> {
+    // Amending without a message keeps the old one rather than opening an editor
+    const messageArgs = message.trim() ? ['--message', message] : options.amend ? ['--no-edit'] : null;
+    if (!messageArgs) {
+      return { success: false, errorMessage: 'A commit message is required' };
+    }
+
+    return this.runCommit(messageArgs, options);
+  }
+
+  /**
+   * Commit the staged changes as a fixup! or squash! commit of an earlier
+   * commit, for a later `rebase --autosquash`
+   */
+  async createFixupCommit(targetHash: string, kind: FixupKind, options: CommitOptions = {}): Promise<CommitResult> {
+    if (targetHash.startsWith('-')) {
+      return { success: false, errorMessage: `Invalid revision: ${targetHash}` };
+    }
+
+    return this.runCommit([`--${kind}=${targetHash}`, '--no-edit'], { ...options, amend: false });
+  }
+
+  /**
+   * Run git commit and report the new hash, or the output of whatever
+   * stopped it
+   */
+  private async runCommit(messageArgs: string[], options: CommitOptions): Promise<CommitResult> {
+    if (!this.git) {
+      return { success: false, errorMessage: 'No repository open' };
+    }
+
+    const args = ['commit', ...messageArgs];
+    if (options.amend) args.push('--amend');
+    if (options.signOff) args.push('--signoff');
+    if (options.sign) args.push('--gpg-sign');
+    if (options.author) args.push(`--author=${options.author}`);
+    if (options.allowEmpty) args.push('--allow-empty');
+    if (options.noVerify) args.push('--no-verify');
+
+    try {
+      // Git exits with an error but prints only to stdout when nothing is staged
+      const output = await this.git.raw(args);
+      if (NOTHING_TO_COMMIT.test(output)) {
+        return { success: false, output: output.trim(), errorMessage: 'Nothing staged to commit' };
       }
 
-      if (options.messageFilter) {
-        logOptions['--grep'] = options.messageFilter;
+      const hash = (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+      return { success: true, hash };
+    } catch (error) {
+      console.error('Failed to commit:', error);
+      const output = error instanceof Error ? error.message.trim() : String(error);
+      const hooks = options.noVerify ? [] : await this.getCommitHooks();
+
+      // Git prefixes its own complaints, anything else came from a hook
+      const hookFailed = hooks.length > 0 &&
+        !/^(error|fatal):/m.test(output) &&
+        !NOTHING_TO_COMMIT.test(output);
+
+      return {
+        success: false,
+        hookFailed,
+        output,
+        errorMessage: hookFailed ? `Commit rejected by the ${hooks.join(' or ')} hook` : output.split('\n')[0]
+      };
+    }
+  }
+
+  /**
+   * Commit hooks that would run, honouring core.hooksPath
+   */
+  private async getCommitHooks(): Promise<string[]> {
+    if (!this.git || !this.currentPath) {
+      return [];
+    }
+
+    const hooks: string[] = [];
+    for (const hook of ['pre-commit', 'prepare-commit-msg', 'commit-msg']) {
+      try {
+        const hookPath = (await this.git.raw(['rev-parse', '--git-path', `hooks/${hook}`])).trim();
+        await fs.promises.access(path.resolve(this.currentPath, hookPath), fs.constants.X_OK);
+        hooks.push(hook);
+      } catch {
+        // Missing or not executable, git skips it too
       }
+    }
+    return hooks;
+  }
 
-      if (options.skip) {
-        logOptions['--skip'] = options.skip.toString();
+  /**
+   * Get local and remote-tracking branches with their upstream, ahead/behind
+   * counts and last commit
+   */
+  async getBranches(): Promise<BranchInfo[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      const fields = [
+        '%(refname)',
+        '%(refname:short)',
+        '%(HEAD)',
+        '%(symref)',
+        '%(upstream:short)',
+        '%(upstream:track,nobracket)',
+        '%(objectname)',
+        '%(contents:subject)',
+        '%(authorname)',
+        '%(committerdate:iso-strict)'
+      ];
+      const output = await this.git.raw([
+        'for-each-ref',
+        `--format=${fields.join('%1f')}`,
+        'refs/heads',
+        'refs/remotes'
+      ]);
+      const merged = await this.getMergedRefs();
+
+      const branches: BranchInfo[] = [];
+      for (const line of output.split('\n')) {
+        if (!line) continue;
+
+        const [ref, name, head, symref, upstream, track, hash, message, author, date] = line.split('\x1f');
+        // Skip refs/remotes/<remote>/HEAD, it only points at another remote branch
+        if (symref) continue;
+
+        const isRemote = ref.startsWith('refs/remotes/');
+        const ahead = track.match(/ahead (\d+)/);
+        const behind = track.match(/behind (\d+)/);
+        branches.push({
+          name,
+          ref,
+          isLocal: !isRemote,
+          isRemote,
+          remote: isRemote ? ref.substring('refs/remotes/'.length).split('/')[0] : undefined,
+          isCurrent: head === '*',
+          upstream: upstream || undefined,
+          upstreamGone: track === 'gone',
+          ahead: ahead ? parseInt(ahead[1], 10) : 0,
+          behind: behind ? parseInt(behind[1], 10) : 0,
+          lastCommit: { hash, message, author, date: new Date(date) },
+          merged: merged.has(ref)
+        });
       }
 
-      console.log('Git log options:', logOptions);
+      return branches;
+    } catch (error) {
+      console.error('Failed to get branches:', error);
+      return [];
+    }
+  }
 
-      // Try simple log first
-      const logResult: LogResult = await this.git.log(logOptions);
-      console.log('Git log result:', logResult.all.length, 'commits found');
+  /**
+   * Get the refs of all branches that are fully merged into HEAD
+   */
+  private async getMergedRefs(): Promise<Set<string>> {
+    if (!this.git || !(await this.hasHead())) {
+      return new Set();
+    }
 
-      const commits: CommitWithDiff[] = logResult.all.map(commit => ({
-        hash: commit.hash,
-        message: commit.message,
-        author: commit.author_name,
-        date: new Date(commit.date),
-        branch: commit.refs || undefined,
-        diff: {
-          files: [],
-          totalAdditions: 0,
-          totalDeletions: 0
-        }
-      }));
+    const output = await this.git.raw(['for-each-ref', '--merged=HEAD', '--format=%(refname)', 'refs/heads', 'refs/remotes']);
+    return new Set(output.split('\n').filter(Boolean));
+  }
 
+  /**
+   * Create a new branch at a commit, branch or remote branch and check it
+   * out unless asked not to. Branches created from a remote branch track it.
+   */
+  async createBranch(name: string, startPoint: string = 'HEAD', checkout: boolean = true): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
 
+    try {
+      if (name.startsWith('-')) {
+        throw new Error(`Invalid branch name: ${name}`);
+      }
+      if (startPoint.startsWith('-')) {
+        throw new Error(`Invalid revision: ${startPoint}`);
+      }
+      if (checkout) {
+        await this.git.checkoutBranch(name, startPoint);
+      } else {
+        await this.git.raw(['branch', name, startPoint]);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to create branch:', error);
+      return false;
+    }
+  }
 
-      // Load diffs if requested
-      if (options.includeDiffs) {
-        for (const commit of commits) {
-          try {
-            const diff = await this.git.show([commit.hash, '--stat', '--patch']);
-            const diffData = this.parseDiff(diff);
-            commit.diff = diffData;
-          } catch (error) {
-            console.warn(`Failed to load diff for commit ${commit.hash}:`, error);
-          }
-        }
+  /**
+   * Get lightweight and annotated tags, newest first. Annotated tags carry
+   * their tagger and message; every tag is peeled to the commit it marks.
+   */
+  async getTags(): Promise<TagInfo[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      const fields = [
+        '%(refname:short)',
+        '%(objecttype)',
+        '%(objectname)',
+        '%(*objectname)',
+        '%(subject)',
+        '%(*subject)',
+        '%(taggername)',
+        '%(taggeremail:trim)',
+        '%(taggerdate:iso-strict)',
+        '%(creatordate:iso-strict)',
+        '%(contents:body)',
+        '%(contents:signature)'
+      ];
+      // Messages span lines, so records end with a record separator
+      const output = await this.git.raw([
+        'for-each-ref',
+        '--sort=-creatordate',
+        `--format=${fields.join('%1f')}%1e`,
+        'refs/tags'
+      ]);
+
+      const tags: TagInfo[] = [];
+      for (const record of output.split('\x1e')) {
+        const line = record.replace(/^\n/, '');
+        if (!line) continue;
+
+        const [name, type, object, peeled, subject, peeledSubject, taggerName, taggerEmail, taggerDate, date, body, signature] =
+          line.split('\x1f');
+        const annotated = type === 'tag';
+        tags.push({
+          name,
+          annotated,
+          target: annotated ? peeled || object : object,
+          targetSubject: annotated ? peeledSubject : subject,
+          tagger: annotated && taggerName
+            ? { name: taggerName, email: taggerEmail, date: new Date(taggerDate) }
+            : undefined,
+          message: annotated ? [subject, body.trim()].filter(Boolean).join('\n\n') : undefined,
+          signed: !!signature,
+          date: new Date(date)
+        });
       }
 
-      return commits;
+      return tags;
     } catch (error) {
-      console.error('Failed to get commits:', error);
+      console.error('Failed to get tags:', error);
       return [];
     }
   }
 
   /**
-   * Parse git show output into structured diff data
+   * Create a tag at a commit. A message makes it an annotated tag, signing
+   * makes it a signed annotated tag using the configured GPG or SSH key.
    */
-  private parseDiff(diffOutput: string): CommitDiff {
-    const lines = diffOutput.split('\n');
-    const files: CommitWithDiff['diff']['files'] = [];
-    let totalAdditions = 0;
-    let totalDeletions = 0;
-
-    let currentFile: DiffFile | null = null;
-    let inPatch = false;
-    let patchLines: string[] = [];
+  async createTag(name: string, target: string = 'HEAD', options: CreateTagOptions = {}): Promise<TagResult> {
+    if (!this.git) {
+      return { success: false };
+    }
 
-    for (const line of lines) {
-      if (line.startsWith('diff --git')) {
-        // Save previous file if exists
-        if (currentFile) {
-          currentFile.patch = patchLines.join('\n');
-          files.push(currentFile);
-        }
+    try {
+      const invalid = await this.findInvalidTagName([name]);
+      if (invalid) {
+        throw new Error(`Invalid tag name: ${invalid}`);
+      }
+      if (target.startsWith('-')) {
+        throw new Error(`Invalid revision: ${target}`);
+      }
 
-        // Start new file
-        const match = line.match(/diff --git a\/(.+) b\/(.+)/);
-        if (match) {
-          currentFile = {
-            filename: match[2],
-            additions: 0,
-            deletions: 0,
-            patch: ''
-          };
-          inPatch = false;
-          patchLines = [];
-        }
-      } else if (currentFile && line.startsWith('@@')) {
-        // Start of patch hunk
-        inPatch = true;
-        patchLines.push(line);
-      } else if (inPatch && currentFile) {
-        patchLines.push(line);
-        if (line.startsWith('+') && !line.startsWith('+++')) {
-          currentFile.additions++;
-          totalAdditions++;
-        } else if (line.startsWith('-') && !line.startsWith('---')) {
-          currentFile.deletions++;
-          totalDeletions++;
-        }
+      const args = ['tag'];
+      if (options.sign) {
+        // Signed tags are always annotated, so they need a message
+        args.push('--sign', '--message', options.message?.trim() ? options.message : name);
+      } else if (options.message?.trim()) {
+        args.push('--annotate', '--message', options.message);
       }
+      if (options.force) {
+        args.push('--force');
+      }
+
+      await this.git.raw([...args, name, target]);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+      return { success: false, errorMessage: error instanceof Error ? error.message : String(error) };
     }
+  }
 
-    // Save last file
-    if (currentFile) {
-      currentFile.patch = patchLines.join('\n');
-      files.push(currentFile);
+  /**
+   * Delete a local tag. Remote copies are deleted with deleteRemoteTag.
+   */
+  async deleteTag(name: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
     }
 
-    return {
-      files,
-      totalAdditions,
-      totalDeletions
-    };
+    try {
+      if (await this.findInvalidTagName([name])) {
+        throw new Error(`Invalid tag name: ${name}`);
+      }
+      await this.git.raw(['tag', '--delete', name]);
+      return true;
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      return false;
+    }
   }
 
   /**
-   * Cherry pick one or more commits
+   * Delete a local branch. Without force, git refuses to delete a branch
+   * with commits that are not merged into its upstream or HEAD.
    */
-  async cherryPickCommits(commitHashes: string[], targetBranch: string, options: CherryPickOptions = {}): Promise<CherryPickResult> {
+  async deleteBranch(name: string, force: boolean = false): Promise<DeleteBranchResult> {
     if (!this.git) {
+      return { success: false };
+    }
+
+    try {
+      await this.git.raw(['branch', force ? '-D' : '-d', name]);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete branch:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         success: false,
-        conflicts: [],
-        appliedCommits: []
+        notMerged: errorMessage.includes('not fully merged'),
+        errorMessage
       };
     }
+  }
 
-    const result: CherryPickResult = {
-      success: true,
-      conflicts: [],
-      appliedCommits: [],
-      totalCommits: commitHashes.length,
-      progress: 0
-    };
+  /**
+   * Rename a local branch
+   */
+  async renameBranch(oldName: string, newName: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
 
-    // Get current branch for restoration later
-    const currentBranch = await this.getCurrentBranch();
-    const switchedBranch = currentBranch !== targetBranch;
+    try {
+      await this.git.raw(['branch', '-m', oldName, newName]);
+      return true;
+    } catch (error) {
+      console.error('Failed to rename branch:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Make a local branch track a remote branch
+   */
+  async setUpstream(branch: string, upstream: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
 
     try {
-      // Checkout target branch if different from current
-      if (switchedBranch) {
-        await this.git.checkout(targetBranch);
-      }
+      await this.git.raw(['branch', `--set-upstream-to=${upstream}`, branch]);
+      return true;
+    } catch (error) {
+      console.error('Failed to set upstream:', error);
+      return false;
+    }
+  }
 
-      // Process each commit
-      for (let i = 0; i < commitHashes.length; i++) {
-        const commitHash = commitHashes[i];
-        result.currentCommit = commitHash;
-        result.progress = Math.round((i / commitHashes.length) * 100);
-        
-        try {
-          const cherryPickArgs = [commitHash];
+  /**
+   * Stop a local branch from tracking its upstream
+   */
+  async unsetUpstream(branch: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
 
-          if (options.noCommit) {
-            cherryPickArgs.push('--no-commit');
-          }
+    try {
+      await this.git.raw(['branch', '--unset-upstream', branch]);
+      return true;
+    } catch (error) {
+      console.error('Failed to unset upstream:', error);
+      return false;
+    }
+  }
 
-          await this.git.raw(['cherry-pick', ...cherryPickArgs]);
+  /**
+   * Checkout to a branch, optionally stashing local changes first
+   */
+  async checkoutBranch(name: string, options: CheckoutOptions = {}): Promise<CheckoutResult> {
+    return this.runCheckout([name], name, options);
+  }
 
-          result.appliedCommits.push(commitHash);
-        } catch (error: unknown) {
-          // Check if there are conflicts
-          try {
-            const status = await this.getStatus();
-            if (status.unstaged.length > 0 || status.staged.length > 0) {
-              result.conflicts = [...status.unstaged, ...status.staged];
-              result.success = false;
-              result.errorType = 'conflict';
-              result.errorMessage = `Merge conflicts detected while cherry-picking commit ${commitHash.substring(0, 7)}`;
-              break;
-            } else {
-              // Other error - provide detailed message
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              result.success = false;
-              result.errorType = this.classifyError(errorMessage);
-              result.errorMessage = `Failed to cherry-pick commit ${commitHash.substring(0, 7)}: ${errorMessage}`;
-              break;
-            }
-          } catch (statusError) {
-            // If we can't even get status, provide a generic error
-            result.success = false;
-            result.errorType = 'git_error';
-            result.errorMessage = `Failed to cherry-pick commit ${commitHash.substring(0, 7)} and could not determine repository status`;
-            break;
-          }
-        }
-      }
+  /**
+   * Check out a commit as a detached HEAD, optionally stashing local changes first
+   */
+  async checkoutCommit(hash: string, options: CheckoutOptions = {}): Promise<CheckoutResult> {
+    if (hash.startsWith('-')) {
+      return { success: false, errorMessage: `Invalid revision: ${hash}` };
+    }
+    return this.runCheckout(['--detach', hash], hash.substring(0, 7), options);
+  }
 
-      // If squashing multiple commits, create a single commit
-      if (options.squash && commitHashes.length > 1 && result.success && !options.noCommit) {
-        await this.git.commit(`Squashed ${commitHashes.length} commits`);
+  private async runCheckout(args: string[], target: string, options: CheckoutOptions): Promise<CheckoutResult> {
+    if (!this.git) {
+      return { success: false };
+    }
+
+    let stashed = false;
+    try {
+      if (options.stashChanges) {
+        stashed = await this.pushStash({ message: `Auto-stash before switching to ${target}`, includeUntracked: true });
       }
 
+      await this.git.checkout(args);
+      return { success: true, stashed };
     } catch (error) {
-      console.error('Failed to cherry pick commits:', error);
-      result.success = false;
+      console.error(`Failed to checkout ${target}:`, error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      result.errorType = this.classifyError(errorMessage);
-      result.errorMessage = `Cherry pick operation failed: ${errorMessage}`;
-    }
 
-    // Restore original branch if we switched
-    if (currentBranch !== targetBranch) {
-      let restoreAttempts = 0;
-      const maxRestoreAttempts = 3;
-      
-      while (restoreAttempts < maxRestoreAttempts) {
+      // Put the changes back if switching failed anyway
+      if (stashed) {
         try {
-          // Verify we're on the target branch before restoring
-          const currentBranchAfterOp = await this.getCurrentBranch();
-          if (currentBranchAfterOp !== currentBranch) {
-            await this.git.checkout(currentBranch);
-            console.log(`Successfully restored to branch ${currentBranch}`);
-          }
-          break;
-        } catch (checkoutError) {
-          restoreAttempts++;
-          console.error(`Failed to restore original branch (attempt ${restoreAttempts}/${maxRestoreAttempts}):`, checkoutError);
-          
-          if (restoreAttempts >= maxRestoreAttempts) {
-            // If we can't restore, at least try to get back to a known state
-            try {
-              const currentStatus = await this.getStatus();
-              if (currentStatus.unstaged.length > 0 || currentStatus.staged.length > 0) {
-                console.warn('Repository has uncommitted changes after failed branch restoration');
-                result.conflicts = [...currentStatus.unstaged, ...currentStatus.staged];
-                result.success = false;
-              }
-            } catch (statusError) {
-              console.error('Failed to get repository status after failed branch restoration:', statusError);
-            }
-            
-            result.success = false;
-            result.conflicts.push(`Failed to restore branch ${currentBranch}: ${checkoutError instanceof Error ? checkoutError.message : 'Unknown error'}`);
-          } else {
-            // Brief delay before retry
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
+          await this.git.raw(['stash', 'pop']);
+        } catch (popError) {
+          console.error('Failed to restore auto-stash:', popError);
+        }
+      }
+
+      // Git lists the files that block the checkout on tab-indented lines
+      const blockingFiles = errorMessage
+        .split('\n')
+        .filter(line => line.startsWith('\t'))
+        .map(line => line.trim());
+
+      return {
+        success: false,
+        errorMessage,
+        blockingFiles: blockingFiles.length > 0 ? blockingFiles : undefined
+      };
+    }
+  }
+
+  /**
+   * Check out a remote branch as a new local branch tracking it. The local
+   * name defaults to the remote branch name without the remote prefix.
+   */
+  async checkoutRemoteBranch(remoteBranch: string, localName?: string): Promise<CheckoutResult> {
+    if (!this.git) {
+      return { success: false };
+    }
+
+    const name = localName || remoteBranch.substring(remoteBranch.indexOf('/') + 1);
+    try {
+      await this.git.raw(['checkout', '-b', name, '--track', remoteBranch]);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to checkout remote branch:', error);
+      return { success: false, errorMessage: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Merge a branch into the current branch
+   */
+  async mergeBranch(sourceBranch: string): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      await this.git.merge([sourceBranch]);
+      return { success: true, conflicts: [] };
+    } catch (error) {
+      console.error('Failed to merge branch:', error);
+      return this.failedOperationResult(error, `Merging ${sourceBranch} stopped with conflicts`);
+    }
+  }
+
+  /**
+   * Rebase current branch onto another branch
+   */
+  async rebaseBranch(targetBranch: string): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      await this.git.rebase([targetBranch]);
+      return { success: true, conflicts: [] };
+    } catch (error) {
+      console.error('Failed to rebase branch:', error);
+      return this.failedOperationResult(error, `Rebasing onto ${targetBranch} stopped with conflicts`);
+    }
+  }
+
+  /**
+   * Get the commits an interactive rebase onto base would replay, oldest
+   * first, as a todo list of picks
+   */
+  async getRebaseTodo(base: string): Promise<RebaseTodoItem[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      if (base.startsWith('-')) {
+        throw new Error(`Invalid revision: ${base}`);
+      }
+
+      // Rebase leaves merge commits out unless asked to keep them
+      const output = await this.git.raw(['log', '--reverse', '--no-merges', '--format=%H%x1f%s', `${base}..HEAD`, '--']);
+      return output
+        .split('\n')
+        .filter(Boolean)
+        .map(line => {
+          const [hash, subject] = line.split('\x1f');
+          return { action: 'pick' as const, hash, subject };
+        });
+    } catch (error) {
+      console.error('Failed to get rebase todo:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rebase the current branch onto base following an edited todo list.
+   * Stops for conflicts, edit commands and new reword or squash messages
+   * are reported through getOperationState.
+   */
+  async startInteractiveRebase(base: string, todo: RebaseTodoItem[]): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+    if (base.startsWith('-') || todo.some(item => item.hash.startsWith('-'))) {
+      return { success: false, conflicts: [], errorMessage: 'Invalid revision in rebase todo' };
+    }
+
+    const lines = todo.map(item => `${item.action} ${item.hash} ${item.subject}`);
+    try {
+      // Dropping every commit leaves git an empty todo, which it treats as "nothing to do"
+      await this.runRebaseCommand(['rebase', '--interactive', base], { todo: lines.length > 0 ? lines.join('\n') + '\n' : 'noop\n' });
+      return this.getRebaseOutcome();
+    } catch (error) {
+      console.error('Interactive rebase stopped:', error);
+      return this.getRebaseOutcome(error);
+    }
+  }
+
+  /**
+   * Report a finished rebase as a success and otherwise explain what it is
+   * waiting for. Git also exits with an error when it pauses on purpose.
+   */
+  private async getRebaseOutcome(error?: unknown): Promise<GitOperationResult> {
+    const errorMessage = error instanceof Error ? error.message : error ? String(error) : undefined;
+    const state = await this.getOperationState();
+    if (state.type !== 'rebase') {
+      return { success: !errorMessage, conflicts: [], errorMessage };
+    }
+
+    const commit = state.head ? ` at ${state.head.substring(0, 7)}` : '';
+    let reason = errorMessage || `Rebase stopped${commit}`;
+    if (state.conflicts.length > 0) {
+      reason = `Rebase stopped with conflicts${commit}`;
+    } else if (state.pendingMessage !== undefined) {
+      reason = `Rebase paused${commit} for a new commit message`;
+    } else if (state.rebaseAction === 'edit') {
+      reason = `Rebase paused${commit} so the commit can be edited`;
+    }
+    return { success: false, conflicts: state.conflicts, errorMessage: reason };
+  }
+
+  /**
+   * Run a rebase command with stand-ins for the editors git would open.
+   * The todo, when given, replaces the generated one. A commit message
+   * editor supplies the pending message once, fails for reword and squash
+   * so the rebase pauses for a new message, and accepts anything else.
+   */
+  private async runRebaseCommand(args: string[], input: { todo?: string; message?: string }): Promise<void> {
+    if (!this.currentPath) {
+      throw new Error('No repository open');
+    }
+
+    const gitDir = await this.getGitDir();
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'yagm-rebase-'));
+    // Git runs editors through sh, which wants forward slashes on Windows as well
+    const shellPath = (file: string) => file.replace(/\\/g, '/');
+
+    try {
+      const messageFile = path.join(tempDir, 'message');
+      const doneFile = path.join(gitDir || '.git', 'rebase-merge', 'done');
+      const editorScript = path.join(tempDir, 'editor.sh');
+      await fs.promises.writeFile(editorScript, [
+        `if [ -f "${shellPath(messageFile)}" ]; then mv "${shellPath(messageFile)}" "$1"; exit 0; fi`,
+        `case "$(grep -v '^#' "${shellPath(doneFile)}" 2>/dev/null | tail -n 1)" in`,
+        '  reword*|r\\ *|squash*|s\\ *) exit 1 ;;',
+        'esac',
+        'exit 0',
+        ''
+      ].join('\n'), 'utf-8');
+
+      const env: Record<string, string> = { GIT_EDITOR: `sh "${shellPath(editorScript)}"` };
+      if (input.message !== undefined) {
+        await fs.promises.writeFile(messageFile, input.message, 'utf-8');
+      }
+      if (input.todo !== undefined) {
+        const todoFile = path.join(tempDir, 'todo');
+        await fs.promises.writeFile(todoFile, input.todo, 'utf-8');
+        env.GIT_SEQUENCE_EDITOR = `cp "${shellPath(todoFile)}"`;
+      }
+
+      await simpleGit(this.currentPath).env({ ...process.env, ...env }).raw(args);
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Get commit history with optional diffs
+   */
+  async getCommits(options: GetCommitsOptions = {}): Promise<CommitWithDiff[]> {
+    if (!this.git) {
+      console.log('Git not initialized');
+      return [];
+    }
+
+    try {
+      console.log('Getting commits with options:', options);
+
+      // Children always come before their parents in date order, which the graph layout relies on
+      const args = ['log', '--date-order', '--decorate=full'];
+
+      if (options.limit) {
+        args.push(`--max-count=${options.limit}`);
+      }
+
+      if (options.skip) {
+        args.push(`--skip=${options.skip}`);
+      }
+
+      const filters = this.getFilterArgs(options);
+      const paths = (options.paths || []).filter(Boolean);
+      const revisions = this.getRevisionArgs(options);
+      const fields = ['%H', '%P', '%an', '%aI', '%D', '%s'];
+      if (options.includeStats) {
+        args.push('--numstat');
+      }
+      const output = await this.git.raw([
+        ...args,
+        '-z',
+        ...filters,
+        `--format=%x1e${fields.join('%x1f')}`,
+        ...revisions,
+        '--',
+        ...paths
+      ]);
+
+      const commits: CommitWithDiff[] = output
+        .split('\x1e')
+        .filter(record => record.trim())
+        .map(record => {
+          // -z ends the header with a NUL, file stats follow it
+          const headerEnd = record.indexOf('\0');
+          const header = headerEnd === -1 ? record : record.substring(0, headerEnd);
+          const [hash, parents, author, date, decoration, message] = header.split('\x1f');
+          return {
+            hash,
+            parents: parents ? parents.split(' ') : [],
+            message,
+            author,
+            date: new Date(date),
+            refs: parseRefDecorations(decoration),
+            diff: parseNumstat(headerEnd === -1 ? '' : record.substring(headerEnd + 1))
+          };
+        });
+      console.log('Git log result:', commits.length, 'commits found');
+
+      // A filtered history has gaps, so lanes would connect unrelated commits
+      if (filters.length === 0 && paths.length === 0) {
+        const rows = await this.getGraphRows(revisions, (options.skip || 0) + commits.length);
+        commits.forEach((commit, index) => {
+          commit.graph = rows[(options.skip || 0) + index];
+        });
+      }
+
+      return commits;
+    } catch (error) {
+      console.error('Failed to get commits:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the patches of a commit. Large patches are truncated and flagged,
+   * getCommitFileDiff loads one of them in full.
+   */
+  async getCommitDiff(hash: string): Promise<CommitDiff> {
+    const empty: CommitDiff = { files: [], totalAdditions: 0, totalDeletions: 0 };
+    if (!this.git) {
+      return empty;
+    }
+
+    const cached = this.diffCache.get(hash);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      if (hash.startsWith('-')) {
+        throw new Error(`Invalid revision: ${hash}`);
+      }
+      const output = await this.git.raw(['show', '--format=', '--patch', ...PATCH_FORMAT, hash, '--']);
+      const diff = this.truncatePatches(parseDiff(output));
+      this.diffCache.set(hash, diff);
+      return diff;
+    } catch (error) {
+      console.error('Failed to get commit diff:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Get the complete patch of one file in a commit
+   */
+  async getCommitFileDiff(hash: string, filePath: string): Promise<DiffFile | null> {
+    if (!this.git) {
+      return null;
+    }
+
+    try {
+      if (hash.startsWith('-')) {
+        throw new Error(`Invalid revision: ${hash}`);
+      }
+      const output = await this.git.raw(['show', '--format=', '--patch', ...PATCH_FORMAT, hash, '--', filePath]);
+      return parseDiff(output).files.find(file => file.filename === filePath) || null;
+    } catch (error) {
+      console.error('Failed to get commit file diff:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare two revisions: the patches between them and the commits each
+   * side has that the other does not. Two-dot compares the tips directly,
+   * three-dot only shows what head changed since it forked from base.
+   */
+  async compareRefs(base: string, head: string, mode: CompareMode = 'three-dot'): Promise<CompareResult> {
+    const result: CompareResult = {
+      base,
+      head,
+      mode,
+      diff: { files: [], totalAdditions: 0, totalDeletions: 0 },
+      baseOnly: [],
+      headOnly: []
+    };
+    if (!this.git) {
+      return { ...result, errorMessage: 'No repository open' };
+    }
+
+    try {
+      const invalid = [base, head].find(rev => !rev || rev.startsWith('-'));
+      if (invalid !== undefined) {
+        throw new Error(`Invalid revision: ${invalid}`);
+      }
+
+      result.mergeBase = (await this.git.raw(['merge-base', base, head]).catch(() => '')).trim() || undefined;
+      if (mode === 'three-dot' && !result.mergeBase) {
+        return { ...result, errorMessage: `${base} and ${head} have no common history, compare their tips instead` };
+      }
+
+      const output = await this.git.raw(['diff', '--patch', ...PATCH_FORMAT, this.compareRange(base, head, mode), '--']);
+      result.diff = this.truncatePatches(parseDiff(output));
+
+      // %m marks commits only reachable from the left side with "<"
+      const log = await this.git.raw([
+        'log', '--left-right', '--date-order', '--decorate=full',
+        '--format=%m%x1f%H%x1f%P%x1f%an%x1f%aI%x1f%D%x1f%s',
+        `${base}...${head}`, '--'
+      ]);
+      for (const line of log.split('\n').filter(Boolean)) {
+        const [side, hash, parents, author, date, decoration, message] = line.split('\x1f');
+        const commit: Commit = {
+          hash,
+          parents: parents ? parents.split(' ') : [],
+          message,
+          author,
+          date: new Date(date),
+          refs: parseRefDecorations(decoration)
+        };
+        (side === '<' ? result.baseOnly : result.headOnly).push(commit);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Failed to compare revisions:', error);
+      return { ...result, errorMessage: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Get the complete patch of one file between two revisions
+   */
+  async getCompareFileDiff(base: string, head: string, mode: CompareMode, filePath: string): Promise<DiffFile | null> {
+    if (!this.git) {
+      return null;
+    }
+
+    try {
+      const invalid = [base, head].find(rev => !rev || rev.startsWith('-'));
+      if (invalid !== undefined) {
+        throw new Error(`Invalid revision: ${invalid}`);
+      }
+      const output = await this.git.raw(['diff', '--patch', ...PATCH_FORMAT, this.compareRange(base, head, mode), '--', filePath]);
+      return parseDiff(output).files.find(file => file.filename === filePath) || null;
+    } catch (error) {
+      console.error('Failed to get compare file diff:', error);
+      return null;
+    }
+  }
+
+  private compareRange(base: string, head: string, mode: CompareMode): string {
+    return mode === 'three-dot' ? `${base}...${head}` : `${base}..${head}`;
+  }
+
+  /**
+   * Get the full metadata of a commit, the refs containing it and the
+   * status of its GPG or SSH signature
+   */
+  async getCommitDetails(hash: string): Promise<CommitDetails | null> {
+    if (!this.git) {
+      return null;
+    }
+
+    try {
+      if (hash.startsWith('-')) {
+        throw new Error(`Invalid revision: ${hash}`);
+      }
+
+      const fields = ['%H', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%D', '%G?', '%GS', '%GK', '%(trailers:only,unfold)', '%s', '%b'];
+      const output = await this.git.raw(['show', '--no-patch', '--decorate=full', `--format=${fields.join('%x1f')}`, hash, '--']);
+      const [
+        fullHash, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate,
+        decoration, signatureStatus, signer, signingKey, trailers, subject, ...bodyParts
+      ] = output.split('\x1f');
+      const body = bodyParts.join('\x1f');
+
+      // Remote HEAD symrefs only mirror another branch
+      const containing = await this.git.raw([
+        'for-each-ref', `--contains=${fullHash}`, '--format=%(refname)', 'refs/heads', 'refs/remotes', 'refs/tags'
+      ]);
+      const containingRefs = containing.split('\n').filter(ref => ref && !ref.endsWith('/HEAD'));
+
+      return {
+        hash: fullHash,
+        parents: parents ? parents.split(' ') : [],
+        subject,
+        body: body.trim(),
+        author: { name: authorName, email: authorEmail, date: new Date(authorDate) },
+        committer: { name: committerName, email: committerEmail, date: new Date(committerDate) },
+        trailers: trailers
+          .split('\n')
+          .map(line => line.match(/^([^:\s]+):\s*(.*)$/))
+          .filter((match): match is RegExpMatchArray => !!match)
+          .map(match => ({ key: match[1], value: match[2] })),
+        refs: parseRefDecorations(decoration),
+        branches: containingRefs
+          .filter(ref => !ref.startsWith('refs/tags/'))
+          .map(ref => ref.replace(/^refs\/(heads|remotes)\//, '')),
+        tags: containingRefs
+          .filter(ref => ref.startsWith('refs/tags/'))
+          .map(ref => ref.substring('refs/tags/'.length)),
+        signature: {
+          status: (signatureStatus || 'N') as SignatureStatus,
+          signer: signer || undefined,
+          key: signingKey || undefined
+        }
+      };
+    } catch (error) {
+      console.error('Failed to get commit details:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cut patches down to the per-file and per-commit size limits, ending on
+   * a whole line. Line counts still describe the complete patch.
+   */
+  private truncatePatches(diff: CommitDiff): CommitDiff {
+    let budget = MAX_COMMIT_PATCH_SIZE;
+
+    const files = diff.files.map(file => {
+      const limit = Math.min(MAX_FILE_PATCH_SIZE, budget);
+      if (file.patch.length <= limit) {
+        budget -= file.patch.length;
+        return file;
+      }
+
+      const cut = file.patch.lastIndexOf('\n', limit);
+      const patch = cut > 0 ? file.patch.substring(0, cut) : '';
+      budget -= patch.length;
+      return { ...file, patch, hunks: parseHunks(patch), truncated: true };
+    });
+
+    return { ...diff, files };
+  }
+
+  /**
+   * Turn the history scope of GetCommitsOptions into git log revision
+   * arguments. Stashes are left out of --all, their internal commits are noise.
+   */
+  private getRevisionArgs(options: GetCommitsOptions): string[] {
+    // Refs come from user input and must not be taken for options
+    const userRefs = [options.branch, ...(options.refs || []), options.range?.base, options.range?.head];
+    const invalid = userRefs.find(ref => ref?.startsWith('-'));
+    if (invalid) {
+      throw new Error(`Invalid revision: ${invalid}`);
+    }
+
+    if (options.all) {
+      return ['--exclude=refs/stash', '--all'];
+    }
+    if (options.range) {
+      return [`${options.range.base}..${options.range.head}`];
+    }
+    const refs = [options.branch, ...(options.refs || [])].filter((ref): ref is string => !!ref);
+    return refs.length > 0 ? refs : ['HEAD'];
+  }
+
+  /**
+   * Turn the search fields of GetCommitsOptions into git log arguments.
+   * Patterns are extended regexes unless fixedStrings is set.
+   */
+  private getFilterArgs(options: GetCommitsOptions): string[] {
+    const args: string[] = [];
+
+    if (options.messageFilter) {
+      args.push(`--grep=${options.messageFilter}`);
+    }
+    if (options.author) {
+      args.push(`--author=${options.author}`);
+    }
+    if (options.committer) {
+      args.push(`--committer=${options.committer}`);
+    }
+    if (args.length > 0) {
+      args.push(options.fixedStrings ? '--fixed-strings' : '--extended-regexp');
+    }
+
+    if (options.content) {
+      if (options.contentMode === 'diff') {
+        // -G always takes a regex, so a literal search escapes it
+        const pattern = options.fixedStrings ? options.content.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : options.content;
+        args.push(`-G${pattern}`);
+      } else {
+        args.push(`-S${options.content}`);
+        if (!options.fixedStrings) {
+          args.push('--pickaxe-regex');
+        }
+      }
+    }
+
+    if (options.since) {
+      args.push(`--since=${options.since}`);
+    }
+    if (options.until) {
+      args.push(`--until=${options.until}`);
+    }
+
+    if (options.merges === 'only') {
+      args.push('--merges');
+    } else if (options.merges === 'exclude') {
+      args.push('--no-merges');
+    }
+
+    return args;
+  }
+
+  /**
+   * Lay out the commit graph from the newest commit down to the requested
+   * depth. Lanes depend on every newer commit, so each page lays out the
+   * history above it again from parent hashes alone.
+   */
+  private async getGraphRows(revisions: string[], count: number): Promise<CommitGraphRow[]> {
+    if (!this.git || count === 0) {
+      return [];
+    }
+
+    const output = await this.git.raw(['log', '--date-order', `--max-count=${count}`, '--format=%H %P', ...revisions, '--']);
+    const commits = output
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [hash, ...parents] = line.split(' ');
+        return { hash, parents: parents.filter(Boolean) };
+      });
+    return layoutCommitGraph(commits);
+  }
+
+  /**
+   * Get the commits that changed a file, newest first, following it
+   * through renames. Each entry carries the file's path in that commit.
+   */
+  async getFileHistory(filePath: string, limit: number = 200): Promise<FileHistoryEntry[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      const output = await this.git.raw([
+        'log',
+        '--follow',
+        '-z',
+        '--name-status',
+        `--max-count=${limit}`,
+        '--format=%x1e%H%x1f%P%x1f%an%x1f%aI%x1f%s',
+        '--',
+        filePath
+      ]);
+
+      const entries: FileHistoryEntry[] = [];
+      for (const record of output.split('\x1e')) {
+        // The header is followed by "<status>\0<path>\0", renames and copies name both paths
+        const [header, status, ...paths] = record.split('\0').map(token => token.replace(/^\n/, ''));
+        if (!header || !status) continue;
+
+        const [hash, parents, author, date, subject] = header.split('\x1f');
+        const renamed = paths.length > 1 && paths[1] !== '';
+        entries.push({
+          hash,
+          parents: parents ? parents.split(' ') : [],
+          author,
+          date: new Date(date),
+          subject,
+          path: renamed ? paths[1] : paths[0],
+          oldPath: renamed ? paths[0] : undefined,
+          changeType: CHANGE_TYPES[status.charAt(0)] || 'modified'
+        });
+      }
+
+      return entries;
+    } catch (error) {
+      console.error('Failed to get file history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Blame a file at a revision, or in the working tree when no revision is
+   * given. Returns null when the file does not exist there.
+   */
+  async getBlame(filePath: string, rev?: string): Promise<BlameResult | null> {
+    if (!this.git) {
+      return null;
+    }
+
+    try {
+      if (rev?.startsWith('-')) {
+        throw new Error(`Invalid revision: ${rev}`);
+      }
+      const output = await this.git.raw(['blame', '--porcelain', ...(rev ? [rev] : []), '--', filePath]);
+      return { path: filePath, rev, ...parseBlamePorcelain(output) };
+    } catch (error) {
+      console.error('Failed to blame file:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List one directory of a revision, or of the working tree when no
+   * revision is given. Directories come first, then files, by name.
+   */
+  async getTree(rev?: string, dirPath: string = ''): Promise<TreeEntry[]> {
+    if (!this.git || !this.currentPath) {
+      return [];
+    }
+
+    try {
+      if (rev?.startsWith('-')) {
+        throw new Error(`Invalid revision: ${rev}`);
+      }
+      this.resolveWorkingPath(dirPath);
+      const entries = rev ? await this.listRevisionTree(rev, dirPath) : await this.listWorkingTree(dirPath);
+      return entries.sort((a, b) =>
+        Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name)
+      );
+    } catch (error) {
+      console.error('Failed to list tree:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve a path relative to the working tree, refusing paths such as
+   * "../other" or absolute ones that lead outside the repository
+   */
+  private resolveWorkingPath(relativePath: string): string {
+    const root = path.resolve(this.currentPath!);
+    const fullPath = path.resolve(root, relativePath);
+    const relative = path.relative(root, fullPath);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`Path outside the repository: ${relativePath}`);
+    }
+    return fullPath;
+  }
+
+  private async listRevisionTree(rev: string, dirPath: string): Promise<TreeEntry[]> {
+    const output = await this.git!.raw(['ls-tree', '-z', '--long', rev, ...(dirPath ? ['--', `${dirPath}/`] : [])]);
+    const types: Record<string, TreeEntryType> = { tree: 'directory', commit: 'submodule' };
+
+    return output.split('\0').filter(Boolean).map(record => {
+      // "<mode> <type> <object> <size>\t<path>", the size is "-" for trees and submodules
+      const tab = record.indexOf('\t');
+      const [mode, type, , size] = record.substring(0, tab).split(/\s+/);
+      const entryPath = record.substring(tab + 1);
+      return {
+        name: path.posix.basename(entryPath),
+        path: entryPath,
+        type: types[type] || (mode === '120000' ? 'symlink' : 'file'),
+        size: type === 'blob' ? parseInt(size, 10) : undefined
+      };
+    });
+  }
+
+  private async listWorkingTree(dirPath: string): Promise<TreeEntry[]> {
+    const dirents = await fs.promises.readdir(path.join(this.currentPath!, dirPath), { withFileTypes: true });
+    const entries = await Promise.all(dirents.filter(dirent => dirent.name !== '.git').map(async (dirent): Promise<TreeEntry> => {
+      const entryPath = dirPath ? `${dirPath}/${dirent.name}` : dirent.name;
+      const fullPath = path.join(this.currentPath!, entryPath);
+      if (dirent.isSymbolicLink()) {
+        return { name: dirent.name, path: entryPath, type: 'symlink' };
+      }
+      if (dirent.isDirectory()) {
+        const submodule = await fs.promises.access(path.join(fullPath, '.git')).then(() => true, () => false);
+        return { name: dirent.name, path: entryPath, type: submodule ? 'submodule' : 'directory' };
+      }
+      return { name: dirent.name, path: entryPath, type: 'file', size: (await fs.promises.stat(fullPath)).size };
+    }));
+
+    const ignored = await this.getIgnoredPaths(entries.map(entry => entry.path));
+    entries.forEach(entry => {
+      entry.ignored = ignored.has(entry.path);
+    });
+    return entries;
+  }
+
+  /**
+   * Get which of the given working tree paths git ignores, through
+   * .gitignore files, .git/info/exclude or core.excludesFile
+   */
+  async getIgnoredPaths(paths: string[]): Promise<Set<string>> {
+    if (!this.git || paths.length === 0) {
+      return new Set();
+    }
+
+    try {
+      // Exits non-zero without output when nothing is ignored
+      const output = await this.git.raw(['check-ignore', '--', ...paths]);
+      return new Set(output.split('\n').filter(Boolean).map(unquotePath));
+    } catch (error) {
+      console.error('Failed to check ignored paths:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Get the directories to watch for changes to the current repository
+   */
+  async getWatchTarget(): Promise<WatchTarget | null> {
+    if (!this.git || !this.currentPath) {
+      return null;
+    }
+
+    try {
+      const [gitDir, commonDir] = (await this.git.raw(['rev-parse', '--absolute-git-dir', '--git-common-dir'])).trim().split('\n');
+      return { root: this.currentPath, gitDir, commonDir: path.resolve(this.currentPath, commonDir) };
+    } catch (error) {
+      console.error('Failed to locate git directory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Read a file at a revision (`git show rev:path`), or from the working
+   * tree when no revision is given. Files are flagged as binary when their
+   * start contains a NUL byte, like git does; images are returned as data URLs.
+   */
+  async getFileContent(filePath: string, rev?: string): Promise<FileContent | null> {
+    if (!this.git || !this.currentPath) {
+      return null;
+    }
+
+    try {
+      if (rev?.startsWith('-')) {
+        throw new Error(`Invalid revision: ${rev}`);
+      }
+      const fullPath = this.resolveWorkingPath(filePath);
+      const size = rev
+        ? parseInt(await this.git.raw(['cat-file', '-s', `${rev}:${filePath}`]), 10)
+        : (await fs.promises.stat(fullPath)).size;
+      if (size > MAX_PREVIEW_SIZE) {
+        return { path: filePath, rev, size, binary: false, tooLarge: true };
+      }
+
+      const content = rev ? await this.git.showBuffer([`${rev}:${filePath}`]) : await fs.promises.readFile(fullPath);
+      const binary = content.subarray(0, 8000).includes(0);
+      const imageType = IMAGE_TYPES[path.extname(filePath).substring(1).toLowerCase()];
+      return {
+        path: filePath,
+        rev,
+        size,
+        binary,
+        tooLarge: false,
+        text: binary ? undefined : content.toString('utf-8'),
+        image: imageType ? `data:${imageType};base64,${content.toString('base64')}` : undefined
+      };
+    } catch (error) {
+      console.error('Failed to read file:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a file as it is at a revision, or a copy of the working tree file,
+   * to a path outside the repository
+   */
+  async saveFileAtRevision(filePath: string, rev: string | undefined, destination: string): Promise<boolean> {
+    if (!this.git || !this.currentPath) {
+      return false;
+    }
+
+    try {
+      if (rev?.startsWith('-')) {
+        throw new Error(`Invalid revision: ${rev}`);
+      }
+      const fullPath = this.resolveWorkingPath(filePath);
+      if (rev) {
+        await fs.promises.writeFile(destination, await this.git.showBuffer([`${rev}:${filePath}`]));
+      } else {
+        await fs.promises.copyFile(fullPath, destination);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to save file:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the reflog of HEAD or a branch, newest first. The old hash of an
+   * entry is the new hash of the one before it, so one extra entry is read.
+   * Entries whose commit no ref reaches anymore are marked as lost.
+   */
+  async getReflog(ref: string = 'HEAD', limit: number = 200): Promise<ReflogEntry[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      if (ref.startsWith('-')) {
+        throw new Error(`Invalid revision: ${ref}`);
+      }
+      const output = await this.git.raw([
+        'log',
+        '--walk-reflogs',
+        '--date=unix',
+        '--format=%H%x1f%gd%x1f%gs%x1f%s',
+        `--max-count=${limit + 1}`,
+        ref,
+        '--'
+      ]);
+
+      const rows = output.split('\n').filter(Boolean).map(line => line.split('\x1f'));
+      const hashes = Array.from(new Set(rows.map(([hash]) => hash)));
+      const lost = hashes.length > 0
+        ? new Set((await this.git.raw(['rev-list', ...hashes, '--not', '--all'])).split('\n').filter(Boolean))
+        : new Set<string>();
+
+      return rows.slice(0, limit).map(([hash, selector, reflogSubject, subject], index) => {
+        // "checkout: moving from main to topic", "commit (amend): Fix typo"
+        const separator = reflogSubject.indexOf(': ');
+        const timestamp = selector.match(/@\{(\d+)\}$/);
+        return {
+          selector: `${ref}@{${index}}`,
+          oldHash: rows[index + 1]?.[0],
+          newHash: hash,
+          action: separator === -1 ? reflogSubject : reflogSubject.substring(0, separator),
+          message: separator === -1 ? '' : reflogSubject.substring(separator + 2),
+          subject,
+          date: new Date(timestamp ? parseInt(timestamp[1], 10) * 1000 : 0),
+          lost: lost.has(hash)
+        };
+      });
+    } catch (error) {
+      console.error('Failed to get reflog:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cherry pick one or more commits
+   */
+  async cherryPickCommits(commitHashes: string[], targetBranch: string, options: CherryPickOptions = {}): Promise<CherryPickResult> {
+    if (!this.git) {
+      return {
+        success: false,
+        conflicts: [],
+        appliedCommits: []
+      };
+    }
+
+    const result: CherryPickResult = {
+      success: true,
+      conflicts: [],
+      appliedCommits: [],
+      totalCommits: commitHashes.length,
+      progress: 0
+    };
+
+    // Get current branch for restoration later
+    const currentBranch = await this.getCurrentBranch();
+    const switchedBranch = currentBranch !== targetBranch;
+
+    try {
+      // Checkout target branch if different from current
+      if (switchedBranch) {
+        await this.git.checkout(targetBranch);
+      }
+
+      // Process each commit
+      for (let i = 0; i < commitHashes.length; i++) {
+        const commitHash = commitHashes[i];
+        result.currentCommit = commitHash;
+        result.progress = Math.round((i / commitHashes.length) * 100);
+        
+        try {
+          const cherryPickArgs = [commitHash];
+
+          if (options.noCommit) {
+            cherryPickArgs.push('--no-commit');
+          }
+
+          await this.git.raw(['cherry-pick', ...cherryPickArgs]);
+
+          result.appliedCommits.push(commitHash);
+        } catch (error: unknown) {
+          // Check if there are conflicts
+          const conflicts = await this.getConflictedFiles();
+          result.success = false;
+          if (conflicts.length > 0) {
+            result.conflicts = conflicts;
+            result.errorType = 'conflict';
+            result.errorMessage = `Merge conflicts detected while cherry-picking commit ${commitHash.substring(0, 7)}`;
+            result.pendingCommits = commitHashes.slice(i + 1);
+          } else {
+            // Other error - provide detailed message
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            result.errorType = this.classifyError(errorMessage);
+            result.errorMessage = `Failed to cherry-pick commit ${commitHash.substring(0, 7)}: ${errorMessage}`;
+          }
+          break;
+        }
+      }
+
+      // If squashing multiple commits, create a single commit
+      if (options.squash && commitHashes.length > 1 && result.success && !options.noCommit) {
+        await this.git.commit(`Squashed ${commitHashes.length} commits`);
+      }
+
+    } catch (error) {
+      console.error('Failed to cherry pick commits:', error);
+      result.success = false;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errorType = this.classifyError(errorMessage);
+      result.errorMessage = `Cherry pick operation failed: ${errorMessage}`;
+    }
+
+    // Restore original branch if we switched. On conflict we stay on the
+    // target branch so the cherry-pick can be resolved and continued.
+    if (currentBranch !== targetBranch && result.errorType !== 'conflict') {
+      let restoreAttempts = 0;
+      const maxRestoreAttempts = 3;
+      
+      while (restoreAttempts < maxRestoreAttempts) {
+        try {
+          // Verify we're on the target branch before restoring
+          const currentBranchAfterOp = await this.getCurrentBranch();
+          if (currentBranchAfterOp !== currentBranch) {
+            await this.git.checkout(currentBranch);
+            console.log(`Successfully restored to branch ${currentBranch}`);
+          }
+          break;
+        } catch (checkoutError) {
+          restoreAttempts++;
+          console.error(`Failed to restore original branch (attempt ${restoreAttempts}/${maxRestoreAttempts}):`, checkoutError);
+          
+          if (restoreAttempts >= maxRestoreAttempts) {
+            // If we can't restore, at least try to get back to a known state
+            try {
+              const currentStatus = await this.getStatus();
+              const changedFiles = currentStatus.files
+                .filter(file => file.worktreeState !== 'untracked' && file.worktreeState !== 'ignored')
+                .map(file => file.path);
+              if (changedFiles.length > 0) {
+                console.warn('Repository has uncommitted changes after failed branch restoration');
+                result.conflicts = changedFiles;
+                result.success = false;
+              }
+            } catch (statusError) {
+              console.error('Failed to get repository status after failed branch restoration:', statusError);
+            }
+            
+            result.success = false;
+            result.conflicts.push(`Failed to restore branch ${currentBranch}: ${checkoutError instanceof Error ? checkoutError.message : 'Unknown error'}`);
+          } else {
+            // Brief delay before retry
+            await new Promise(resolve => setTimeout(resolve, 100));
+          }
+        }
+      }
+    }
+
+    // Final progress update
+    result.progress = 100;
+    result.currentCommit = undefined;
+    
+    return result;
+  }
+
+  /**
+   * Revert one or more commits, newest first so later changes are undone
+   * before the ones they build on. Merge commits are reverted against the
+   * parent given as mainline (1 is the branch that was merged into).
+   */
+  async revertCommits(commitHashes: string[], options: RevertOptions = {}): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      const invalid = commitHashes.find(hash => hash.startsWith('-'));
+      if (invalid) {
+        throw new Error(`Invalid revision: ${invalid}`);
+      }
+      const ordered = (await this.git.raw(['rev-list', '--no-walk', ...commitHashes])).split('\n').filter(Boolean);
+
+      const args = ['revert', '--no-edit'];
+      if (options.mainline) {
+        args.push('--mainline', String(options.mainline));
+      }
+      if (options.noCommit) {
+        args.push('--no-commit');
+      }
+
+      await this.git.raw([...args, ...ordered]);
+      return { success: true, conflicts: [] };
+    } catch (error) {
+      console.error('Failed to revert commits:', error);
+      return this.failedOperationResult(error, 'The revert stopped with conflicts');
+    }
+  }
+
+  /**
+   * Describe what resetting the current branch to a commit gives up: the
+   * commits it will no longer contain and the tracked files whose changes
+   * a hard reset discards. Untracked files survive any reset.
+   */
+  async getResetPreview(hash: string): Promise<ResetPreview> {
+    if (!this.git) {
+      return { commits: [], changedFiles: [] };
+    }
+
+    try {
+      if (hash.startsWith('-')) {
+        throw new Error(`Invalid revision: ${hash}`);
+      }
+      const log = await this.git.raw(['log', '--format=%H%x00%s', `${hash}..HEAD`, '--']);
+
+      // Commits no other branch, tag or remote branch still reaches are gone for good
+      const branch = (await this.git.raw(['symbolic-ref', '--quiet', '--short', 'HEAD']).catch(() => '')).trim();
+      const exclude = branch ? [`--exclude=${branch}`] : [];
+      const unreachable = new Set(
+        (await this.git.raw(['rev-list', `${hash}..HEAD`, '--not', ...exclude, '--branches', '--tags', '--remotes', '--']))
+          .split('\n')
+          .filter(Boolean)
+      );
+
+      const commits = log.split('\n').filter(Boolean).map(line => {
+        const [commitHash, subject] = line.split('\0');
+        return { hash: commitHash, subject, unreachable: unreachable.has(commitHash) };
+      });
+
+      const { files } = await this.getStatus();
+      const changedFiles = files
+        .filter(file => file.worktreeState !== 'untracked' && file.worktreeState !== 'ignored')
+        .map(file => file.path);
+
+      return { commits, changedFiles };
+    } catch (error) {
+      console.error('Failed to preview reset:', error);
+      return { commits: [], changedFiles: [] };
+    }
+  }
+
+  /**
+   * Move the current branch to a commit. Soft keeps the index and working
+   * tree, mixed keeps only the working tree and hard discards both.
+   */
+  async resetToCommit(hash: string, mode: ResetMode): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      if (hash.startsWith('-')) {
+        throw new Error(`Invalid revision: ${hash}`);
+      }
+      await this.git.raw(['reset', `--${mode}`, hash, '--']);
+      return true;
+    } catch (error) {
+      console.error('Failed to reset:', error);
+      return false;
+    }
+  }
+
+  private classifyError(errorMessage: string): 'conflict' | 'branch_error' | 'git_error' | 'permission_error' | 'unknown' {
+    const lowerError = errorMessage.toLowerCase();
+    
+    if (lowerError.includes('conflict') || lowerError.includes('merge')) {
+      return 'conflict';
+    }
+    if (lowerError.includes('permission') || lowerError.includes('denied') || lowerError.includes('access')) {
+      return 'permission_error';
+    }
+    if (lowerError.includes('branch') || lowerError.includes('checkout') || lowerError.includes('head')) {
+      return 'branch_error';
+    }
+    if (lowerError.includes('git') || lowerError.includes('repository') || lowerError.includes('index')) {
+      return 'git_error';
+    }
+    
+    return 'unknown';
+  }
+
+  /**
+   * Build the result of a failed merge, rebase or sequencer command
+   */
+  private async failedOperationResult(error: unknown, conflictMessage: string): Promise<GitOperationResult> {
+    const conflicts = await this.getConflictedFiles();
+    if (conflicts.length > 0) {
+      return { success: false, conflicts, errorMessage: conflictMessage };
+    }
+
+    return {
+      success: false,
+      conflicts: [],
+      errorMessage: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  /**
+   * Resolve the repository's .git directory (handles worktrees and submodules)
+   */
+  private async getGitDir(): Promise<string | null> {
+    if (!this.git || !this.currentPath) {
+      return null;
+    }
+
+    const gitDir = (await this.git.raw(['rev-parse', '--git-dir'])).trim();
+    return path.resolve(this.currentPath, gitDir);
+  }
+
+  /**
+   * Read a state file inside the .git directory, or null if it does not exist
+   */
+  private async readGitFile(gitDir: string, name: string): Promise<string | null> {
+    try {
+      const content = await fs.promises.readFile(path.join(gitDir, name), 'utf-8');
+      return content.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get paths with unresolved merge conflicts
+   */
+  async getConflictedFiles(): Promise<string[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      const output = await this.git.raw(['diff', '--name-only', '--diff-filter=U', '-z']);
+      return Array.from(new Set(output.split('\0').filter(Boolean)));
+    } catch (error) {
+      console.error('Failed to get conflicted files:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Detect a merge, cherry-pick, revert or rebase that is waiting to be
+   * continued, skipped or aborted
+   */
+  async getOperationState(): Promise<OperationState> {
+    const idle: OperationState = { type: null, conflicts: [] };
+    if (!this.git) {
+      return idle;
+    }
+
+    try {
+      const gitDir = await this.getGitDir();
+      if (!gitDir) {
+        return idle;
+      }
+      const conflicts = await this.getConflictedFiles();
+
+      const rebaseDirs = [
+        { dir: 'rebase-merge', step: 'msgnum', total: 'end', head: 'stopped-sha' },
+        { dir: 'rebase-apply', step: 'next', total: 'last', head: 'original-commit' }
+      ];
+      for (const rebase of rebaseDirs) {
+        const headName = await this.readGitFile(gitDir, `${rebase.dir}/head-name`);
+        if (headName === null) {
+          continue;
+        }
+
+        const step = await this.readGitFile(gitDir, `${rebase.dir}/${rebase.step}`);
+        const total = await this.readGitFile(gitDir, `${rebase.dir}/${rebase.total}`);
+        const head = await this.readGitFile(gitDir, `${rebase.dir}/${rebase.head}`);
+        const rebaseAction = await this.getStoppedRebaseAction(gitDir);
+
+        // Reword and squash stop until the new message is confirmed
+        let pendingMessage: string | undefined;
+        if (rebaseAction === 'reword' || rebaseAction === 'squash') {
+          const message = await this.readGitFile(gitDir, `${rebase.dir}/message`);
+          pendingMessage = (message || '')
+            .split('\n')
+            .filter(line => !line.startsWith('#'))
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+        }
+
+        return {
+          type: 'rebase',
+          head: head || undefined,
+          branch: headName.replace(/^refs\/heads\//, ''),
+          step: step ? parseInt(step, 10) : undefined,
+          totalSteps: total ? parseInt(total, 10) : undefined,
+          rebaseAction,
+          pendingMessage,
+          conflicts
+        };
+      }
+
+      const heads: Array<{ file: string; type: OperationState['type'] }> = [
+        { file: 'MERGE_HEAD', type: 'merge' },
+        { file: 'CHERRY_PICK_HEAD', type: 'cherry-pick' },
+        { file: 'REVERT_HEAD', type: 'revert' }
+      ];
+      for (const { file, type } of heads) {
+        const head = await this.readGitFile(gitDir, file);
+        if (head !== null) {
+          return { type, head: head.split('\n')[0], conflicts };
+        }
+      }
+
+      return { ...idle, conflicts };
+    } catch (error) {
+      console.error('Failed to get operation state:', error);
+      return idle;
+    }
+  }
+
+  /**
+   * Read the todo command an interactive rebase last executed
+   */
+  private async getStoppedRebaseAction(gitDir: string): Promise<RebaseAction | undefined> {
+    const done = await this.readGitFile(gitDir, 'rebase-merge/done');
+    const last = done?.split('\n').filter(line => line && !line.startsWith('#')).pop();
+    if (!last) {
+      return undefined;
+    }
+
+    // rebase.abbreviateCommands writes single letters
+    const commands: Record<string, RebaseAction> = { p: 'pick', r: 'reword', e: 'edit', s: 'squash', f: 'fixup', d: 'drop' };
+    const command = last.split(' ')[0];
+    return commands[command] || (Object.values(commands).includes(command as RebaseAction) ? command as RebaseAction : undefined);
+  }
+
+  /**
+   * Get the base, ours, theirs and working tree versions of a conflicted file
+   */
+  async getConflictFile(filePath: string): Promise<ConflictFile | null> {
+    if (!this.git || !this.currentPath) {
+      return null;
+    }
+
+    const git = this.git;
+    const readStage = async (stage: number): Promise<string | null> => {
+      try {
+        return await git.show([`:${stage}:${filePath}`]);
+      } catch {
+        return null;
+      }
+    };
+
+    try {
+      const [base, ours, theirs] = await Promise.all([readStage(1), readStage(2), readStage(3)]);
+      let working: string | null = null;
+      try {
+        working = await fs.promises.readFile(path.join(this.currentPath, filePath), 'utf-8');
+      } catch {
+        // Deleted in the working tree
+      }
+
+      const binary = [base, ours, theirs, working].some(content => content !== null && content.includes('\0'));
+
+      return {
+        path: filePath,
+        base,
+        ours,
+        theirs,
+        working,
+        binary,
+        hunks: working !== null && !binary ? parseConflictMarkers(working) : []
+      };
+    } catch (error) {
+      console.error('Failed to get conflict file:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the index stages (1 = base, 2 = ours, 3 = theirs) present for a conflicted path
+   */
+  private async getConflictStages(filePath: string): Promise<Set<number>> {
+    const stages = new Set<number>();
+    if (!this.git) {
+      return stages;
+    }
+
+    const output = await this.git.raw(['ls-files', '-u', '-z', '--', filePath]);
+    for (const entry of output.split('\0').filter(Boolean)) {
+      const [info] = entry.split('\t');
+      stages.add(parseInt(info.split(' ')[2], 10));
+    }
+    return stages;
+  }
+
+  /**
+   * Resolve a conflicted file by taking our or their whole version.
+   * If the chosen side deleted the file, the deletion is staged.
+   */
+  async resolveConflict(filePath: string, side: ConflictSide): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      const stages = await this.getConflictStages(filePath);
+      if (stages.has(side === 'ours' ? 2 : 3)) {
+        await this.git.raw(['checkout', `--${side}`, '--', filePath]);
+        await this.git.add([filePath]);
+      } else {
+        await this.git.raw(['rm', '--', filePath]);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a conflicted file hunk by hunk. The file is staged once no
+   * conflict markers remain.
+   */
+  async resolveConflictHunks(filePath: string, resolutions: HunkResolution[]): Promise<boolean> {
+    if (!this.git || !this.currentPath) {
+      return false;
+    }
+
+    try {
+      const fullPath = path.join(this.currentPath, filePath);
+      const content = await fs.promises.readFile(fullPath, 'utf-8');
+      const resolved = applyConflictResolutions(content, resolutions);
+      await fs.promises.writeFile(fullPath, resolved, 'utf-8');
+
+      if (parseConflictMarkers(resolved).length === 0) {
+        await this.git.add([filePath]);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve conflict hunks:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark files as resolved after they were fixed by hand
+   */
+  async markResolved(files: string[]): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      await this.git.add(files);
+      return true;
+    } catch (error) {
+      console.error('Failed to mark files as resolved:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Continue the operation in progress once all conflicts are resolved
+   */
+  async continueOperation(message?: string): Promise<GitOperationResult> {
+    return this.controlOperation('continue', message);
+  }
+
+  /**
+   * Skip the commit that stopped the operation in progress
+   */
+  async skipOperation(): Promise<GitOperationResult> {
+    return this.controlOperation('skip');
+  }
+
+  /**
+   * Abort the operation in progress and restore the previous state
+   */
+  async abortOperation(): Promise<GitOperationResult> {
+    return this.controlOperation('abort');
+  }
+
+  private async controlOperation(action: 'continue' | 'skip' | 'abort', message?: string): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    const state = await this.getOperationState();
+    if (!state.type) {
+      return { success: false, conflicts: [], errorMessage: 'No merge, cherry-pick, revert or rebase is in progress' };
+    }
+    if (action === 'continue' && state.conflicts.length > 0) {
+      return { success: false, conflicts: state.conflicts, errorMessage: 'Resolve all conflicts before continuing' };
+    }
+    if (action === 'skip' && state.type === 'merge') {
+      return { success: false, conflicts: state.conflicts, errorMessage: 'A merge cannot be skipped, abort it instead' };
+    }
+
+    if (state.type === 'rebase') {
+      return this.controlRebase(action, message);
+    }
+
+    try {
+      // Accept the prepared commit message instead of opening an editor
+      await this.git.raw(['-c', 'core.editor=true', state.type, `--${action}`]);
+
+      // A multi-commit cherry-pick may stop again on the next commit
+      const conflicts = await this.getConflictedFiles();
+      return {
+        success: conflicts.length === 0,
+        conflicts,
+        errorMessage: conflicts.length > 0 ? `The ${state.type} stopped with new conflicts` : undefined
+      };
+    } catch (error) {
+      console.error(`Failed to ${action} ${state.type}:`, error);
+      return this.failedOperationResult(error, `The ${state.type} stopped with new conflicts`);
+    }
+  }
+
+  /**
+   * Continue, skip or abort a rebase. A message confirms the reword or
+   * squash the rebase paused for.
+   */
+  private async controlRebase(action: 'continue' | 'skip' | 'abort', message?: string): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      let pendingMessage = action === 'continue' && message?.trim() ? message : undefined;
+
+      // A reword stop has already committed the change, only its message is left to replace
+      const staged = (await this.git.raw(['diff', '--cached', '--name-only'])).trim();
+      if (pendingMessage !== undefined && !staged) {
+        await this.git.raw(['commit', '--amend', '--no-verify', '--message', pendingMessage]);
+        pendingMessage = undefined;
+      }
+
+      await this.runRebaseCommand(['rebase', `--${action}`], { message: pendingMessage });
+      return this.getRebaseOutcome();
+    } catch (error) {
+      console.error(`Failed to ${action} rebase:`, error);
+      return this.getRebaseOutcome(error);
+    }
+  }
+
+  /**
+   * Get the list of stashes, newest first
+   */
+  async getStashes(): Promise<StashEntry[]> {
+    if (!this.git) {
+      return [];
+    }
+
+    try {
+      const output = await this.git.raw(['stash', 'list', '--format=%H%x1f%gd%x1f%gs%x1f%ct']);
+      return output
+        .split('\n')
+        .filter(Boolean)
+        .map((line, index) => {
+          const [hash, ref, subject, timestamp] = line.split('\x1f');
+          // Subjects look like "WIP on main: abc1234 message" or "On main: message"
+          const match = subject.match(/^(?:WIP on|On) ([^:]+): (.*)$/);
+          return {
+            index,
+            ref,
+            hash,
+            message: match ? match[2] : subject,
+            branch: match ? match[1] : undefined,
+            date: new Date(parseInt(timestamp, 10) * 1000)
+          };
+        });
+    } catch (error) {
+      console.error('Failed to get stashes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the changes recorded in a stash, including its untracked files
+   */
+  async getStashDiff(index: number): Promise<CommitDiff> {
+    const empty: CommitDiff = { files: [], totalAdditions: 0, totalDeletions: 0 };
+    if (!this.git) {
+      return empty;
+    }
+
+    try {
+      const diff = await this.git.raw(['stash', 'show', '-p', ...PATCH_FORMAT, '--include-untracked', `stash@{${index}}`]);
+      return parseDiff(diff);
+    } catch (error) {
+      console.error('Failed to get stash diff:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Stash local changes
+   */
+  async createStash(options: StashOptions = {}): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      const created = await this.pushStash(options);
+      return created
+        ? { success: true, conflicts: [] }
+        : { success: false, conflicts: [], errorMessage: 'No local changes to save' };
+    } catch (error) {
+      console.error('Failed to create stash:', error);
+      return { success: false, conflicts: [], errorMessage: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Run git stash push, returning whether a stash entry was created
+   */
+  private async pushStash(options: StashOptions): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    const args = ['stash', 'push'];
+    if (options.includeUntracked) {
+      args.push('--include-untracked');
+    }
+    if (options.keepIndex) {
+      args.push('--keep-index');
+    }
+    if (options.message) {
+      args.push('-m', options.message);
+    }
+
+    const output = await this.git.raw(args);
+    return !output.includes('No local changes to save');
+  }
+
+  /**
+   * Apply a stash to the working tree, keeping it in the stash list
+   */
+  async applyStash(index: number): Promise<GitOperationResult> {
+    return this.restoreStash('apply', index);
+  }
+
+  /**
+   * Apply a stash and remove it from the stash list. Git keeps the stash
+   * when applying it produces conflicts.
+   */
+  async popStash(index: number): Promise<GitOperationResult> {
+    return this.restoreStash('pop', index);
+  }
+
+  private async restoreStash(action: 'apply' | 'pop', index: number): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
+    }
+
+    try {
+      await this.git.raw(['stash', action, '--index', `stash@{${index}}`]);
+      return { success: true, conflicts: [] };
+    } catch (error) {
+      // --index fails when the staged changes no longer apply cleanly, retry
+      // without restoring the index
+      let failure: unknown = error;
+      const conflicts = await this.getConflictedFiles();
+      if (conflicts.length === 0) {
+        try {
+          await this.git.raw(['stash', action, `stash@{${index}}`]);
+          return { success: true, conflicts: [] };
+        } catch (retryError) {
+          failure = retryError;
         }
       }
-    }
 
-    // Final progress update
-    result.progress = 100;
-    result.currentCommit = undefined;
-    
-    return result;
+      console.error(`Failed to ${action} stash:`, failure);
+      return this.failedOperationResult(
+        failure,
+        action === 'pop'
+          ? 'The stash was applied with conflicts and was kept in the stash list'
+          : 'The stash was applied with conflicts'
+      );
+    }
   }
 
-  private classifyError(errorMessage: string): 'conflict' | 'branch_error' | 'git_error' | 'permission_error' | 'unknown' {
-    const lowerError = errorMessage.toLowerCase();
-    
-    if (lowerError.includes('conflict') || lowerError.includes('merge')) {
-      return 'conflict';
+  /**
+   * Delete a stash
+   */
+  async dropStash(index: number): Promise<boolean> {
+    if (!this.git) {
+      return false;
     }
-    if (lowerError.includes('permission') || lowerError.includes('denied') || lowerError.includes('access')) {
-      return 'permission_error';
+
+    try {
+      await this.git.raw(['stash', 'drop', `stash@{${index}}`]);
+      return true;
+    } catch (error) {
+      console.error('Failed to drop stash:', error);
+      return false;
     }
-    if (lowerError.includes('branch') || lowerError.includes('checkout') || lowerError.includes('head')) {
-      return 'branch_error';
+  }
+
+  /**
+   * Create and check out a branch at the commit the stash was based on,
+   * apply the stash there and drop it
+   */
+  async createBranchFromStash(index: number, branchName: string): Promise<GitOperationResult> {
+    if (!this.git) {
+      return { success: false, conflicts: [] };
     }
-    if (lowerError.includes('git') || lowerError.includes('repository') || lowerError.includes('index')) {
-      return 'git_error';
+
+    try {
+      await this.git.raw(['stash', 'branch', branchName, `stash@{${index}}`]);
+      return { success: true, conflicts: [] };
+    } catch (error) {
+      console.error('Failed to create branch from stash:', error);
+      return this.failedOperationResult(error, `Branch ${branchName} was created but the stash applied with conflicts`);
     }
-    
-    return 'unknown';
   }
 
   /**
@@ -632,57 +2501,434 @@ export class GitService {
     return [];
   }
 
-   /**
-    * Push changes to remote
-    */
-   async push(): Promise<boolean> {
-     if (!this.git) {
-       return false;
-     }
-
-     try {
-       await this.git.raw(['push']);
-       return true;
-     } catch (error) {
-       console.error('Push failed:', error);
-       return false;
-     }
-   }
+  /**
+   * Get configured remotes with their fetch and push URLs
+   */
+  async getRemotes(): Promise<RemoteInfo[]> {
+    if (!this.git) {
+      return [];
+    }
 
-   /**
-    * Pull changes from remote
-    */
-   async pull(): Promise<boolean> {
-     if (!this.git) {
-       return false;
-     }
-
-     try {
-       await this.git.raw(['pull']);
-       return true;
-     } catch (error) {
-       console.error('Pull failed:', error);
-       return false;
-     }
-   }
+    try {
+      const remotes = await this.git.getRemotes(true);
+      return remotes.map(remote => ({
+        name: remote.name,
+        fetchUrl: remote.refs.fetch,
+        pushUrl: remote.refs.push
+      }));
+    } catch (error) {
+      console.error('Failed to get remotes:', error);
+      return [];
+    }
+  }
 
-   /**
-    * Get diff for changes
-    */
-   async getDiff(staged: boolean = false): Promise<string> {
-     if (!this.git) {
-       return '';
-     }
-
-     try {
-       const args = staged ? ['diff', '--cached'] : ['diff'];
-       const result = await this.git.raw(args);
-       return result;
-     } catch (error) {
-       console.error('Failed to get diff:', error);
-       return '';
-     }
+  /**
+   * Add a remote
+   */
+  async addRemote(name: string, url: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      await this.git.addRemote(name, url);
+      return true;
+    } catch (error) {
+      console.error('Failed to add remote:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a remote along with its remote-tracking branches
+   */
+  async removeRemote(name: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      await this.git.removeRemote(name);
+      return true;
+    } catch (error) {
+      console.error('Failed to remove remote:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rename a remote, updating its remote-tracking branches and upstreams
+   */
+  async renameRemote(oldName: string, newName: string): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      await this.git.raw(['remote', 'rename', oldName, newName]);
+      return true;
+    } catch (error) {
+      console.error('Failed to rename remote:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Change the URL of a remote. Setting the push URL leaves fetching untouched.
+   */
+  async setRemoteUrl(name: string, url: string, push: boolean = false): Promise<boolean> {
+    if (!this.git) {
+      return false;
+    }
+
+    try {
+      const args = ['remote', 'set-url'];
+      if (push) {
+        args.push('--push');
+      }
+      await this.git.raw([...args, name, url]);
+      return true;
+    } catch (error) {
+      console.error('Failed to set remote URL:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch one remote, or every remote one after another, reporting progress
+   * for each
+   */
+  async fetch(options: FetchOptions = {}, onProgress?: (progress: GitProgress) => void): Promise<FetchResult> {
+    if (!this.git) {
+      return { success: false, remotes: [] };
+    }
+
+    const remotes = options.remote
+      ? [options.remote]
+      : (await this.getRemotes()).map(remote => remote.name);
+
+    const results: RemoteOperationResult[] = [];
+    for (const remote of remotes) {
+      try {
+        const args = ['fetch'];
+        if (options.prune) {
+          args.push('--prune');
+        }
+        await this.createProgressGit(remote, onProgress).raw([...args, remote]);
+        results.push({ remote, success: true });
+      } catch (error) {
+        console.error(`Failed to fetch ${remote}:`, error);
+        results.push({ remote, success: false, errorMessage: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { success: results.every(result => result.success), remotes: results };
+  }
+
+  /**
+   * Create a git instance for the current repository whose network
+   * operations report progress for the given remote
+   */
+  private createProgressGit(remote: string, onProgress?: (progress: GitProgress) => void): SimpleGit {
+    if (!this.currentPath || !onProgress) {
+      return this.git as SimpleGit;
+    }
+
+    return simpleGit({
+      baseDir: this.currentPath,
+      // Server side counting and compressing is reported as "remote: ..." lines
+      progress: (event) => onProgress({ ...event, stage: event.stage === 'remote:' ? 'remote' : event.stage, remote })
+    });
+  }
+
+  /**
+   * Get the remote and remote branch name a local branch tracks
+   */
+  private async getUpstream(branch: string): Promise<{ remote: string; branch: string } | null> {
+    if (!this.git || !branch) {
+      return null;
+    }
+
+    try {
+      const remote = (await this.git.raw(['config', '--get', `branch.${branch}.remote`])).trim();
+      const merge = (await this.git.raw(['config', '--get', `branch.${branch}.merge`])).trim();
+      return { remote, branch: merge.replace(/^refs\/heads\//, '') };
+    } catch {
+      // git config exits with 1 when the key is not set
+      return null;
+    }
+  }
+
+  /**
+   * Get the upstream of a local branch and how far it has diverged from it
+   */
+  private async getTrackingState(branch: string): Promise<TrackingState> {
+    const state: TrackingState = { ahead: 0, behind: 0 };
+    if (!this.git || !branch) {
+      return state;
+    }
+
+    try {
+      const output = await this.git.raw([
+        'for-each-ref',
+        '--format=%(upstream:short)%1f%(upstream:track,nobracket)',
+        `refs/heads/${branch}`
+      ]);
+      const [upstream, track] = output.trim().split('\x1f');
+      const ahead = track?.match(/ahead (\d+)/);
+      const behind = track?.match(/behind (\d+)/);
+      return {
+        upstream: upstream || undefined,
+        ahead: ahead ? parseInt(ahead[1], 10) : 0,
+        behind: behind ? parseInt(behind[1], 10) : 0
+      };
+    } catch (error) {
+      console.error('Failed to get tracking state:', error);
+      return state;
+    }
+  }
+
+  /**
+   * Push a branch, reporting which refs were updated or rejected and why
+   */
+  async push(options: PushOptions = {}, onProgress?: (progress: GitProgress) => void): Promise<PushResult> {
+    const result: PushResult = { success: false, updatedRefs: [], rejectedRefs: [], tracking: { ahead: 0, behind: 0 } };
+    if (!this.git) {
+      return result;
+    }
+
+    // On a detached HEAD getCurrentBranch names the commit, which is not a branch to push
+    const branch = options.branch ||
+      (await this.git.raw(['symbolic-ref', '--quiet', '--short', 'HEAD']).catch(() => '')).trim();
+    if (!branch) {
+      return {
+        ...result,
+        detachedHead: true,
+        errorMessage: 'HEAD is detached. Choose a branch to push.'
+      };
+    }
+
+    const upstream = await this.getUpstream(branch);
+    const remote = options.remote || upstream?.remote;
+    if (!remote) {
+      return {
+        ...result,
+        noUpstream: true,
+        tracking: await this.getTrackingState(branch),
+        errorMessage: `${branch} has no upstream branch. Choose a remote to push to.`
+      };
+    }
+
+    const args = ['push', '--porcelain'];
+    if (options.setUpstream) {
+      args.push('--set-upstream');
+    }
+    if (options.forceWithLease) {
+      args.push('--force-with-lease');
+    }
+    if (options.tags) {
+      args.push('--tags');
+    }
+    // Keep pushing to the tracked branch when it has a different name
+    const target = upstream && upstream.remote === remote && !options.setUpstream ? upstream.branch : branch;
+    args.push(remote, `${branch}:${target}`);
+
+    let output: string;
+    try {
+      output = await this.createProgressGit(remote, onProgress).raw(args);
+      result.success = true;
+    } catch (error) {
+      console.error('Push failed:', error);
+      // The porcelain ref lines are part of the error output as well
+      output = error instanceof Error ? error.message : String(error);
+      result.errorMessage = output;
+    }
+
+    const refs = parsePushPorcelain(output);
+    return {
+      ...result,
+      updatedRefs: refs.filter(ref => ref.status !== 'rejected'),
+      rejectedRefs: refs.filter(ref => ref.status === 'rejected'),
+      tracking: await this.getTrackingState(branch)
+    };
+  }
+
+  /**
+   * Push the given tags to a remote, or all tags when no names are given
+   */
+  async pushTags(remote: string, names?: string[], onProgress?: (progress: GitProgress) => void): Promise<TagPushResult> {
+    const invalid = await this.findInvalidTagName(names || []);
+    if (invalid) {
+      return { success: false, updatedRefs: [], rejectedRefs: [], errorMessage: `Invalid tag name: ${invalid}` };
+    }
+    const refs = names && names.length > 0 ? names.map(name => `refs/tags/${name}`) : ['--tags'];
+    return this.pushTagRefs(remote, refs, onProgress);
+  }
+
+  /**
+   * Delete a tag from a remote, the local tag is kept
+   */
+  async deleteRemoteTag(remote: string, name: string, onProgress?: (progress: GitProgress) => void): Promise<TagPushResult> {
+    if (await this.findInvalidTagName([name])) {
+      return { success: false, updatedRefs: [], rejectedRefs: [], errorMessage: `Invalid tag name: ${name}` };
+    }
+    return this.pushTagRefs(remote, ['--delete', `refs/tags/${name}`], onProgress);
+  }
+
+  /**
+   * Find a name git would not accept as a tag, or would read as an option.
+   * Names end up in refspecs, where one like "a:b" would push another ref.
+   */
+  private async findInvalidTagName(names: string[]): Promise<string | undefined> {
+    if (!this.git) {
+      return undefined;
+    }
+
+    for (const name of names) {
+      // Exits non-zero without output when the name is invalid
+      const normalized = await this.git.raw(['check-ref-format', '--normalize', `refs/tags/${name}`]).catch(() => '');
+      if (name.startsWith('-') || normalized.trim() !== `refs/tags/${name}`) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  private async pushTagRefs(remote: string, refArgs: string[], onProgress?: (progress: GitProgress) => void): Promise<TagPushResult> {
+    const result: TagPushResult = { success: false, updatedRefs: [], rejectedRefs: [] };
+    if (!this.git) {
+      return result;
+    }
+
+    let output: string;
+    try {
+      output = await this.createProgressGit(remote, onProgress).raw(['push', '--porcelain', remote, ...refArgs]);
+      result.success = true;
+    } catch (error) {
+      console.error('Tag push failed:', error);
+      // The porcelain ref lines are part of the error output as well
+      output = error instanceof Error ? error.message : String(error);
+      result.errorMessage = output;
+    }
+
+    const refs = parsePushPorcelain(output);
+    return {
+      ...result,
+      updatedRefs: refs.filter(ref => ref.status !== 'rejected'),
+      rejectedRefs: refs.filter(ref => ref.status === 'rejected')
+    };
+  }
+
+  /**
+   * Pull into the current branch by merging, rebasing or fast-forwarding only
+   */
+  async pull(options: PullOptions = {}, onProgress?: (progress: GitProgress) => void): Promise<PullResult> {
+    const idle: TrackingState = { ahead: 0, behind: 0 };
+    if (!this.git) {
+      return { success: false, conflicts: [], tracking: idle };
+    }
+
+    const branch = await this.getCurrentBranch();
+    const upstream = await this.getUpstream(branch);
+    const remote = options.remote || upstream?.remote;
+    if (!remote) {
+      return {
+        success: false,
+        conflicts: [],
+        noUpstream: true,
+        tracking: idle,
+        errorMessage: `${branch} has no upstream branch. Choose a remote and branch to pull from.`
+      };
+    }
+
+    const args = ['pull'];
+    if (options.mode === 'rebase') {
+      args.push('--rebase');
+    } else if (options.mode === 'merge') {
+      args.push('--no-rebase');
+    } else if (options.mode === 'ff-only') {
+      args.push('--ff-only');
+    }
+    if (options.autostash) {
+      args.push('--autostash');
+    }
+    const remoteBranch = options.branch || (upstream?.remote === remote ? upstream.branch : branch);
+    args.push(remote, remoteBranch);
+
+    try {
+      await this.createProgressGit(remote, onProgress).raw(args);
+      return { success: true, conflicts: [], tracking: await this.getTrackingState(branch) };
+    } catch (error) {
+      console.error('Pull failed:', error);
+      const result = await this.failedOperationResult(error, `Pulling ${remote}/${remoteBranch} stopped with conflicts`);
+      return { ...result, tracking: await this.getTrackingState(branch) };
+    }
+  }
+
+  /**
+   * Get uncommitted changes as per-file patches. Large patches are
+   * truncated like commit patches, getWorkingFileDiff loads one of them in full.
+   */
+  async getDiff(options: WorkingDiffOptions = { source: 'unstaged' }): Promise<CommitDiff> {
+    const empty: CommitDiff = { files: [], totalAdditions: 0, totalDeletions: 0 };
+    if (!this.git) {
+      return empty;
+    }
+
+    try {
+      const output = await this.git.raw(this.getWorkingDiffArgs(options, options.paths || []));
+      return this.truncatePatches(parseDiff(output));
+    } catch (error) {
+      console.error('Failed to get diff:', error);
+      return empty;
+    }
+  }
+
+  /**
+   * Get the complete uncommitted patch of one file
+   */
+  async getWorkingFileDiff(filePath: string, options: WorkingDiffOptions): Promise<DiffFile | null> {
+    if (!this.git) {
+      return null;
+    }
+
+    try {
+      const output = await this.git.raw(this.getWorkingDiffArgs(options, [filePath]));
+      return parseDiff(output).files.find(file => file.filename === filePath) || null;
+    } catch (error) {
+      console.error('Failed to get file diff:', error);
+      return null;
     }
+  }
+
+  private getWorkingDiffArgs(options: WorkingDiffOptions, paths: string[]): string[] {
+    const whitespace: Record<WhitespaceMode, string[]> = {
+      none: [],
+      eol: ['--ignore-space-at-eol'],
+      change: ['--ignore-space-change'],
+      all: ['--ignore-all-space']
+    };
+    const args = ['diff', '--patch', ...PATCH_FORMAT, ...whitespace[options.whitespace || 'none']];
+    if (options.contextLines !== undefined) {
+      args.push(`--unified=${Math.max(0, Math.floor(options.contextLines))}`);
+    }
+
+    switch (options.source) {
+      case 'staged':
+        args.push('--cached');
+        break;
+      case 'head':
+        args.push('HEAD');
+        break;
+      case 'commit':
+        if (!options.commit || options.commit.startsWith('-')) {
+          throw new Error(`Invalid revision: ${options.commit}`);
+        }
+        args.push(options.commit);
+        break;
+    }
+    return [...args, '--', ...paths];
+  }
 
    /**
     * Close the current repository
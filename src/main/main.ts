@@ -2,6 +2,8 @@ import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { GitService } from './gitService';
+import { RepositoryWatcher } from './repositoryWatcher';
+import { ConflictSide, HunkResolution, CheckoutOptions, StashOptions, FetchOptions, PushOptions, PullOptions, CommitOptions, FixupKind, RebaseTodoItem, RevertOptions, ResetMode, CreateTagOptions, CompareMode, WorkingDiffOptions } from './types';
 
 interface Config {
   scanPaths: string[];
@@ -14,6 +16,19 @@ if (require('electron-squirrel-startup')) {
 
 const isDev = process.env.NODE_ENV === 'development';
 const gitService = new GitService();
+// Changes made outside the app are pushed to every window
+const repositoryWatcher = new RepositoryWatcher((change) => {
+  BrowserWindow.getAllWindows().forEach(window => window.webContents.send('repository:changed', change));
+});
+
+const watchCurrentRepository = async (): Promise<void> => {
+  const target = await gitService.getWatchTarget();
+  if (target) {
+    await repositoryWatcher.watch(target, (paths) => gitService.getIgnoredPaths(paths));
+  } else {
+    repositoryWatcher.close();
+  }
+};
 
 const configPath = path.join(app.getPath('userData'), 'config.json');
 
@@ -80,6 +95,7 @@ app.on('ready', () => {
 
 // Quit when all windows are closed, except on macOS.
 app.on('window-all-closed', () => {
+  repositoryWatcher.close();
   if (process.platform !== 'darwin') {
     app.quit();
   }
@@ -99,27 +115,95 @@ ipcMain.handle('git:getStatus', async () => {
 });
 
 ipcMain.handle('git:initRepository', async (_, repoPath: string) => {
-  return await gitService.initRepository(repoPath);
+  const initialized = await gitService.initRepository(repoPath);
+  if (initialized) {
+    watchCurrentRepository().catch(error => console.error('Failed to watch repository:', error));
+  }
+  return initialized;
 });
 
 ipcMain.handle('git:addFiles', async (_, files: string[]) => {
   return await gitService.addFiles(files);
 });
 
-ipcMain.handle('git:commit', async (_, message: string) => {
-  return await gitService.commit(message);
+ipcMain.handle('git:unstageFiles', async (_, files: string[]) => {
+  return await gitService.unstageFiles(files);
+});
+
+ipcMain.handle('git:discardChanges', async (_, files: string[]) => {
+  return await gitService.discardChanges(files);
+});
+
+ipcMain.handle('git:cleanUntracked', async (_, files: string[]) => {
+  return await gitService.cleanUntracked(files);
+});
+
+ipcMain.handle('git:getFileDiff', async (_, filePath: string, staged: boolean) => {
+  return await gitService.getFileDiff(filePath, staged);
+});
+
+ipcMain.handle('git:stageHunk', async (_, filePath: string, hunkIndex: number, lineIndices?: number[]) => {
+  return await gitService.stageHunk(filePath, hunkIndex, lineIndices);
+});
+
+ipcMain.handle('git:unstageHunk', async (_, filePath: string, hunkIndex: number, lineIndices?: number[]) => {
+  return await gitService.unstageHunk(filePath, hunkIndex, lineIndices);
+});
+
+ipcMain.handle('git:commit', async (_, message: string, options?: CommitOptions) => {
+  return await gitService.commit(message, options);
+});
+
+ipcMain.handle('git:createFixupCommit', async (_, targetHash: string, kind: FixupKind, options?: CommitOptions) => {
+  return await gitService.createFixupCommit(targetHash, kind, options);
 });
 
 ipcMain.handle('git:getBranches', async () => {
   return await gitService.getBranches();
 });
 
-ipcMain.handle('git:createBranch', async (_, name: string) => {
-  return await gitService.createBranch(name);
+ipcMain.handle('git:createBranch', async (_, name: string, startPoint?: string, checkout?: boolean) => {
+  return await gitService.createBranch(name, startPoint, checkout);
+});
+
+ipcMain.handle('git:getTags', async () => {
+  return await gitService.getTags();
+});
+
+ipcMain.handle('git:createTag', async (_, name: string, target?: string, options?: CreateTagOptions) => {
+  return await gitService.createTag(name, target, options);
 });
 
-ipcMain.handle('git:checkoutBranch', async (_, name: string) => {
-  return await gitService.checkoutBranch(name);
+ipcMain.handle('git:deleteTag', async (_, name: string) => {
+  return await gitService.deleteTag(name);
+});
+
+ipcMain.handle('git:deleteBranch', async (_, name: string, force?: boolean) => {
+  return await gitService.deleteBranch(name, force);
+});
+
+ipcMain.handle('git:renameBranch', async (_, oldName: string, newName: string) => {
+  return await gitService.renameBranch(oldName, newName);
+});
+
+ipcMain.handle('git:setUpstream', async (_, branch: string, upstream: string) => {
+  return await gitService.setUpstream(branch, upstream);
+});
+
+ipcMain.handle('git:unsetUpstream', async (_, branch: string) => {
+  return await gitService.unsetUpstream(branch);
+});
+
+ipcMain.handle('git:checkoutBranch', async (_, name: string, options?: CheckoutOptions) => {
+  return await gitService.checkoutBranch(name, options);
+});
+
+ipcMain.handle('git:checkoutCommit', async (_, hash: string, options?: CheckoutOptions) => {
+  return await gitService.checkoutCommit(hash, options);
+});
+
+ipcMain.handle('git:checkoutRemoteBranch', async (_, remoteBranch: string, localName?: string) => {
+  return await gitService.checkoutRemoteBranch(remoteBranch, localName);
 });
 
 ipcMain.handle('git:mergeBranch', async (_, sourceBranch: string) => {
@@ -130,24 +214,198 @@ ipcMain.handle('git:rebaseBranch', async (_, targetBranch: string) => {
   return await gitService.rebaseBranch(targetBranch);
 });
 
+ipcMain.handle('git:getRebaseTodo', async (_, base: string) => {
+  return await gitService.getRebaseTodo(base);
+});
+
+ipcMain.handle('git:startInteractiveRebase', async (_, base: string, todo: RebaseTodoItem[]) => {
+  return await gitService.startInteractiveRebase(base, todo);
+});
+
 ipcMain.handle('git:getCommits', async (_, options) => {
   return await gitService.getCommits(options);
 });
 
+ipcMain.handle('git:getCommitDiff', async (_, hash: string) => {
+  return await gitService.getCommitDiff(hash);
+});
+
+ipcMain.handle('git:getCommitFileDiff', async (_, hash: string, filePath: string) => {
+  return await gitService.getCommitFileDiff(hash, filePath);
+});
+
+ipcMain.handle('git:getCommitDetails', async (_, hash: string) => {
+  return await gitService.getCommitDetails(hash);
+});
+
+ipcMain.handle('git:compareRefs', async (_, base: string, head: string, mode?: CompareMode) => {
+  return await gitService.compareRefs(base, head, mode);
+});
+
+ipcMain.handle('git:getCompareFileDiff', async (_, base: string, head: string, mode: CompareMode, filePath: string) => {
+  return await gitService.getCompareFileDiff(base, head, mode, filePath);
+});
+
+ipcMain.handle('git:getFileHistory', async (_, filePath: string, limit?: number) => {
+  return await gitService.getFileHistory(filePath, limit);
+});
+
+ipcMain.handle('git:getBlame', async (_, filePath: string, rev?: string) => {
+  return await gitService.getBlame(filePath, rev);
+});
+
+ipcMain.handle('git:getTree', async (_, rev?: string, dirPath?: string) => {
+  return await gitService.getTree(rev, dirPath);
+});
+
+ipcMain.handle('git:getFileContent', async (_, filePath: string, rev?: string) => {
+  return await gitService.getFileContent(filePath, rev);
+});
+
+ipcMain.handle('git:saveFileAtRevision', async (_, filePath: string, rev?: string) => {
+  const result = await dialog.showSaveDialog({
+    defaultPath: path.basename(filePath)
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false };
+  }
+
+  const success = await gitService.saveFileAtRevision(filePath, rev, result.filePath);
+  return success
+    ? { success, path: result.filePath }
+    : { success, errorMessage: `Failed to save ${filePath}` };
+});
+
+ipcMain.handle('git:getReflog', async (_, ref?: string, limit?: number) => {
+  return await gitService.getReflog(ref, limit);
+});
+
 ipcMain.handle('git:cherryPickCommits', async (_, commitHashes: string[], targetBranch: string, options) => {
   return await gitService.cherryPickCommits(commitHashes, targetBranch, options);
 });
 
-ipcMain.handle('git:push', async () => {
-  return await gitService.push();
+ipcMain.handle('git:revertCommits', async (_, commitHashes: string[], options?: RevertOptions) => {
+  return await gitService.revertCommits(commitHashes, options);
+});
+
+ipcMain.handle('git:getResetPreview', async (_, hash: string) => {
+  return await gitService.getResetPreview(hash);
+});
+
+ipcMain.handle('git:resetToCommit', async (_, hash: string, mode: ResetMode) => {
+  return await gitService.resetToCommit(hash, mode);
+});
+
+// Conflict resolution handlers
+ipcMain.handle('git:getOperationState', async () => {
+  return await gitService.getOperationState();
+});
+
+ipcMain.handle('git:getConflictFile', async (_, filePath: string) => {
+  return await gitService.getConflictFile(filePath);
+});
+
+ipcMain.handle('git:resolveConflict', async (_, filePath: string, side: ConflictSide) => {
+  return await gitService.resolveConflict(filePath, side);
 });
 
-ipcMain.handle('git:pull', async () => {
-  return await gitService.pull();
+ipcMain.handle('git:resolveConflictHunks', async (_, filePath: string, resolutions: HunkResolution[]) => {
+  return await gitService.resolveConflictHunks(filePath, resolutions);
 });
 
-ipcMain.handle('git:getDiff', async (_, staged: boolean) => {
-  return await gitService.getDiff(staged);
+ipcMain.handle('git:markResolved', async (_, files: string[]) => {
+  return await gitService.markResolved(files);
+});
+
+ipcMain.handle('git:continueOperation', async (_, message?: string) => {
+  return await gitService.continueOperation(message);
+});
+
+ipcMain.handle('git:skipOperation', async () => {
+  return await gitService.skipOperation();
+});
+
+ipcMain.handle('git:abortOperation', async () => {
+  return await gitService.abortOperation();
+});
+
+// Stash handlers
+ipcMain.handle('git:getStashes', async () => {
+  return await gitService.getStashes();
+});
+
+ipcMain.handle('git:getStashDiff', async (_, index: number) => {
+  return await gitService.getStashDiff(index);
+});
+
+ipcMain.handle('git:createStash', async (_, options?: StashOptions) => {
+  return await gitService.createStash(options);
+});
+
+ipcMain.handle('git:applyStash', async (_, index: number) => {
+  return await gitService.applyStash(index);
+});
+
+ipcMain.handle('git:popStash', async (_, index: number) => {
+  return await gitService.popStash(index);
+});
+
+ipcMain.handle('git:dropStash', async (_, index: number) => {
+  return await gitService.dropStash(index);
+});
+
+ipcMain.handle('git:createBranchFromStash', async (_, index: number, branchName: string) => {
+  return await gitService.createBranchFromStash(index, branchName);
+});
+
+// Remote handlers
+ipcMain.handle('git:getRemotes', async () => {
+  return await gitService.getRemotes();
+});
+
+ipcMain.handle('git:addRemote', async (_, name: string, url: string) => {
+  return await gitService.addRemote(name, url);
+});
+
+ipcMain.handle('git:removeRemote', async (_, name: string) => {
+  return await gitService.removeRemote(name);
+});
+
+ipcMain.handle('git:renameRemote', async (_, oldName: string, newName: string) => {
+  return await gitService.renameRemote(oldName, newName);
+});
+
+ipcMain.handle('git:setRemoteUrl', async (_, name: string, url: string, push?: boolean) => {
+  return await gitService.setRemoteUrl(name, url, push);
+});
+
+// Progress is streamed to the window that started the fetch, push or pull
+ipcMain.handle('git:fetch', async (event, options?: FetchOptions) => {
+  return await gitService.fetch(options, (progress) => event.sender.send('git:progress', progress));
+});
+
+ipcMain.handle('git:push', async (event, options?: PushOptions) => {
+  return await gitService.push(options, (progress) => event.sender.send('git:progress', progress));
+});
+
+ipcMain.handle('git:pushTags', async (event, remote: string, names?: string[]) => {
+  return await gitService.pushTags(remote, names, (progress) => event.sender.send('git:progress', progress));
+});
+
+ipcMain.handle('git:deleteRemoteTag', async (event, remote: string, name: string) => {
+  return await gitService.deleteRemoteTag(remote, name, (progress) => event.sender.send('git:progress', progress));
+});
+
+ipcMain.handle('git:pull', async (event, options?: PullOptions) => {
+  return await gitService.pull(options, (progress) => event.sender.send('git:progress', progress));
+});
+
+ipcMain.handle('git:getDiff', async (_, options?: WorkingDiffOptions) => {
+  return await gitService.getDiff(options);
+});
+
+ipcMain.handle('git:getWorkingFileDiff', async (_, filePath: string, options: WorkingDiffOptions) => {
+  return await gitService.getWorkingFileDiff(filePath, options);
 });
 
 // Repository management handlers
@@ -157,7 +415,11 @@ ipcMain.handle('repositories:discover', async () => {
 });
 
 ipcMain.handle('repositories:open', async (_, repoPath: string) => {
-  return await gitService.openRepository(repoPath);
+  const opened = await gitService.openRepository(repoPath);
+  if (opened) {
+    watchCurrentRepository().catch(error => console.error('Failed to watch repository:', error));
+  }
+  return opened;
 });
 
 ipcMain.handle('repositories:getCurrent', async () => {
@@ -0,0 +1,40 @@
+import { CommitDiff, DiffFile } from './types';
+
+/**
+ * Parse `--numstat -z` output into per-file line counts without patches.
+ * Renames are written as "added\tdeleted\t\0old\0new\0"; binary files
+ * report "-" and count as zero lines.
+ */
+export const parseNumstat = (output: string): CommitDiff => {
+  const tokens = output.split('\0');
+  const files: DiffFile[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const match = tokens[i].replace(/^\n/, '').match(/^(-|\d+)\t(-|\d+)\t([\s\S]*)$/);
+    if (!match) continue;
+
+    const file: DiffFile = {
+      filename: match[3],
+      changeType: 'modified', // Only renames can be told apart without the patch
+      binary: match[1] === '-',
+      additions: match[1] === '-' ? 0 : Number(match[1]),
+      deletions: match[2] === '-' ? 0 : Number(match[2]),
+      hunks: [],
+      patch: ''
+    };
+    if (!file.filename) {
+      file.changeType = 'renamed';
+      file.oldFilename = tokens[i + 1];
+      file.filename = tokens[i + 2] || '';
+      i += 2;
+    }
+
+    files.push(file);
+  }
+
+  return {
+    files,
+    totalAdditions: files.reduce((sum, file) => sum + file.additions, 0),
+    totalDeletions: files.reduce((sum, file) => sum + file.deletions, 0)
+  };
+};
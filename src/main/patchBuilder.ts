@@ -0,0 +1,130 @@
+interface PatchHunk {
+  oldStart: number;
+  newStart: number;
+  section: string; // Text after the closing @@ (function context)
+  lines: string[];
+}
+
+interface FilePatch {
+  header: string[];
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/;
+
+/**
+ * Split the diff of a single file into its header and hunks
+ */
+const splitFilePatch = (diff: string): FilePatch => {
+  const patch: FilePatch = { header: [], hunks: [] };
+  let current: PatchHunk | null = null;
+
+  for (const line of diff.split('\n')) {
+    const match = line.match(HUNK_HEADER);
+    if (match) {
+      current = { oldStart: parseInt(match[1], 10), newStart: parseInt(match[2], 10), section: match[3], lines: [] };
+      patch.hunks.push(current);
+    } else if (current) {
+      if (line.startsWith('diff --git')) {
+        break; // Only the first file is used
+      }
+      // Every body line has a marker, the only empty line is the trailing newline
+      if (line !== '') {
+        current.lines.push(line);
+      }
+    } else {
+      patch.header.push(line);
+    }
+  }
+
+  return patch;
+};
+
+/**
+ * Build a patch containing only part of one hunk of a file diff.
+ *
+ * `lineIndices` are positions within the hunk body, counting context, added
+ * and removed lines but not "\ No newline at end of file" markers. When
+ * omitted the whole hunk is used.
+ *
+ * For a forward patch (staging) unselected additions are dropped and
+ * unselected removals become context. For a patch that will be applied in
+ * reverse (unstaging) unselected additions become context and unselected
+ * removals are dropped, so the index keeps whatever was not selected.
+ */
+export const buildPartialPatch = (
+  diff: string,
+  hunkIndex: number,
+  lineIndices: number[] | undefined,
+  reverse: boolean
+): string | null => {
+  const { header, hunks } = splitFilePatch(diff);
+  const hunk = hunks[hunkIndex];
+  if (!hunk || header.length === 0) {
+    return null;
+  }
+
+  const selected = lineIndices ? new Set(lineIndices) : null;
+  const body: string[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let changes = 0;
+  let lineIndex = 0;
+  let previousKept = false;
+
+  for (const line of hunk.lines) {
+    if (line.startsWith('\\')) {
+      if (previousKept) {
+        body.push(line);
+      }
+      continue;
+    }
+
+    const isSelected = !selected || selected.has(lineIndex);
+    lineIndex++;
+    const marker = line.charAt(0);
+    const content = line.substring(1);
+
+    if (marker === '+') {
+      if (isSelected) {
+        body.push(line);
+        newCount++;
+        changes++;
+        previousKept = true;
+      } else if (reverse) {
+        body.push(' ' + content);
+        oldCount++;
+        newCount++;
+        previousKept = true;
+      } else {
+        previousKept = false;
+      }
+    } else if (marker === '-') {
+      if (isSelected) {
+        body.push(line);
+        oldCount++;
+        changes++;
+        previousKept = true;
+      } else if (!reverse) {
+        body.push(' ' + content);
+        oldCount++;
+        newCount++;
+        previousKept = true;
+      } else {
+        previousKept = false;
+      }
+    } else {
+      body.push(line);
+      oldCount++;
+      newCount++;
+      previousKept = true;
+    }
+  }
+
+  if (changes === 0) {
+    return null;
+  }
+
+  const hunkHeader = `@@ -${hunk.oldStart},${oldCount} +${hunk.newStart},${newCount} @@${hunk.section}`;
+  return [...header, hunkHeader, ...body, ''].join('\n');
+};
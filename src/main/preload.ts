@@ -1,5 +1,5 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import { GetCommitsOptions, CherryPickOptions } from './types';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import { GetCommitsOptions, CherryPickOptions, ConflictSide, HunkResolution, CheckoutOptions, StashOptions, FetchOptions, GitProgress, PushOptions, PullOptions, CommitOptions, FixupKind, RebaseTodoItem, RevertOptions, ResetMode, CreateTagOptions, CompareMode, WorkingDiffOptions, RepositoryChange } from './types';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -9,17 +9,81 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getStatus: () => ipcRenderer.invoke('git:getStatus'),
     initRepository: (path: string) => ipcRenderer.invoke('git:initRepository', path),
     addFiles: (files: string[]) => ipcRenderer.invoke('git:addFiles', files),
-    commit: (message: string) => ipcRenderer.invoke('git:commit', message),
+    unstageFiles: (files: string[]) => ipcRenderer.invoke('git:unstageFiles', files),
+    discardChanges: (files: string[]) => ipcRenderer.invoke('git:discardChanges', files),
+    cleanUntracked: (files: string[]) => ipcRenderer.invoke('git:cleanUntracked', files),
+    getFileDiff: (filePath: string, staged?: boolean) => ipcRenderer.invoke('git:getFileDiff', filePath, staged),
+    stageHunk: (filePath: string, hunkIndex: number, lineIndices?: number[]) => ipcRenderer.invoke('git:stageHunk', filePath, hunkIndex, lineIndices),
+    unstageHunk: (filePath: string, hunkIndex: number, lineIndices?: number[]) => ipcRenderer.invoke('git:unstageHunk', filePath, hunkIndex, lineIndices),
+    commit: (message: string, options?: CommitOptions) => ipcRenderer.invoke('git:commit', message, options),
+    createFixupCommit: (targetHash: string, kind: FixupKind, options?: CommitOptions) => ipcRenderer.invoke('git:createFixupCommit', targetHash, kind, options),
     getBranches: () => ipcRenderer.invoke('git:getBranches'),
-    createBranch: (name: string) => ipcRenderer.invoke('git:createBranch', name),
-      checkoutBranch: (name: string) => ipcRenderer.invoke('git:checkoutBranch', name),
+    createBranch: (name: string, startPoint?: string, checkout?: boolean) => ipcRenderer.invoke('git:createBranch', name, startPoint, checkout),
+    getTags: () => ipcRenderer.invoke('git:getTags'),
+    createTag: (name: string, target?: string, options?: CreateTagOptions) => ipcRenderer.invoke('git:createTag', name, target, options),
+    deleteTag: (name: string) => ipcRenderer.invoke('git:deleteTag', name),
+    deleteBranch: (name: string, force?: boolean) => ipcRenderer.invoke('git:deleteBranch', name, force),
+    renameBranch: (oldName: string, newName: string) => ipcRenderer.invoke('git:renameBranch', oldName, newName),
+    setUpstream: (branch: string, upstream: string) => ipcRenderer.invoke('git:setUpstream', branch, upstream),
+    unsetUpstream: (branch: string) => ipcRenderer.invoke('git:unsetUpstream', branch),
+      checkoutBranch: (name: string, options?: CheckoutOptions) => ipcRenderer.invoke('git:checkoutBranch', name, options),
+      checkoutCommit: (hash: string, options?: CheckoutOptions) => ipcRenderer.invoke('git:checkoutCommit', hash, options),
+      checkoutRemoteBranch: (remoteBranch: string, localName?: string) => ipcRenderer.invoke('git:checkoutRemoteBranch', remoteBranch, localName),
       mergeBranch: (sourceBranch: string) => ipcRenderer.invoke('git:mergeBranch', sourceBranch),
       rebaseBranch: (targetBranch: string) => ipcRenderer.invoke('git:rebaseBranch', targetBranch),
+      getRebaseTodo: (base: string) => ipcRenderer.invoke('git:getRebaseTodo', base),
+      startInteractiveRebase: (base: string, todo: RebaseTodoItem[]) => ipcRenderer.invoke('git:startInteractiveRebase', base, todo),
        getCommits: (options?: GetCommitsOptions) => ipcRenderer.invoke('git:getCommits', options),
+       getCommitDiff: (hash: string) => ipcRenderer.invoke('git:getCommitDiff', hash),
+       getCommitFileDiff: (hash: string, filePath: string) => ipcRenderer.invoke('git:getCommitFileDiff', hash, filePath),
+       getCommitDetails: (hash: string) => ipcRenderer.invoke('git:getCommitDetails', hash),
+       compareRefs: (base: string, head: string, mode?: CompareMode) => ipcRenderer.invoke('git:compareRefs', base, head, mode),
+       getCompareFileDiff: (base: string, head: string, mode: CompareMode, filePath: string) => ipcRenderer.invoke('git:getCompareFileDiff', base, head, mode, filePath),
+       getFileHistory: (filePath: string, limit?: number) => ipcRenderer.invoke('git:getFileHistory', filePath, limit),
+       getBlame: (filePath: string, rev?: string) => ipcRenderer.invoke('git:getBlame', filePath, rev),
+       getTree: (rev?: string, dirPath?: string) => ipcRenderer.invoke('git:getTree', rev, dirPath),
+       getFileContent: (filePath: string, rev?: string) => ipcRenderer.invoke('git:getFileContent', filePath, rev),
+       saveFileAtRevision: (filePath: string, rev?: string) => ipcRenderer.invoke('git:saveFileAtRevision', filePath, rev),
+       getReflog: (ref?: string, limit?: number) => ipcRenderer.invoke('git:getReflog', ref, limit),
        cherryPickCommits: (commitHashes: string[], targetBranch: string, options?: CherryPickOptions) => ipcRenderer.invoke('git:cherryPickCommits', commitHashes, targetBranch, options),
-       push: () => ipcRenderer.invoke('git:push'),
-       pull: () => ipcRenderer.invoke('git:pull'),
-       getDiff: (staged?: boolean) => ipcRenderer.invoke('git:getDiff', staged),
+       revertCommits: (commitHashes: string[], options?: RevertOptions) => ipcRenderer.invoke('git:revertCommits', commitHashes, options),
+       getResetPreview: (hash: string) => ipcRenderer.invoke('git:getResetPreview', hash),
+       resetToCommit: (hash: string, mode: ResetMode) => ipcRenderer.invoke('git:resetToCommit', hash, mode),
+       getOperationState: () => ipcRenderer.invoke('git:getOperationState'),
+       getConflictFile: (filePath: string) => ipcRenderer.invoke('git:getConflictFile', filePath),
+       resolveConflict: (filePath: string, side: ConflictSide) => ipcRenderer.invoke('git:resolveConflict', filePath, side),
+       resolveConflictHunks: (filePath: string, resolutions: HunkResolution[]) => ipcRenderer.invoke('git:resolveConflictHunks', filePath, resolutions),
+       markResolved: (files: string[]) => ipcRenderer.invoke('git:markResolved', files),
+       continueOperation: (message?: string) => ipcRenderer.invoke('git:continueOperation', message),
+       skipOperation: () => ipcRenderer.invoke('git:skipOperation'),
+       abortOperation: () => ipcRenderer.invoke('git:abortOperation'),
+       getStashes: () => ipcRenderer.invoke('git:getStashes'),
+       getStashDiff: (index: number) => ipcRenderer.invoke('git:getStashDiff', index),
+       createStash: (options?: StashOptions) => ipcRenderer.invoke('git:createStash', options),
+       applyStash: (index: number) => ipcRenderer.invoke('git:applyStash', index),
+       popStash: (index: number) => ipcRenderer.invoke('git:popStash', index),
+       dropStash: (index: number) => ipcRenderer.invoke('git:dropStash', index),
+       createBranchFromStash: (index: number, branchName: string) => ipcRenderer.invoke('git:createBranchFromStash', index, branchName),
+       getRemotes: () => ipcRenderer.invoke('git:getRemotes'),
+       addRemote: (name: string, url: string) => ipcRenderer.invoke('git:addRemote', name, url),
+       removeRemote: (name: string) => ipcRenderer.invoke('git:removeRemote', name),
+       renameRemote: (oldName: string, newName: string) => ipcRenderer.invoke('git:renameRemote', oldName, newName),
+       setRemoteUrl: (name: string, url: string, push?: boolean) => ipcRenderer.invoke('git:setRemoteUrl', name, url, push),
+       fetch: (options?: FetchOptions) => ipcRenderer.invoke('git:fetch', options),
+       // Returns a function that removes the listener
+       onProgress: (callback: (progress: GitProgress) => void) => {
+         const listener = (_: IpcRendererEvent, progress: GitProgress) => callback(progress);
+         ipcRenderer.on('git:progress', listener);
+         return () => {
+           ipcRenderer.removeListener('git:progress', listener);
+         };
+       },
+       push: (options?: PushOptions) => ipcRenderer.invoke('git:push', options),
+       pushTags: (remote: string, names?: string[]) => ipcRenderer.invoke('git:pushTags', remote, names),
+       deleteRemoteTag: (remote: string, name: string) => ipcRenderer.invoke('git:deleteRemoteTag', remote, name),
+       pull: (options?: PullOptions) => ipcRenderer.invoke('git:pull', options),
+       getDiff: (options?: WorkingDiffOptions) => ipcRenderer.invoke('git:getDiff', options),
+       getWorkingFileDiff: (filePath: string, options: WorkingDiffOptions) => ipcRenderer.invoke('git:getWorkingFileDiff', filePath, options),
   },
 
   // Repository management
@@ -27,6 +91,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     discover: () => ipcRenderer.invoke('repositories:discover'),
     open: (path: string) => ipcRenderer.invoke('repositories:open', path),
     getCurrent: () => ipcRenderer.invoke('repositories:getCurrent'),
+    // Returns a function that removes the listener
+    onChanged: (callback: (change: RepositoryChange) => void) => {
+      const listener = (_: IpcRendererEvent, change: RepositoryChange) => callback(change);
+      ipcRenderer.on('repository:changed', listener);
+      return () => {
+        ipcRenderer.removeListener('repository:changed', listener);
+      };
+    },
   },
 
   // Dialog operations
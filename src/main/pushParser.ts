@@ -0,0 +1,38 @@
+import { RefUpdate, RefUpdateStatus } from './types';
+
+const STATUS_FLAGS: Record<string, RefUpdateStatus> = {
+  ' ': 'fast-forward',
+  '+': 'forced',
+  '-': 'deleted',
+  '*': 'new',
+  '!': 'rejected',
+  '=': 'up-to-date'
+};
+
+/**
+ * Parse the output of `git push --porcelain`. Each pushed ref is reported
+ * as "<flag>\t<from>:<to>\t<summary> (<reason>)".
+ */
+export const parsePushPorcelain = (output: string): RefUpdate[] => {
+  const updates: RefUpdate[] = [];
+
+  for (const line of output.split('\n')) {
+    const fields = line.split('\t');
+    if (fields.length !== 3 || !(fields[0] in STATUS_FLAGS)) {
+      // "To <url>", "Done" and error or hint lines
+      continue;
+    }
+
+    const [localRef, remoteRef] = fields[1].split(':');
+    const summary = fields[2].match(/^(.*?)(?: \((.*)\))?$/);
+    updates.push({
+      localRef,
+      remoteRef,
+      status: STATUS_FLAGS[fields[0]],
+      summary: summary ? summary[1] : fields[2],
+      reason: summary?.[2]
+    });
+  }
+
+  return updates;
+};
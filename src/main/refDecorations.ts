@@ -0,0 +1,28 @@
+import { CommitRef } from './types';
+
+/**
+ * Parse a `%D` decoration produced with `--decorate=full`, for example
+ * "HEAD -> refs/heads/main, refs/remotes/origin/main, tag: refs/tags/v1.0"
+ */
+export const parseRefDecorations = (decoration: string): CommitRef[] => {
+  const refs: CommitRef[] = [];
+
+  for (const item of decoration.split(', ')) {
+    if (!item) continue;
+
+    if (item === 'HEAD') {
+      refs.push({ name: 'HEAD', type: 'head' });
+    } else if (item.startsWith('HEAD -> refs/heads/')) {
+      refs.push({ name: item.substring('HEAD -> refs/heads/'.length), type: 'branch', isHead: true });
+    } else if (item.startsWith('tag: refs/tags/')) {
+      refs.push({ name: item.substring('tag: refs/tags/'.length), type: 'tag' });
+    } else if (item.startsWith('refs/heads/')) {
+      refs.push({ name: item.substring('refs/heads/'.length), type: 'branch' });
+    } else if (item.startsWith('refs/remotes/') && !item.endsWith('/HEAD')) {
+      // <remote>/HEAD only mirrors the remote's default branch
+      refs.push({ name: item.substring('refs/remotes/'.length), type: 'remote' });
+    }
+  }
+
+  return refs;
+};
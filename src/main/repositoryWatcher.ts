@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepositoryChange } from './types';
+
+// Changes are reported once the repository has been quiet this long, or at the latest after MAX_DELAY
+const DEBOUNCE_DELAY = 300;
+const MAX_DELAY = 2000;
+// Without recursive fs.watch every directory needs a watcher, and inotify watches are limited
+const MAX_WATCHED_DIRECTORIES = 2000;
+// Larger batches, such as a checkout, are not worth checking against the ignore rules
+const MAX_IGNORE_CHECK_PATHS = 500;
+
+// Entries of the git directory that matter, everything else (objects, logs, locks) is noise
+const GIT_DIR_CHANGES: Record<string, RepositoryChange> = {
+  HEAD: 'head-changed',
+  index: 'status-changed',
+  'packed-refs': 'refs-changed',
+  MERGE_HEAD: 'status-changed',
+  CHERRY_PICK_HEAD: 'status-changed',
+  REVERT_HEAD: 'status-changed',
+  'rebase-merge': 'status-changed',
+  'rebase-apply': 'status-changed'
+};
+
+export interface WatchTarget {
+  root: string; // Working tree
+  gitDir: string; // HEAD, index and operation state
+  commonDir: string; // refs and packed-refs, not the same as gitDir in linked worktrees
+}
+
+// Returns the given paths, relative to the working tree, that git ignores
+export type IgnoreCheck = (paths: string[]) => Promise<Set<string>>;
+
+/**
+ * Watch a repository's working tree and git directory for changes made
+ * outside the app. Bursts of file events are collected into one report
+ * per kind of change, and working tree files git ignores are left out.
+ */
+export class RepositoryWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private pending = new Set<RepositoryChange>();
+  private changedPaths = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private firstEventAt = 0;
+  private isIgnored: IgnoreCheck = async () => new Set();
+  // Bumped on every watch() so directory walks of a previous repository stop adding watchers
+  private generation = 0;
+
+  constructor(private readonly onChange: (change: RepositoryChange) => void) {}
+
+  async watch(target: WatchTarget, isIgnored: IgnoreCheck): Promise<void> {
+    this.close();
+    const generation = this.generation;
+    this.isIgnored = isIgnored;
+
+    this.addWatcher(target.gitDir, fs.watch(target.gitDir, (_, filename) => {
+      const change = filename ? GIT_DIR_CHANGES[filename.toString()] : undefined;
+      if (change) this.queue(change);
+    }));
+    if (target.commonDir !== target.gitDir) {
+      this.addWatcher(target.commonDir, fs.watch(target.commonDir, (_, filename) => {
+        if (filename?.toString() === 'packed-refs') this.queue('refs-changed');
+      }));
+    }
+
+    await this.watchTree(generation, path.join(target.commonDir, 'refs'), () => this.queue('refs-changed'), async () => new Set());
+    await this.watchTree(generation, target.root, (file) => {
+      // The git directory has its own watchers
+      if (file === '.git' || file.startsWith('.git/')) return;
+      this.changedPaths.add(file);
+      this.schedule();
+    }, (directories) => this.isIgnored(directories.filter(directory => directory !== '.git')).then(ignored => ignored.add('.git')));
+  }
+
+  close(): void {
+    this.generation++;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.pending.clear();
+    this.changedPaths.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Watch a directory and everything below it, reporting paths relative to
+   * it with forward slashes. Where recursive watching is unsupported each
+   * directory gets a watcher, skipping those skipDirectories returns.
+   */
+  private async watchTree(
+    generation: number,
+    root: string,
+    onEvent: (file: string) => void,
+    skipDirectories: (directories: string[]) => Promise<Set<string>>
+  ): Promise<void> {
+    try {
+      this.addWatcher(root, fs.watch(root, { recursive: true }, (_, filename) => {
+        if (filename) onEvent(filename.toString().split(path.sep).join('/'));
+      }));
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw error;
+      }
+    }
+
+    await this.watchDirectory(generation, root, '', onEvent, skipDirectories);
+  }
+
+  private async watchDirectory(
+    generation: number,
+    root: string,
+    directory: string,
+    onEvent: (file: string) => void,
+    skipDirectories: (directories: string[]) => Promise<Set<string>>
+  ): Promise<void> {
+    const fullPath = path.join(root, directory);
+    if (generation !== this.generation || this.watchers.has(fullPath) || this.watchers.size >= MAX_WATCHED_DIRECTORIES) {
+      return;
+    }
+
+    this.addWatcher(fullPath, fs.watch(fullPath, (eventType, filename) => {
+      if (!filename) return;
+      const file = directory ? `${directory}/${filename}` : filename.toString();
+      onEvent(file);
+
+      // Directories created later need a watcher of their own, removed ones release theirs
+      if (eventType === 'rename') {
+        this.updateDirectory(generation, root, file, onEvent, skipDirectories)
+          .catch(error => console.error('Failed to watch new directory:', error));
+      }
+    }));
+
+    const entries = await fs.promises.readdir(fullPath, { withFileTypes: true }).catch(() => []);
+    const subdirectories = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => (directory ? `${directory}/${entry.name}` : entry.name));
+    const skipped = subdirectories.length > 0 ? await skipDirectories(subdirectories) : new Set<string>();
+    for (const subdirectory of subdirectories) {
+      if (!skipped.has(subdirectory)) {
+        await this.watchDirectory(generation, root, subdirectory, onEvent, skipDirectories);
+      }
+    }
+  }
+
+  private async updateDirectory(
+    generation: number,
+    root: string,
+    file: string,
+    onEvent: (file: string) => void,
+    skipDirectories: (directories: string[]) => Promise<Set<string>>
+  ): Promise<void> {
+    const stats = await fs.promises.stat(path.join(root, file)).catch(() => null);
+    if (!stats) {
+      this.removeWatchers(path.join(root, file));
+    } else if (stats.isDirectory() && !(await skipDirectories([file])).has(file)) {
+      await this.watchDirectory(generation, root, file, onEvent, skipDirectories);
+    }
+  }
+
+  private addWatcher(key: string, watcher: fs.FSWatcher): void {
+    // Watched directories that are deleted error on some platforms
+    watcher.on('error', () => this.removeWatchers(key));
+    this.watchers.set(key, watcher);
+  }
+
+  private removeWatchers(directory: string): void {
+    this.watchers.forEach((watcher, key) => {
+      if (key === directory || key.startsWith(directory + path.sep)) {
+        watcher.close();
+        this.watchers.delete(key);
+      }
+    });
+  }
+
+  private queue(change: RepositoryChange): void {
+    this.pending.add(change);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    const now = Date.now();
+    if (!this.timer) {
+      this.firstEventAt = now;
+    } else {
+      clearTimeout(this.timer);
+    }
+    const delay = Math.min(DEBOUNCE_DELAY, Math.max(0, this.firstEventAt + MAX_DELAY - now));
+    this.timer = setTimeout(() => {
+      this.flush().catch(error => console.error('Failed to report repository changes:', error));
+    }, delay);
+  }
+
+  private async flush(): Promise<void> {
+    this.timer = null;
+    const generation = this.generation;
+    const changes = new Set(this.pending);
+    const paths = Array.from(this.changedPaths);
+    this.pending.clear();
+    this.changedPaths.clear();
+
+    if (paths.length > 0 && !changes.has('status-changed')) {
+      const ignored = paths.length <= MAX_IGNORE_CHECK_PATHS ? await this.isIgnored(paths) : new Set<string>();
+      if (paths.some(file => !ignored.has(file))) {
+        changes.add('status-changed');
+      }
+    }
+
+    if (generation === this.generation) {
+      changes.forEach(change => this.onChange(change));
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { FileState, FileStatusEntry, SubmoduleStatus } from './types';
+
+const STATE_CODES: Record<string, FileState> = {
+  '.': 'unmodified',
+  M: 'modified',
+  T: 'type-changed',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  U: 'unmerged'
+};
+
+const toState = (code: string): FileState => STATE_CODES[code] || 'unmodified';
+
+// Submodule field is "N..." for regular files or "S<c><m><u>" for submodules
+const parseSubmodule = (field: string): SubmoduleStatus | undefined => {
+  if (!field.startsWith('S')) {
+    return undefined;
+  }
+  return {
+    commitChanged: field[1] === 'C',
+    modified: field[2] === 'M',
+    untracked: field[3] === 'U'
+  };
+};
+
+/**
+ * Parse the output of `git status --porcelain=v2 -z`
+ */
+export const parsePorcelainStatus = (output: string): FileStatusEntry[] => {
+  const entries: FileStatusEntry[] = [];
+  const records = output.split('\0');
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    switch (record[0]) {
+      case '1': {
+        // 1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+        const fields = record.split(' ');
+        const xy = fields[1];
+        entries.push({
+          path: fields.slice(8).join(' '),
+          indexState: toState(xy[0]),
+          worktreeState: toState(xy[1]),
+          conflicted: false,
+          submodule: parseSubmodule(fields[2])
+        });
+        break;
+      }
+      case '2': {
+        // 2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>, followed by the original path
+        const fields = record.split(' ');
+        const xy = fields[1];
+        entries.push({
+          path: fields.slice(9).join(' '),
+          originalPath: records[++i],
+          indexState: toState(xy[0]),
+          worktreeState: toState(xy[1]),
+          conflicted: false,
+          submodule: parseSubmodule(fields[2])
+        });
+        break;
+      }
+      case 'u': {
+        // u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+        const fields = record.split(' ');
+        const xy = fields[1];
+        entries.push({
+          path: fields.slice(10).join(' '),
+          indexState: toState(xy[0]),
+          worktreeState: toState(xy[1]),
+          conflicted: true,
+          submodule: parseSubmodule(fields[2])
+        });
+        break;
+      }
+      case '?':
+      case '!': {
+        const state: FileState = record[0] === '?' ? 'untracked' : 'ignored';
+        entries.push({
+          path: record.substring(2),
+          indexState: state,
+          worktreeState: state,
+          conflicted: false
+        });
+        break;
+      }
+      default:
+        // Header lines ("# branch.oid ...") are not requested
+        break;
+    }
+  }
+
+  return entries;
+};
@@ -1,8 +1,33 @@
 // Git status types
+export type FileState =
+  | 'unmodified'
+  | 'modified'
+  | 'type-changed'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'unmerged'
+  | 'untracked'
+  | 'ignored';
+
+export interface SubmoduleStatus {
+  commitChanged: boolean; // Checked out commit differs from the recorded one
+  modified: boolean; // Has tracked changes
+  untracked: boolean; // Has untracked files
+}
+
+export interface FileStatusEntry {
+  path: string;
+  originalPath?: string; // Source path of a rename or copy
+  indexState: FileState; // Index compared to HEAD
+  worktreeState: FileState; // Working tree compared to the index
+  conflicted: boolean;
+  submodule?: SubmoduleStatus;
+}
+
 export interface GitStatus {
-  staged: string[];
-  unstaged: string[];
-  untracked: string[];
+  files: FileStatusEntry[];
 }
 
 // Repository types
@@ -13,20 +38,109 @@ export interface Repository {
   status?: GitStatus;
 }
 
+// Pushed by the repository watcher when files change outside the app
+export type RepositoryChange = 'status-changed' | 'refs-changed' | 'head-changed';
+
 // Commit types
 export interface Commit {
   hash: string;
+  parents: string[];
   message: string;
   author: string;
   date: Date;
-  branch?: string;
+  refs: CommitRef[]; // Branches, tags and HEAD pointing at the commit
+  graph?: CommitGraphRow; // Omitted when the history is filtered
+}
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+  date: Date;
 }
 
+export interface CommitTrailer {
+  key: string; // e.g. Signed-off-by, Co-authored-by
+  value: string;
+}
+
+// G good, B bad, U good with unknown validity, X good but expired, Y good by an expired key, R good by a revoked key, E cannot be checked, N unsigned
+export type SignatureStatus = 'G' | 'B' | 'U' | 'X' | 'Y' | 'R' | 'E' | 'N';
+
+export interface CommitSignature {
+  status: SignatureStatus;
+  signer?: string; // Signer name, for GPG signatures
+  key?: string; // Key ID or SSH key fingerprint
+}
+
+export interface CommitDetails {
+  hash: string;
+  parents: string[];
+  subject: string;
+  body: string; // Message after the subject, trailers included
+  author: CommitIdentity;
+  committer: CommitIdentity;
+  trailers: CommitTrailer[];
+  refs: CommitRef[]; // Refs pointing at the commit itself
+  branches: string[]; // Local and remote branches containing the commit
+  tags: string[]; // Tags containing the commit
+  signature: CommitSignature;
+}
+
+export type CommitRefType = 'head' | 'branch' | 'remote' | 'tag';
+
+export interface CommitRef {
+  name: string; // Short name, e.g. "main", "origin/main" or "v1.0"
+  type: CommitRefType; // "head" is only used for a detached HEAD
+  isHead?: boolean; // The branch is checked out
+}
+
+export interface GraphLine {
+  fromLane: number;
+  toLane: number;
+  color: number; // Index into the lane colour palette
+  segment: 'full' | 'top' | 'bottom'; // Whole row, top edge to the commit, or commit to the bottom edge
+}
+
+export interface CommitGraphRow {
+  lane: number; // Lane of the commit node
+  color: number;
+  lines: GraphLine[];
+  laneCount: number; // Lanes used by this row, for sizing the graph column
+}
+
+export type FileChangeType = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
 export interface DiffFile {
-  filename: string;
+  filename: string; // Path after the change, the old path for deleted files
+  oldFilename?: string; // Path before a rename or copy
+  changeType: FileChangeType;
+  oldMode?: string; // File mode such as 100644, absent for added files
+  newMode?: string; // Absent for deleted files
+  similarity?: number; // Rename or copy similarity in percent
+  binary: boolean;
   additions: number;
   deletions: number;
-  patch: string;
+  hunks: PatchHunk[];
+  patch: string; // Hunk text starting at the first @@ line
+  truncated?: boolean; // Patch cut short for size, the counts still cover all of it
+}
+
+export interface PatchHunk {
+  header: string; // The @@ line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section: string; // Text after the closing @@ (function context)
+  lines: PatchLine[];
+}
+
+export interface PatchLine {
+  type: 'context' | 'add' | 'delete';
+  content: string; // Line text without the leading +, - or space
+  oldNumber?: number;
+  newNumber?: number;
+  noNewlineAtEnd?: boolean; // Followed by "\ No newline at end of file"
 }
 
 export interface CommitDiff {
@@ -39,12 +153,67 @@ export interface CommitWithDiff extends Commit {
   diff: CommitDiff;
 }
 
+export interface CommitOptions {
+  amend?: boolean; // Replace the last commit, an empty message keeps its message
+  signOff?: boolean; // Add a Signed-off-by trailer
+  sign?: boolean; // GPG or SSH sign as set up by gpg.format and user.signingKey
+  author?: string; // "Name <email>" to record instead of the configured author
+  allowEmpty?: boolean; // Commit even when nothing is staged
+  noVerify?: boolean; // Skip the pre-commit and commit-msg hooks
+}
+
+export type FixupKind = 'fixup' | 'squash';
+
+export interface CommitResult {
+  success: boolean;
+  hash?: string; // The new commit
+  hookFailed?: boolean; // A commit hook rejected the commit, output holds what it printed
+  output?: string; // Output of the failed commit
+  errorMessage?: string;
+}
+
 export interface GetCommitsOptions {
   limit?: number;
   skip?: number;
-  branch?: string;
-  messageFilter?: string;
-  includeDiffs?: boolean;
+  branch?: string; // Branch, tag, remote ref or commit to start from, defaults to HEAD
+  refs?: string[]; // Further refs whose history is shown together with branch
+  all?: boolean; // History of every branch, remote ref and tag
+  range?: CommitRange; // Only commits reachable from range.head but not from range.base
+  messageFilter?: string; // Commit message pattern (--grep)
+  author?: string; // Author name or email pattern
+  committer?: string; // Committer name or email pattern
+  since?: string; // Oldest commit date, any date git understands such as "2024-05-01" or "1 month ago"
+  until?: string; // Newest commit date
+  paths?: string[]; // Only commits touching these files or directories
+  content?: string; // Pickaxe search of the commit diffs
+  contentMode?: ContentSearchMode; // Defaults to 'occurrences'
+  merges?: MergeFilter; // Defaults to showing merge and regular commits
+  fixedStrings?: boolean; // Match message, author, committer and content literally instead of as regexes
+  includeStats?: boolean; // Per-file line counts, patches come from getCommitDiff
+}
+
+// occurrences: commits changing how often the string appears (-S), diff: commits with an added or removed line matching it (-G)
+export type ContentSearchMode = 'occurrences' | 'diff';
+
+export type MergeFilter = 'only' | 'exclude';
+
+export interface CommitRange {
+  base: string;
+  head: string;
+}
+
+// unstaged: working tree against the index, staged: index against HEAD, head: working tree against HEAD, commit: working tree against a commit
+export type WorkingDiffSource = 'unstaged' | 'staged' | 'head' | 'commit';
+
+// eol: --ignore-space-at-eol, change: --ignore-space-change, all: --ignore-all-space
+export type WhitespaceMode = 'none' | 'eol' | 'change' | 'all';
+
+export interface WorkingDiffOptions {
+  source: WorkingDiffSource;
+  commit?: string; // Commit the working tree is compared with, for the 'commit' source
+  paths?: string[]; // Only these files or directories
+  whitespace?: WhitespaceMode; // Defaults to 'none'
+  contextLines?: number; // Unchanged lines around each change, defaults to git's 3
 }
 
 export interface CherryPickOptions {
@@ -62,4 +231,335 @@ export interface CherryPickResult {
   progress?: number; // Progress as percentage (0-100)
   errorMessage?: string; // Detailed error message
   errorType?: 'conflict' | 'branch_error' | 'git_error' | 'permission_error' | 'unknown'; // Type of error
-}
\ No newline at end of file
+  pendingCommits?: string[]; // Commits not yet attempted when a conflict stopped the operation
+}
+
+export interface RevertOptions {
+  mainline?: number; // Parent number to revert merge commits against, 1 is the branch merged into
+  noCommit?: boolean; // Stage the reverted changes without committing
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard';
+
+export interface ResetPreviewCommit {
+  hash: string;
+  subject: string;
+  unreachable: boolean; // No other branch, tag or remote branch contains it
+}
+
+export interface ResetPreview {
+  commits: ResetPreviewCommit[]; // Commits the branch will no longer contain, newest first
+  changedFiles: string[]; // Tracked files with uncommitted changes, discarded by a hard reset
+}
+
+// File history types
+export interface FileHistoryEntry {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: Date;
+  subject: string;
+  path: string; // Path of the file in this commit
+  oldPath?: string; // Path before a rename or copy in this commit
+  changeType: FileChangeType;
+}
+
+export interface BlameCommit {
+  hash: string;
+  author: string;
+  authorEmail: string;
+  authorTime: Date;
+  summary: string;
+  previousHash?: string; // Parent the line's previous version is blamed in, missing where the file was added
+  previousPath?: string; // Path of the file in previousHash
+  boundary: boolean; // Oldest commit of the blamed history, lines may be older still
+  uncommitted: boolean; // Lines changed in the working tree
+}
+
+export interface BlameLine {
+  lineNumber: number; // Line in the blamed revision (1-based)
+  originalLineNumber: number; // Line in the commit that last changed it
+  hash: string;
+  path: string; // Path of the file in that commit
+  content: string;
+}
+
+export interface BlameResult {
+  path: string;
+  rev?: string; // Blamed revision, the working tree when missing
+  lines: BlameLine[];
+  commits: Record<string, BlameCommit>;
+}
+
+// Tree browser types
+export type TreeEntryType = 'file' | 'directory' | 'symlink' | 'submodule';
+
+export interface TreeEntry {
+  name: string;
+  path: string; // Relative to the repository root
+  type: TreeEntryType;
+  size?: number; // Bytes, files only
+  ignored?: boolean; // Working tree entries matched by .gitignore
+}
+
+export interface FileContent {
+  path: string;
+  rev?: string; // Revision the file was read from, the working tree when missing
+  size: number;
+  binary: boolean;
+  tooLarge: boolean; // Content not loaded, see size
+  text?: string; // Text files
+  image?: string; // Data URL of image files
+}
+
+export interface SaveFileResult {
+  success: boolean;
+  path?: string; // Where the file was saved, missing when the save dialog was cancelled
+  errorMessage?: string;
+}
+
+// Compare types
+// two-dot diffs the two tips, three-dot diffs head against where it forked from base
+export type CompareMode = 'two-dot' | 'three-dot';
+
+export interface CompareResult {
+  base: string;
+  head: string;
+  mode: CompareMode;
+  mergeBase?: string; // Missing when the revisions share no history
+  diff: CommitDiff; // Large patches are truncated like commit patches
+  baseOnly: Commit[]; // Commits on base that head does not contain, newest first
+  headOnly: Commit[]; // Commits on head that base does not contain, newest first
+  errorMessage?: string;
+}
+
+// Reflog types
+export interface ReflogEntry {
+  selector: string; // e.g. "HEAD@{2}", usable as a revision
+  oldHash?: string; // Value before the update, unknown for the oldest entry read
+  newHash: string; // Value after the update
+  action: string; // e.g. "commit", "checkout", "reset", "rebase (finish)"
+  message: string; // Reflog message after the action
+  subject: string; // Subject of the commit the ref moved to
+  date: Date;
+  lost: boolean; // No branch, tag or HEAD reaches the commit anymore
+}
+
+// Conflict resolution types
+export type GitOperationType = 'merge' | 'cherry-pick' | 'revert' | 'rebase';
+
+export interface OperationState {
+  type: GitOperationType | null; // Operation in progress, null when the repository is idle
+  head?: string; // Commit being applied (MERGE_HEAD, CHERRY_PICK_HEAD, REVERT_HEAD or the stopped rebase commit)
+  branch?: string; // Branch being rebased
+  step?: number; // Current rebase step (1-based)
+  totalSteps?: number; // Total rebase steps
+  rebaseAction?: RebaseAction; // Todo command an interactive rebase stopped on
+  pendingMessage?: string; // Commit message to confirm before continuing a reword or squash
+  conflicts: string[]; // Paths with unresolved conflicts
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+  action: RebaseAction;
+  hash: string;
+  subject: string;
+}
+
+export type ConflictSide = 'ours' | 'theirs';
+
+export type HunkResolution = 'ours' | 'theirs' | 'both';
+
+export interface ConflictHunk {
+  index: number;
+  startLine: number; // 1-based line of the <<<<<<< marker in the working file
+  oursLabel: string;
+  theirsLabel: string;
+  ours: string[];
+  base: string[] | null; // Only present with merge.conflictStyle=diff3
+  theirs: string[];
+}
+
+export interface ConflictFile {
+  path: string;
+  base: string | null; // Index stage 1, null when the file did not exist in the merge base
+  ours: string | null; // Index stage 2, null when deleted on our side
+  theirs: string | null; // Index stage 3, null when deleted on their side
+  working: string | null; // Working tree content with conflict markers
+  binary: boolean;
+  hunks: ConflictHunk[];
+}
+
+export interface GitOperationResult {
+  success: boolean;
+  conflicts: string[]; // Paths with unresolved conflicts after the operation
+  errorMessage?: string;
+}
+
+// Stash types
+export interface StashEntry {
+  index: number;
+  ref: string; // stash@{n}
+  hash: string;
+  message: string;
+  branch?: string; // Branch the stash was created on
+  date: Date;
+}
+
+export interface StashOptions {
+  message?: string;
+  includeUntracked?: boolean;
+  keepIndex?: boolean; // Leave staged changes in place
+}
+
+export interface CheckoutOptions {
+  stashChanges?: boolean; // Stash local changes before switching
+}
+
+export interface CheckoutResult {
+  success: boolean;
+  errorMessage?: string;
+  blockingFiles?: string[]; // Local changes that would be overwritten by the checkout
+  stashed?: boolean; // Local changes were stashed before switching
+}
+
+// Branch types
+export interface BranchCommit {
+  hash: string;
+  message: string;
+  author: string;
+  date: Date;
+}
+
+export interface BranchInfo {
+  name: string; // Short name, e.g. "main" or "origin/main"
+  ref: string; // Full ref name, e.g. "refs/heads/main"
+  isLocal: boolean;
+  isRemote: boolean;
+  remote?: string; // Remote name for remote-tracking branches
+  isCurrent: boolean;
+  upstream?: string; // Tracked remote branch of a local branch
+  upstreamGone: boolean; // Upstream is configured but no longer exists
+  ahead: number; // Commits not on the upstream
+  behind: number; // Upstream commits not on this branch
+  lastCommit: BranchCommit;
+  merged: boolean; // Fully merged into HEAD
+}
+
+export interface DeleteBranchResult {
+  success: boolean;
+  notMerged?: boolean; // Refused because the branch has unmerged commits, retry with force
+  errorMessage?: string;
+}
+
+// Tag types
+export interface TagInfo {
+  name: string;
+  annotated: boolean;
+  target: string; // Tagged commit, peeled through annotated tags
+  targetSubject: string; // Subject of the tagged commit
+  tagger?: CommitIdentity; // Annotated tags only
+  message?: string; // Annotation message without its signature, annotated tags only
+  signed: boolean;
+  date: Date; // Tagger date, or the commit date of lightweight tags
+}
+
+export interface CreateTagOptions {
+  message?: string; // Makes the tag annotated
+  sign?: boolean; // Sign the tag with the configured GPG or SSH key
+  force?: boolean; // Move an existing tag
+}
+
+export interface TagResult {
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface TagPushResult {
+  success: boolean;
+  updatedRefs: RefUpdate[];
+  rejectedRefs: RefUpdate[];
+  errorMessage?: string;
+}
+
+// Remote types
+export interface RemoteInfo {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+export interface FetchOptions {
+  remote?: string; // Fetch every remote when omitted
+  prune?: boolean; // Remove remote-tracking branches that no longer exist on the remote
+}
+
+export interface RemoteOperationResult {
+  remote: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface FetchResult {
+  success: boolean; // Every remote was fetched
+  remotes: RemoteOperationResult[];
+}
+
+export interface GitProgress {
+  method: string; // fetch, push or pull
+  stage: string; // counting, compressing, receiving, resolving or writing
+  progress: number; // Percentage of the current stage (0-100)
+  processed: number;
+  total: number;
+  remote?: string;
+}
+
+// Push and pull types
+export interface PushOptions {
+  remote?: string; // Defaults to the upstream remote
+  branch?: string; // Local branch to push, defaults to the current branch
+  setUpstream?: boolean; // Track the pushed branch afterwards
+  forceWithLease?: boolean; // Overwrite the remote branch only if it has not moved since the last fetch
+  tags?: boolean; // Push all tags as well
+}
+
+export type PullMode = 'merge' | 'rebase' | 'ff-only';
+
+export interface PullOptions {
+  remote?: string; // Defaults to the upstream remote
+  branch?: string; // Remote branch to pull, defaults to the upstream branch
+  mode?: PullMode; // Defaults to the pull.rebase and pull.ff configuration
+  autostash?: boolean; // Stash local changes before pulling and restore them afterwards
+}
+
+export type RefUpdateStatus = 'fast-forward' | 'forced' | 'new' | 'deleted' | 'up-to-date' | 'rejected';
+
+export interface RefUpdate {
+  localRef: string;
+  remoteRef: string;
+  status: RefUpdateStatus;
+  summary: string; // Old and new commit ("abc..def") or a note like "[new branch]"
+  reason?: string; // Why the ref was rejected, e.g. "fetch first" or "stale info"
+}
+
+export interface TrackingState {
+  upstream?: string;
+  ahead: number;
+  behind: number;
+}
+
+export interface PushResult {
+  success: boolean;
+  updatedRefs: RefUpdate[];
+  rejectedRefs: RefUpdate[];
+  noUpstream?: boolean; // No remote was given and the branch does not track one
+  detachedHead?: boolean; // No branch was given and HEAD is not on one
+  tracking: TrackingState; // State of the pushed branch after the push
+  errorMessage?: string;
+}
+
+export interface PullResult extends GitOperationResult {
+  noUpstream?: boolean; // No remote was given and the branch does not track one
+  tracking: TrackingState; // State of the current branch after the pull
+}
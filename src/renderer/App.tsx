@@ -6,7 +6,10 @@ import Sidebar from './components/Sidebar';
 import MainContent from './components/MainContent';
 import CommitHistory from './components/CommitHistory';
 import CherryPickDialog from './components/CherryPickDialog';
-import { Repository, CommitWithDiff, CherryPickResult } from './types';
+import FileHistoryDialog from './components/FileHistoryDialog';
+import TreeBrowserDialog from './components/TreeBrowserDialog';
+import CompareDialog from './components/CompareDialog';
+import { Repository, CommitWithDiff, CherryPickResult, CommitRange } from './types';
 
 interface Config {
   scanPaths: string[];
@@ -61,6 +64,12 @@ function App() {
   const [selectedCommits, setSelectedCommits] = useState<CommitWithDiff[]>([]);
   const [branches, setBranches] = useState<string[]>([]);
   const [cherryPickDialogOpen, setCherryPickDialogOpen] = useState(false);
+  const [historyRange, setHistoryRange] = useState<CommitRange | null>(null);
+  const [fileHistoryPath, setFileHistoryPath] = useState<string | null>(null);
+  const [focusCommit, setFocusCommit] = useState<{ hash: string } | null>(null);
+  // Revision the file tree is browsed at, an empty object for the working tree
+  const [treeBrowser, setTreeBrowser] = useState<{ rev?: string } | null>(null);
+  const [compare, setCompare] = useState<{ range?: CommitRange } | null>(null);
 
   // Load config and repositories on app start
   useEffect(() => {
@@ -91,8 +100,8 @@ function App() {
 
   const loadBranches = async () => {
     try {
-      const branchList = await (window.electronAPI.git as any).getBranches();
-      setBranches(branchList);
+      const branchList = await window.electronAPI.git.getBranches();
+      setBranches(branchList.filter(branch => branch.isLocal).map(branch => branch.name));
     } catch (error) {
       console.error('Failed to load branches:', error);
     }
@@ -171,6 +180,18 @@ function App() {
     await (window.electronAPI as any).config.save({ scanPaths, theme: newTheme.palette.mode as 'light' | 'dark' });
   };
 
+  const handleRepositoryUpdate = async () => {
+    try {
+      const current = await window.electronAPI.repositories.getCurrent();
+      if (current) {
+        setCurrentRepository(current);
+      }
+      await loadBranches();
+    } catch (error) {
+      console.error('Failed to refresh repository:', error);
+    }
+  };
+
   const handleCherryPick = async (
     commitHashes: string[],
     targetBranch: string,
@@ -219,6 +240,12 @@ function App() {
           <CommitHistory
             currentRepository={currentRepository}
             onCommitsSelected={setSelectedCommits}
+            onRangeChange={setHistoryRange}
+            onRepositoryUpdate={handleRepositoryUpdate}
+            onOpenFileHistory={setFileHistoryPath}
+            onBrowseFiles={(rev) => setTreeBrowser({ rev })}
+            onCompare={(range) => setCompare({ range })}
+            focusRequest={focusCommit}
           />
           {selectedCommits.length > 0 && (
             <Box sx={{ position: 'absolute', bottom: 0, left: 0, right: 0, p: 2, bgcolor: 'primary.light', borderRadius: 1, m: 2 }}>
@@ -232,12 +259,26 @@ function App() {
               >
                 Cherry Pick to Branch
               </Button>
+              {selectedCommits.length === 2 && (
+                <Button
+                  size="small"
+                  variant="outlined"
+                  sx={{ ml: 1 }}
+                  // The list is newest first, so the older commit is the base
+                  onClick={() => setCompare({ range: { base: selectedCommits[1].hash, head: selectedCommits[0].hash } })}
+                >
+                  Compare
+                </Button>
+              )}
             </Box>
           )}
         </Box>
         <Box sx={{ flex: 2, minWidth: 400 }}>
           <MainContent
             currentRepository={currentRepository}
+            onRepositoryUpdate={handleRepositoryUpdate}
+            onOpenFileHistory={setFileHistoryPath}
+            onBrowseFiles={() => setTreeBrowser({})}
           />
         </Box>
 
@@ -247,7 +288,37 @@ function App() {
           selectedCommits={selectedCommits}
           availableBranches={branches}
           currentBranch={currentRepository?.currentBranch || ''}
+          defaultTargetBranch={historyRange && branches.includes(historyRange.base) ? historyRange.base : undefined}
           onCherryPick={handleCherryPick}
+          onRepositoryUpdate={handleRepositoryUpdate}
+        />
+
+        <TreeBrowserDialog
+          open={!!treeBrowser}
+          initialRev={treeBrowser?.rev}
+          onClose={() => setTreeBrowser(null)}
+          onOpenFileHistory={setFileHistoryPath}
+        />
+
+        <CompareDialog
+          open={!!compare}
+          initialRange={compare?.range}
+          onClose={() => setCompare(null)}
+          onShowCommit={(hash) => {
+            setCompare(null);
+            setFocusCommit({ hash });
+          }}
+        />
+
+        <FileHistoryDialog
+          open={!!fileHistoryPath}
+          path={fileHistoryPath}
+          onClose={() => setFileHistoryPath(null)}
+          onShowCommit={(hash) => {
+            setFileHistoryPath(null);
+            setTreeBrowser(null);
+            setFocusCommit({ hash });
+          }}
         />
       </Box>
     </ThemeProvider>
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Alert,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { Edit, Delete, Link, LinkOff } from '@mui/icons-material';
+import { BranchInfo } from '../types';
+
+interface BranchListDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branches: BranchInfo[];
+  onCheckout: (branch: BranchInfo) => void;
+  onChanged: () => void;
+}
+
+const BranchListDialog: React.FC<BranchListDialogProps> = ({
+  open,
+  onClose,
+  branches,
+  onCheckout,
+  onChanged
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const [renameTarget, setRenameTarget] = useState<BranchInfo | null>(null);
+  const [newName, setNewName] = useState('');
+  const [upstreamTarget, setUpstreamTarget] = useState<BranchInfo | null>(null);
+  const [upstream, setUpstream] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<{ branch: BranchInfo; force: boolean } | null>(null);
+
+  const localBranches = branches.filter(branch => branch.isLocal);
+  const remoteBranches = branches.filter(branch => branch.isRemote);
+
+  const runAction = async (action: () => Promise<boolean>, failureMessage: string) => {
+    setError(null);
+    try {
+      if (!(await action())) {
+        setError(failureMessage);
+      }
+      onChanged();
+    } catch (error) {
+      console.error(failureMessage, error);
+      setError(failureMessage);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renameTarget || !newName.trim()) return;
+    const oldName = renameTarget.name;
+    setRenameTarget(null);
+    await runAction(
+      () => window.electronAPI.git.renameBranch(oldName, newName.trim()),
+      `Failed to rename ${oldName}`
+    );
+  };
+
+  const handleSetUpstream = async () => {
+    if (!upstreamTarget || !upstream) return;
+    const branch = upstreamTarget.name;
+    setUpstreamTarget(null);
+    await runAction(
+      () => window.electronAPI.git.setUpstream(branch, upstream),
+      `Failed to set the upstream of ${branch}`
+    );
+  };
+
+  const handleUnsetUpstream = async (branch: BranchInfo) => {
+    await runAction(
+      () => window.electronAPI.git.unsetUpstream(branch.name),
+      `Failed to unset the upstream of ${branch.name}`
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const { branch, force } = deleteTarget;
+    setError(null);
+    try {
+      const result = await window.electronAPI.git.deleteBranch(branch.name, force);
+      if (result.notMerged && !force) {
+        // Ask again before throwing away unmerged commits
+        setDeleteTarget({ branch, force: true });
+        return;
+      }
+      if (!result.success) {
+        setError(result.errorMessage || `Failed to delete ${branch.name}`);
+      }
+      onChanged();
+    } catch (error) {
+      console.error('Failed to delete branch:', error);
+      setError(`Failed to delete ${branch.name}`);
+    }
+    setDeleteTarget(null);
+  };
+
+  const describeCommit = (branch: BranchInfo) =>
+    `${branch.lastCommit.message} • ${branch.lastCommit.author} • ${new Date(branch.lastCommit.date).toLocaleDateString()}`;
+
+  const renderTracking = (branch: BranchInfo) => {
+    if (!branch.upstream) return null;
+    if (branch.upstreamGone) {
+      return <Chip size="small" color="warning" variant="outlined" label={`${branch.upstream} (gone)`} />;
+    }
+    const counts = [
+      branch.ahead > 0 ? `↑${branch.ahead}` : '',
+      branch.behind > 0 ? `↓${branch.behind}` : ''
+    ].filter(Boolean).join(' ');
+    return <Chip size="small" variant="outlined" label={counts ? `${branch.upstream} ${counts}` : branch.upstream} />;
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Branches</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" color="text.secondary">
+          Local
+        </Typography>
+        <List dense>
+          {localBranches.map((branch) => (
+            <ListItem key={branch.ref} sx={{ pr: 1 }}>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    {branch.name}
+                    {branch.isCurrent && <Chip size="small" color="primary" label="current" />}
+                    {renderTracking(branch)}
+                    {branch.merged && !branch.isCurrent && <Chip size="small" label="merged" />}
+                  </Box>
+                }
+                secondary={describeCommit(branch)}
+              />
+              {!branch.isCurrent && (
+                <Button size="small" onClick={() => onCheckout(branch)}>
+                  Checkout
+                </Button>
+              )}
+              <Tooltip title="Rename">
+                <IconButton size="small" onClick={() => { setNewName(branch.name); setRenameTarget(branch); }}>
+                  <Edit fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Set upstream">
+                <IconButton size="small" onClick={() => { setUpstream(branch.upstream || ''); setUpstreamTarget(branch); }}>
+                  <Link fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Unset upstream">
+                <span>
+                  <IconButton size="small" disabled={!branch.upstream} onClick={() => handleUnsetUpstream(branch)}>
+                    <LinkOff fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={branch.isCurrent ? 'Cannot delete the current branch' : 'Delete'}>
+                <span>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    disabled={branch.isCurrent}
+                    onClick={() => setDeleteTarget({ branch, force: false })}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </ListItem>
+          ))}
+        </List>
+
+        <Typography variant="subtitle2" color="text.secondary">
+          Remote
+        </Typography>
+        {remoteBranches.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+            No remote branches
+          </Typography>
+        ) : (
+          <List dense>
+            {remoteBranches.map((branch) => (
+              <ListItem key={branch.ref} sx={{ pr: 1 }}>
+                <ListItemText primary={branch.name} secondary={describeCommit(branch)} />
+                <Tooltip title="Check out as a local branch tracking this one">
+                  <Button size="small" onClick={() => onCheckout(branch)}>
+                    Checkout
+                  </Button>
+                </Tooltip>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <Dialog open={!!renameTarget} onClose={() => setRenameTarget(null)}>
+        <DialogTitle>Rename Branch</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="New Name"
+            fullWidth
+            variant="outlined"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenameTarget(null)}>Cancel</Button>
+          <Button onClick={handleRename} disabled={!newName.trim() || newName.trim() === renameTarget?.name}>
+            Rename
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!upstreamTarget} onClose={() => setUpstreamTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Set Upstream of {upstreamTarget?.name}</DialogTitle>
+        <DialogContent>
+          <FormControl fullWidth sx={{ mt: 1 }}>
+            <InputLabel>Remote Branch</InputLabel>
+            <Select value={upstream} label="Remote Branch" onChange={(e) => setUpstream(e.target.value)}>
+              {remoteBranches.map((branch) => (
+                <MenuItem key={branch.ref} value={branch.name}>
+                  {branch.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setUpstreamTarget(null)}>Cancel</Button>
+          <Button onClick={handleSetUpstream} disabled={!upstream}>
+            Set Upstream
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>{deleteTarget?.force ? 'Force Delete Branch' : 'Delete Branch'}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {deleteTarget?.force
+              ? `${deleteTarget.branch.name} has commits that are not merged. Deleting it will lose them.`
+              : `Delete ${deleteTarget?.branch.name}?`}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            {deleteTarget?.force ? 'Force Delete' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+};
+
+export default BranchListDialog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   FormControl,
@@ -11,44 +11,53 @@ import {
   DialogContent,
   DialogActions,
   TextField,
-  Typography
+  Typography,
+  Autocomplete
 } from '@mui/material';
-import { Add, Merge, CallSplit } from '@mui/icons-material';
+import { Add, Merge, CallSplit, AccountTree, History } from '@mui/icons-material';
+import { BranchInfo } from '../types';
+import BranchListDialog from './BranchListDialog';
+import ReflogDialog from './ReflogDialog';
 
 interface BranchManagerProps {
   currentBranch?: string;
-  branches: string[];
+  branches: BranchInfo[];
   onBranchChange: (branch: string) => void;
-  onCreateBranch: (name: string) => void;
+  onCheckoutRemoteBranch: (remoteBranch: string) => void;
+  onCreateBranch: (name: string, startPoint?: string) => void;
   onMergeBranch: (sourceBranch: string) => void;
+  onBranchesChanged: () => void;
 }
 
 const BranchManager: React.FC<BranchManagerProps> = ({
   currentBranch,
   branches,
   onBranchChange,
+  onCheckoutRemoteBranch,
   onCreateBranch,
-  onMergeBranch
+  onMergeBranch,
+  onBranchesChanged
 }) => {
-  const [selectedBranch, setSelectedBranch] = useState(currentBranch || '');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [branchListOpen, setBranchListOpen] = useState(false);
+  const [reflogOpen, setReflogOpen] = useState(false);
   const [newBranchName, setNewBranchName] = useState('');
+  const [startPoint, setStartPoint] = useState('');
   const [mergeSourceBranch, setMergeSourceBranch] = useState('');
 
-  useEffect(() => {
-    setSelectedBranch(currentBranch || '');
-  }, [currentBranch]);
-
+  // The selection follows the checked out branch, so a failed checkout leaves it unchanged
   const handleBranchChange = (branch: string) => {
-    setSelectedBranch(branch);
-    onBranchChange(branch);
+    if (branch !== currentBranch) {
+      onBranchChange(branch);
+    }
   };
 
   const handleCreateBranch = () => {
     if (newBranchName.trim()) {
-      onCreateBranch(newBranchName.trim());
+      onCreateBranch(newBranchName.trim(), startPoint.trim() || undefined);
       setNewBranchName('');
+      setStartPoint('');
       setCreateDialogOpen(false);
     }
   };
@@ -66,20 +75,25 @@ const BranchManager: React.FC<BranchManagerProps> = ({
       <FormControl size="small" sx={{ minWidth: 150 }}>
         <InputLabel>Branch</InputLabel>
         <Select
-          value={selectedBranch}
+          value={currentBranch || ''}
           label="Branch"
           onChange={(e) => handleBranchChange(e.target.value)}
         >
-          {branches.map((branch) => (
-            <MenuItem key={branch} value={branch}>
+          {branches.filter(branch => branch.isLocal).map((branch) => (
+            <MenuItem key={branch.ref} value={branch.name}>
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <CallSplit fontSize="small" />
-                {branch}
-                {branch === currentBranch && (
+                {branch.name}
+                {branch.isCurrent && (
                   <Typography variant="caption" color="primary">
                     (current)
                   </Typography>
                 )}
+                {(branch.ahead > 0 || branch.behind > 0) && (
+                  <Typography variant="caption" color="text.secondary">
+                    {branch.ahead > 0 ? `↑${branch.ahead}` : ''} {branch.behind > 0 ? `↓${branch.behind}` : ''}
+                  </Typography>
+                )}
               </Box>
             </MenuItem>
           ))}
@@ -94,6 +108,22 @@ const BranchManager: React.FC<BranchManagerProps> = ({
         New Branch
       </Button>
 
+      <Button
+        size="small"
+        startIcon={<AccountTree />}
+        onClick={() => setBranchListOpen(true)}
+      >
+        Branches
+      </Button>
+
+      <Button
+        size="small"
+        startIcon={<History />}
+        onClick={() => setReflogOpen(true)}
+      >
+        Reflog
+      </Button>
+
       <Button
         size="small"
         startIcon={<Merge />}
@@ -117,6 +147,21 @@ const BranchManager: React.FC<BranchManagerProps> = ({
             onChange={(e) => setNewBranchName(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleCreateBranch()}
           />
+          <Autocomplete
+            freeSolo
+            options={branches.map(branch => branch.name)}
+            inputValue={startPoint}
+            onInputChange={(_, value) => setStartPoint(value)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                margin="dense"
+                label="Start Point"
+                placeholder="HEAD"
+                helperText="Branch, remote branch or commit hash. Remote branches are tracked."
+              />
+            )}
+          />
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
@@ -141,10 +186,10 @@ const BranchManager: React.FC<BranchManagerProps> = ({
               onChange={(e) => setMergeSourceBranch(e.target.value)}
             >
               {branches
-                .filter(branch => branch !== currentBranch)
+                .filter(branch => !branch.isCurrent)
                 .map((branch) => (
-                  <MenuItem key={branch} value={branch}>
-                    {branch}
+                  <MenuItem key={branch.ref} value={branch.name}>
+                    {branch.name}
                   </MenuItem>
                 ))}
             </Select>
@@ -157,6 +202,28 @@ const BranchManager: React.FC<BranchManagerProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      <BranchListDialog
+        open={branchListOpen}
+        onClose={() => setBranchListOpen(false)}
+        branches={branches}
+        onCheckout={(branch) => {
+          if (branch.isRemote) {
+            onCheckoutRemoteBranch(branch.name);
+          } else {
+            onBranchChange(branch.name);
+          }
+        }}
+        onChanged={onBranchesChanged}
+      />
+
+      <ReflogDialog
+        open={reflogOpen}
+        onClose={() => setReflogOpen(false)}
+        branches={branches}
+        currentBranch={currentBranch}
+        onChanged={onBranchesChanged}
+      />
     </Box>
   );
 };
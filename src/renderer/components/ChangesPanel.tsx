@@ -0,0 +1,346 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Checkbox,
+  List,
+  ListItem,
+  ListItemText,
+  Divider,
+  Tooltip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import { History } from '@mui/icons-material';
+import { GitStatus, FileStatusEntry } from '../types';
+import {
+  getStagedFiles,
+  getUnstagedFiles,
+  getUntrackedFiles,
+  getConflictedFiles,
+  entryPaths,
+  describeSubmodule
+} from '../utils/statusUtils';
+import FileStatusIcon from './FileStatusIcon';
+
+type Section = 'staged' | 'unstaged' | 'untracked';
+
+interface ChangesPanelProps {
+  status: GitStatus | null;
+  onStage: (files: string[]) => void;
+  onUnstage: (files: string[]) => void;
+  onDiscard: (files: string[]) => void;
+  onClean: (files: string[]) => void;
+  onOpenDiff: (file: string, staged: boolean) => void;
+  onResolveConflicts: () => void;
+  onOpenFileHistory?: (file: string) => void;
+}
+
+interface PendingConfirmation {
+  title: string;
+  message: string;
+  files: string[];
+  confirmLabel: string;
+  onConfirm: () => void;
+}
+
+const emptySelection = (): Record<Section, Set<string>> => ({
+  staged: new Set(),
+  unstaged: new Set(),
+  untracked: new Set()
+});
+
+const ChangesPanel: React.FC<ChangesPanelProps> = ({
+  status,
+  onStage,
+  onUnstage,
+  onDiscard,
+  onClean,
+  onOpenDiff,
+  onResolveConflicts,
+  onOpenFileHistory
+}) => {
+  const [selected, setSelected] = useState<Record<Section, Set<string>>>(emptySelection);
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+
+  const staged = getStagedFiles(status);
+  const unstaged = getUnstagedFiles(status);
+  const untracked = getUntrackedFiles(status);
+  const conflicted = getConflictedFiles(status);
+
+  // Drop selections for files that are no longer in that section
+  useEffect(() => {
+    const keep = (previous: Set<string>, entries: FileStatusEntry[]) =>
+      new Set(entries.map(entry => entry.path).filter(file => previous.has(file)));
+    setSelected(prev => ({
+      staged: keep(prev.staged, getStagedFiles(status)),
+      unstaged: keep(prev.unstaged, getUnstagedFiles(status)),
+      untracked: keep(prev.untracked, getUntrackedFiles(status))
+    }));
+  }, [status]);
+
+  const toggleFile = (section: Section, file: string) => {
+    setSelected(prev => {
+      const files = new Set(prev[section]);
+      if (files.has(file)) {
+        files.delete(file);
+      } else {
+        files.add(file);
+      }
+      return { ...prev, [section]: files };
+    });
+  };
+
+  const toggleSection = (section: Section, files: string[]) => {
+    setSelected(prev => ({
+      ...prev,
+      [section]: prev[section].size === files.length ? new Set() : new Set(files)
+    }));
+  };
+
+  // Bulk actions apply to the selection, or to every file when nothing is selected
+  const targetFiles = (section: Section, entries: FileStatusEntry[]): string[] => {
+    const targets = selected[section].size > 0
+      ? entries.filter(entry => selected[section].has(entry.path))
+      : entries;
+    return targets.flatMap(entryPaths);
+  };
+
+  const confirmDiscard = (files: string[]) => {
+    setConfirmation({
+      title: 'Discard Changes',
+      message: 'Unstaged modifications to these files will be lost. This cannot be undone.',
+      files,
+      confirmLabel: 'Discard',
+      onConfirm: () => onDiscard(files)
+    });
+  };
+
+  const confirmClean = (files: string[]) => {
+    setConfirmation({
+      title: 'Delete Untracked Files',
+      message: 'These untracked files will be permanently deleted. This cannot be undone.',
+      files,
+      confirmLabel: 'Delete',
+      onConfirm: () => onClean(files)
+    });
+  };
+
+  const renderFileText = (entry: FileStatusEntry, section: Section) => {
+    const primary = entry.originalPath ? `${entry.originalPath} → ${entry.path}` : entry.path;
+    const secondary = describeSubmodule(entry);
+
+    if (section === 'untracked' || entry.submodule) {
+      return <ListItemText primary={primary} secondary={secondary} />;
+    }
+
+    return (
+      <Tooltip title={section === 'staged' ? 'Show the staged changes of this file' : 'Show the changes of this file'}>
+        <ListItemText
+          primary={primary}
+          secondary={secondary}
+          onClick={() => onOpenDiff(entry.path, section === 'staged')}
+          sx={{ cursor: 'pointer' }}
+        />
+      </Tooltip>
+    );
+  };
+
+  const renderSection = (
+    section: Section,
+    title: string,
+    entries: FileStatusEntry[],
+    emptyText: string,
+    bulkActions: (targets: string[], label: string) => React.ReactNode,
+    fileActions: (entry: FileStatusEntry) => React.ReactNode
+  ) => {
+    const files = entries.map(entry => entry.path);
+    const selectedCount = selected[section].size;
+    const label = selectedCount > 0 ? `Selected (${selectedCount})` : 'All';
+
+    return (
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Checkbox
+            size="small"
+            disabled={files.length === 0}
+            checked={files.length > 0 && selectedCount === files.length}
+            indeterminate={selectedCount > 0 && selectedCount < files.length}
+            onChange={() => toggleSection(section, files)}
+          />
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+            {title}
+          </Typography>
+          {entries.length > 0 && bulkActions(targetFiles(section, entries), label)}
+        </Box>
+
+        {entries.length > 0 ? (
+          <List dense disablePadding>
+            {entries.map((entry) => (
+              <ListItem key={entry.path} disablePadding sx={{ pr: 1 }}>
+                <Checkbox
+                  size="small"
+                  checked={selected[section].has(entry.path)}
+                  onChange={() => toggleFile(section, entry.path)}
+                />
+                <FileStatusIcon
+                  state={section === 'staged' ? entry.indexState : entry.worktreeState}
+                  submodule={!!entry.submodule}
+                />
+                {renderFileText(entry, section)}
+                {onOpenFileHistory && section !== 'untracked' && !entry.submodule && (
+                  <Tooltip title="File history and blame">
+                    <IconButton size="small" onClick={() => onOpenFileHistory(entry.path)}>
+                      <History fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {fileActions(entry)}
+              </ListItem>
+            ))}
+          </List>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ pl: 5 }}>
+            {emptyText}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      {conflicted.length > 0 && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, pl: 1.5 }}>
+            <Typography variant="body2" color="error" sx={{ flex: 1 }}>
+              Conflicted files
+            </Typography>
+            <Button size="small" color="error" onClick={onResolveConflicts}>
+              Resolve
+            </Button>
+          </Box>
+          <List dense disablePadding>
+            {conflicted.map((entry) => (
+              <ListItem key={entry.path} sx={{ pl: 1.5 }}>
+                <FileStatusIcon state={entry.worktreeState} conflicted />
+                <ListItemText primary={entry.path} />
+              </ListItem>
+            ))}
+          </List>
+          <Divider sx={{ my: 1 }} />
+        </>
+      )}
+
+      {renderSection(
+        'staged',
+        'Files ready to commit',
+        staged,
+        'No staged changes',
+        (targets, label) => (
+          <Button size="small" onClick={() => onUnstage(targets)}>
+            Unstage {label}
+          </Button>
+        ),
+        (entry) => (
+          <Button size="small" onClick={() => onUnstage(entryPaths(entry))}>
+            Unstage
+          </Button>
+        )
+      )}
+
+      <Divider sx={{ my: 1 }} />
+
+      {renderSection(
+        'unstaged',
+        'Modified files',
+        unstaged,
+        'No modified files',
+        (targets, label) => (
+          <>
+            <Button size="small" onClick={() => onStage(targets)}>
+              Stage {label}
+            </Button>
+            <Button size="small" color="error" onClick={() => confirmDiscard(targets)}>
+              Discard {label}
+            </Button>
+          </>
+        ),
+        (entry) => (
+          <>
+            <Button size="small" onClick={() => onStage([entry.path])}>
+              Stage
+            </Button>
+            <Button size="small" color="error" onClick={() => confirmDiscard([entry.path])}>
+              Discard
+            </Button>
+          </>
+        )
+      )}
+
+      <Divider sx={{ my: 1 }} />
+
+      {renderSection(
+        'untracked',
+        'Untracked files',
+        untracked,
+        'No untracked files',
+        (targets, label) => (
+          <>
+            <Button size="small" onClick={() => onStage(targets)}>
+              Stage {label}
+            </Button>
+            <Button size="small" color="error" onClick={() => confirmClean(targets)}>
+              Delete {label}
+            </Button>
+          </>
+        ),
+        (entry) => (
+          <>
+            <Button size="small" onClick={() => onStage([entry.path])}>
+              Stage
+            </Button>
+            <Button size="small" color="error" onClick={() => confirmClean([entry.path])}>
+              Delete
+            </Button>
+          </>
+        )
+      )}
+
+      <Dialog open={!!confirmation} onClose={() => setConfirmation(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{confirmation?.title}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {confirmation?.message}
+          </Typography>
+          <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+            {confirmation?.files.map((file) => (
+              <ListItem key={file}>
+                <ListItemText primary={file} primaryTypographyProps={{ sx: { fontFamily: 'monospace' } }} />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmation(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              confirmation?.onConfirm();
+              setConfirmation(null);
+            }}
+          >
+            {confirmation?.confirmLabel}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ChangesPanel;
@@ -19,6 +19,7 @@ import {
   Alert
 } from '@mui/material';
 import { CommitWithDiff, CherryPickResult } from '../types';
+import ConflictResolutionDialog, { OperationControl } from './ConflictResolutionDialog';
 
 interface CherryPickDialogProps {
   open: boolean;
@@ -26,10 +27,12 @@ interface CherryPickDialogProps {
   selectedCommits: CommitWithDiff[];
   availableBranches: string[];
   currentBranch: string;
+  defaultTargetBranch?: string; // Preselected target, the current branch when omitted
   onCherryPick: (commitHashes: string[], targetBranch: string, options: {
     noCommit?: boolean;
     squash?: boolean;
   }) => Promise<CherryPickResult>;
+  onRepositoryUpdate?: () => void; // Called after switching back to the original branch
 }
 
 // Global operation lock to prevent simultaneous cherry-picks
@@ -41,7 +44,9 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
   selectedCommits,
   availableBranches,
   currentBranch,
-  onCherryPick
+  defaultTargetBranch,
+  onCherryPick,
+  onRepositoryUpdate
 }) => {
   const [targetBranch, setTargetBranch] = useState('');
   const [noCommit, setNoCommit] = useState(false);
@@ -49,19 +54,46 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<CherryPickResult | null>(null);
   const [progress, setProgress] = useState({ current: 0, total: 0, currentCommit: '' });
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  // Branch to return to once a pick onto another branch that stopped on conflicts is finished
+  const [originalBranch, setOriginalBranch] = useState<string | null>(null);
 
+  // Reset only when the dialog opens, picking onto another branch changes currentBranch while it is open
   React.useEffect(() => {
     if (open) {
-      setTargetBranch(currentBranch);
+      setTargetBranch(defaultTargetBranch || currentBranch);
       setNoCommit(false);
       setSquash(false);
       setResult(null);
       setProgress({ current: 0, total: 0, currentCommit: '' });
+      setOriginalBranch(null);
     }
-  }, [open, currentBranch]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
 
-  const handleCherryPick = async () => {
+  const handleCherryPick = () => {
     if (!targetBranch || selectedCommits.length === 0) return;
+    setOriginalBranch(targetBranch !== currentBranch ? currentBranch : null);
+    // History lists newest first, apply oldest first so later commits build on earlier ones
+    runCherryPick([...selectedCommits].reverse().map(c => c.hash));
+  };
+
+  // The main process only switches back when the pick it ran did not stop on
+  // conflicts, resumed picks start on the target branch and are returned here
+  const restoreOriginalBranch = async (): Promise<string | undefined> => {
+    if (!originalBranch) return undefined;
+
+    try {
+      const checkout = await window.electronAPI.git.checkoutBranch(originalBranch);
+      onRepositoryUpdate?.();
+      return checkout.success ? undefined : `Could not switch back to ${originalBranch}: ${checkout.errorMessage || 'Unknown error'}`;
+    } catch (error) {
+      console.error('Failed to restore original branch:', error);
+      return `Could not switch back to ${originalBranch}`;
+    }
+  };
+
+  const runCherryPick = async (commitHashes: string[], previouslyApplied: string[] = [], resumed = false) => {
 
     // Prevent simultaneous cherry-pick operations
     if (isCherryPickingInProgress) {
@@ -72,24 +104,24 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
     isCherryPickingInProgress = true;
     setLoading(true);
     setResult(null);
-    setProgress({ current: 0, total: selectedCommits.length, currentCommit: '' });
+    setProgress({ current: previouslyApplied.length, total: selectedCommits.length, currentCommit: '' });
 
     // Simulate progress for multi-commit operations
     let progressInterval: NodeJS.Timeout | null = null;
-    if (selectedCommits.length > 1) {
+    if (commitHashes.length > 1) {
       let currentProgress = 0;
       progressInterval = setInterval(() => {
         currentProgress = Math.min(currentProgress + 10, 90); // Cap at 90% until completion
         setProgress(prev => ({
           ...prev,
-          current: Math.floor((currentProgress / 100) * selectedCommits.length)
+          current: previouslyApplied.length + Math.floor((currentProgress / 100) * commitHashes.length)
         }));
       }, 200);
     }
 
     try {
       const result = await onCherryPick(
-        selectedCommits.map(c => c.hash),
+        commitHashes,
         targetBranch,
         { noCommit, squash }
       );
@@ -97,15 +129,20 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
       if (progressInterval) {
         clearInterval(progressInterval);
       }
-      
+
+      const appliedCommits = [...previouslyApplied, ...result.appliedCommits];
+
       // Update progress based on actual result
       setProgress({
-        current: result.appliedCommits.length,
+        current: appliedCommits.length,
         total: selectedCommits.length,
         currentCommit: ''
       });
-      
-      setResult(result);
+
+      const restoreError = resumed && result.errorType !== 'conflict' ? await restoreOriginalBranch() : undefined;
+      setResult(restoreError
+        ? { ...result, appliedCommits, success: false, errorMessage: result.errorMessage || restoreError }
+        : { ...result, appliedCommits });
     } catch (error) {
       if (progressInterval) {
         clearInterval(progressInterval);
@@ -122,6 +159,39 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
     }
   };
 
+  // The commit that stopped on a conflict is applied once the cherry-pick is
+  // continued, then the commits that were never attempted are picked up
+  const handleConflictsFinished = async (action: OperationControl) => {
+    if (!result) return;
+
+    if (action === 'abort') {
+      const restoreError = await restoreOriginalBranch();
+      setResult({
+        ...result,
+        conflicts: [],
+        errorType: undefined,
+        errorMessage: ['Cherry-pick aborted, the conflicting commit was not applied', restoreError].filter(Boolean).join('. ')
+      });
+      return;
+    }
+
+    const pendingCommits = result.pendingCommits || [];
+    const resolvedCommit = selectedCommits
+      .map(c => c.hash)
+      .find(hash => !result.appliedCommits.includes(hash) && !pendingCommits.includes(hash));
+    const appliedCommits = resolvedCommit && action === 'continue' ? [...result.appliedCommits, resolvedCommit] : result.appliedCommits;
+
+    if (pendingCommits.length > 0) {
+      runCherryPick(pendingCommits, appliedCommits, true);
+    } else {
+      const restoreError = await restoreOriginalBranch();
+      setResult({ success: !restoreError, conflicts: [], appliedCommits, errorMessage: restoreError });
+    }
+  };
+
+  // Without committing git keeps no cherry-pick state, so there is nothing to continue
+  const conflictWithoutCommit = result?.errorType === 'conflict' && noCommit;
+
   const handleClose = () => {
     if (!loading) {
       onClose();
@@ -185,7 +255,7 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
               <Switch
                 checked={noCommit}
                 onChange={(e) => setNoCommit(e.target.checked)}
-                disabled={loading}
+                disabled={loading || !!result}
               />
             }
             label="Stage changes without committing"
@@ -196,7 +266,7 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
                 <Switch
                   checked={squash}
                   onChange={(e) => setSquash(e.target.checked)}
-                  disabled={loading}
+                  disabled={loading || !!result}
                 />
               }
               label="Squash into single commit"
@@ -233,6 +303,13 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
                       Conflicts in: {result.conflicts.join(', ')}
                     </Typography>
                   )}
+                  {conflictWithoutCommit && (
+                    <Typography variant="body2" sx={{ mt: 1 }}>
+                      The changes were staged without a commit, so the cherry-pick cannot be continued. Resolve the
+                      conflicts and commit the result on {targetBranch}
+                      {result.pendingCommits?.length ? `, the remaining ${result.pendingCommits.length} commit${result.pendingCommits.length !== 1 ? 's were' : ' was'} not applied` : ''}.
+                    </Typography>
+                  )}
                   {result.errorType && (
                     <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.7 }}>
                       Error type: {result.errorType.replace('_', ' ')}
@@ -270,6 +347,16 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
         <Button onClick={handleClose} disabled={loading}>
           {result ? 'Close' : 'Cancel'}
         </Button>
+        {result?.errorType === 'conflict' && (
+          <Button
+            onClick={() => setConflictDialogOpen(true)}
+            variant="contained"
+            color="warning"
+            disabled={loading}
+          >
+            Resolve Conflicts
+          </Button>
+        )}
         {!result && (
           <Button
             onClick={handleCherryPick}
@@ -280,6 +367,12 @@ const CherryPickDialog: React.FC<CherryPickDialogProps> = ({
           </Button>
         )}
       </DialogActions>
+
+      <ConflictResolutionDialog
+        open={conflictDialogOpen}
+        onClose={() => setConflictDialogOpen(false)}
+        onFinished={handleConflictsFinished}
+      />
     </Dialog>
   );
 };
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  Link,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { VerifiedUser, GppBad, GppMaybe, RemoveModerator, ArrowBack } from '@mui/icons-material';
+import { CommitDetails, CommitIdentity, SignatureStatus } from '../types';
+import RefBadges from './RefBadges';
+
+interface CommitDetailsDialogProps {
+  open: boolean;
+  hash: string | null;
+  onClose: () => void;
+}
+
+type ChipColor = 'success' | 'warning' | 'error' | 'default';
+
+const SIGNATURE_DISPLAY: Record<SignatureStatus, { label: string; color: ChipColor; icon: typeof VerifiedUser }> = {
+  G: { label: 'Good signature', color: 'success', icon: VerifiedUser },
+  U: { label: 'Good signature, unknown validity', color: 'warning', icon: GppMaybe },
+  X: { label: 'Good signature, expired', color: 'warning', icon: GppMaybe },
+  Y: { label: 'Good signature, expired key', color: 'warning', icon: GppMaybe },
+  R: { label: 'Good signature, revoked key', color: 'error', icon: GppBad },
+  E: { label: 'Signature cannot be checked', color: 'warning', icon: GppMaybe },
+  B: { label: 'Bad signature', color: 'error', icon: GppBad },
+  N: { label: 'Not signed', color: 'default', icon: RemoveModerator }
+};
+
+const CommitDetailsDialog: React.FC<CommitDetailsDialogProps> = ({ open, hash, onClose }) => {
+  // Commits visited through parent links, the last one is shown
+  const [trail, setTrail] = useState<string[]>([]);
+  const [details, setDetails] = useState<CommitDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const currentHash = trail[trail.length - 1];
+
+  useEffect(() => {
+    setTrail(open && hash ? [hash] : []);
+  }, [open, hash]);
+
+  useEffect(() => {
+    if (!currentHash) {
+      setDetails(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    window.electronAPI.git.getCommitDetails(currentHash)
+      .then(result => {
+        if (!cancelled) setDetails(result);
+      })
+      .catch(error => console.error('Failed to load commit details:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentHash]);
+
+  const renderIdentity = (label: string, identity: CommitIdentity) => (
+    <>
+      <Typography variant="body2" color="text.secondary">{label}</Typography>
+      <Typography variant="body2">
+        {identity.name} &lt;{identity.email}&gt; · {new Date(identity.date).toLocaleString()}
+      </Typography>
+    </>
+  );
+
+  const renderSection = (title: string, content: React.ReactNode) => (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>{title}</Typography>
+      {content}
+    </Box>
+  );
+
+  const signature = details ? SIGNATURE_DISPLAY[details.signature.status] || SIGNATURE_DISPLAY.N : null;
+  const SignatureIcon = signature?.icon;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        Commit
+        <Typography component="span" sx={{ fontFamily: 'monospace' }} color="text.secondary">
+          {currentHash?.substring(0, 10)}
+        </Typography>
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading && !details && (
+          <Box sx={{ textAlign: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!loading && !details && currentHash && (
+          <Alert severity="error">Failed to load commit {currentHash.substring(0, 7)}</Alert>
+        )}
+
+        {details && signature && SignatureIcon && (
+          <Box sx={{ opacity: loading ? 0.5 : 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <Typography variant="h6" sx={{ flex: 1, fontSize: '1.1rem' }}>
+                {details.subject}
+              </Typography>
+              <Chip
+                size="small"
+                color={signature.color}
+                icon={<SignatureIcon />}
+                label={signature.label}
+                title={[details.signature.signer, details.signature.key].filter(Boolean).join(' · ') || undefined}
+              />
+            </Box>
+
+            {details.body && (
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', mt: 1 }}>
+                {details.body}
+              </Typography>
+            )}
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5, mt: 2 }}>
+              <Typography variant="body2" color="text.secondary">Hash</Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{details.hash}</Typography>
+              {renderIdentity('Author', details.author)}
+              {renderIdentity('Committer', details.committer)}
+              <Typography variant="body2" color="text.secondary">
+                {details.parents.length > 1 ? 'Parents' : 'Parent'}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                {details.parents.length === 0 && (
+                  <Typography variant="body2" color="text.secondary">None (root commit)</Typography>
+                )}
+                {details.parents.map(parent => (
+                  <Link
+                    key={parent}
+                    component="button"
+                    variant="body2"
+                    sx={{ fontFamily: 'monospace' }}
+                    onClick={() => setTrail(prev => [...prev, parent])}
+                  >
+                    {parent.substring(0, 10)}
+                  </Link>
+                ))}
+              </Box>
+            </Box>
+
+            {details.refs.length > 0 && renderSection('Points here', <RefBadges refs={details.refs} />)}
+
+            {details.trailers.length > 0 && renderSection('Trailers', (
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5 }}>
+                {details.trailers.map((trailer, index) => (
+                  <React.Fragment key={index}>
+                    <Typography variant="body2" color="text.secondary">{trailer.key}</Typography>
+                    <Typography variant="body2">{trailer.value}</Typography>
+                  </React.Fragment>
+                ))}
+              </Box>
+            ))}
+
+            {renderSection('Contained in branches', details.branches.length > 0 ? (
+              <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                {details.branches.map(branch => <Chip key={branch} size="small" variant="outlined" label={branch} />)}
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary">No branch contains this commit</Typography>
+            ))}
+
+            {renderSection('Contained in tags', details.tags.length > 0 ? (
+              <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                {details.tags.map(tag => <Chip key={tag} size="small" variant="outlined" color="warning" label={tag} />)}
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary">Not released in any tag</Typography>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {trail.length > 1 && (
+          <Button startIcon={<ArrowBack />} onClick={() => setTrail(prev => prev.slice(0, -1))} sx={{ mr: 'auto' }}>
+            Back
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CommitDetailsDialog;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Box, useTheme } from '@mui/material';
+import { CommitGraphRow } from '../types';
+
+const LANE_WIDTH = 14;
+const NODE_RADIUS = 4;
+
+const LANE_COLORS = [
+  '#1f77b4',
+  '#ff7f0e',
+  '#2ca02c',
+  '#d62728',
+  '#9467bd',
+  '#8c564b',
+  '#e377c2',
+  '#17becf'
+];
+
+const laneColor = (color: number) => LANE_COLORS[color % LANE_COLORS.length];
+const laneX = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+
+interface CommitGraphProps {
+  row: CommitGraphRow;
+  isMerge?: boolean;
+  continuation?: boolean; // Draw only the lanes running past the row, e.g. beside an expanded diff
+}
+
+/**
+ * One row of the commit graph. Stretches to the height of its container so
+ * rows of any height join up; vertical positions are percentages.
+ */
+const CommitGraph: React.FC<CommitGraphProps> = ({ row, isMerge, continuation }) => {
+  const theme = useTheme();
+  const width = row.laneCount * LANE_WIDTH;
+
+  const lines = continuation
+    ? row.lines
+        .filter(line => line.segment !== 'top')
+        .map(line => ({ ...line, fromLane: line.toLane, segment: 'full' as const }))
+    : row.lines;
+
+  return (
+    <Box sx={{ width, flexShrink: 0, alignSelf: 'stretch', position: 'relative' }}>
+      <svg width={width} height="100%" style={{ position: 'absolute', top: 0, left: 0, overflow: 'visible' }}>
+        {lines.map((line, index) => (
+          <line
+            key={index}
+            x1={laneX(line.fromLane)}
+            y1={line.segment === 'bottom' ? '50%' : '0%'}
+            x2={laneX(line.toLane)}
+            y2={line.segment === 'top' ? '50%' : '100%'}
+            stroke={laneColor(line.color)}
+            strokeWidth={2}
+          />
+        ))}
+        {!continuation && (
+          <circle
+            cx={laneX(row.lane)}
+            cy="50%"
+            r={isMerge ? NODE_RADIUS - 1 : NODE_RADIUS}
+            fill={isMerge ? theme.palette.background.paper : laneColor(row.color)}
+            stroke={laneColor(row.color)}
+            strokeWidth={2}
+          />
+        )}
+      </svg>
+    </Box>
+  );
+};
+
+export default CommitGraph;
@@ -6,7 +6,6 @@ import {
   ListItem,
   ListItemText,
   Divider,
-  Chip,
   Avatar,
   Paper,
   TextField,
@@ -14,26 +13,69 @@ import {
   IconButton,
   Collapse,
   Button,
-  CircularProgress
+  CircularProgress,
+  Tooltip,
+  Badge,
+  Menu,
+  MenuItem,
+  Alert
 } from '@mui/material';
-import { Search, ExpandMore, ExpandLess, Code, ViewList, Refresh } from '@mui/icons-material';
-import { Repository, CommitWithDiff, GetCommitsOptions } from '../types';
+import { Search, ExpandMore, ExpandLess, Code, ViewList, Refresh, FilterList, InfoOutlined, MoreVert, CompareArrows } from '@mui/icons-material';
+import { Repository, CommitWithDiff, GetCommitsOptions, CommitRange, CommitDiff, CommitResult, FixupKind, GitOperationResult } from '../types';
+import DiffViewer from './DiffViewer';
+import DiffFileHeader from './DiffFileHeader';
+import CommitDetailsDialog from './CommitDetailsDialog';
+import RebaseEditorDialog from './RebaseEditorDialog';
+import RevertDialog from './RevertDialog';
+import ResetDialog from './ResetDialog';
+import CreateRefDialog, { CreateRefKind } from './CreateRefDialog';
+import CommitGraph from './CommitGraph';
+import RefBadges from './RefBadges';
+import HistoryRefPicker, { HistoryScope, scopeToOptions } from './HistoryRefPicker';
+import HistorySearchPanel, { HistoryFilters, EMPTY_FILTERS, filtersToOptions, countActiveFilters } from './HistorySearchPanel';
 
 interface CommitHistoryProps {
   currentRepository: Repository | null;
   onCommitsSelected?: (commits: CommitWithDiff[]) => void;
+  onRangeChange?: (range: CommitRange | null) => void; // Range being viewed, null for any other scope
+  onRepositoryUpdate?: () => void; // A commit action changed the repository
+  onOpenFileHistory?: (path: string) => void;
+  onBrowseFiles?: (rev: string) => void; // Open the file tree at a commit
+  onCompare?: (range?: CommitRange) => void; // Open the compare view, prefilled with the viewed range
+  focusRequest?: { hash: string } | null; // Expand and scroll to this commit, a new object for each request
 }
 
-const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onCommitsSelected }) => {
+const CommitHistory: React.FC<CommitHistoryProps> = ({
+  currentRepository,
+  onCommitsSelected,
+  onRangeChange,
+  onRepositoryUpdate,
+  onOpenFileHistory,
+  onBrowseFiles,
+  onCompare,
+  focusRequest
+}) => {
   const [commits, setCommits] = useState<CommitWithDiff[]>([]);
-  const [allMatchingCommits, setAllMatchingCommits] = useState<CommitWithDiff[]>([]);
   const [loading, setLoading] = useState(false);
   const [expandedCommits, setExpandedCommits] = useState<Set<string>>(new Set());
+  const [commitDiffs, setCommitDiffs] = useState<Map<string, CommitDiff>>(new Map());
+  const [loadingFullFiles, setLoadingFullFiles] = useState<Set<string>>(new Set());
+  const [detailsHash, setDetailsHash] = useState<string | null>(null);
+  const [actionMenu, setActionMenu] = useState<{ anchor: HTMLElement; commit: CommitWithDiff } | null>(null);
+  const [actionFailure, setActionFailure] = useState<CommitResult | null>(null);
+  const [rebaseBase, setRebaseBase] = useState<{ hash: string; subject: string } | null>(null);
+  const [revertTargets, setRevertTargets] = useState<CommitWithDiff[]>([]);
+  const [resetTarget, setResetTarget] = useState<CommitWithDiff | null>(null);
+  const [createRef, setCreateRef] = useState<{ kind: CreateRefKind; commit: CommitWithDiff } | null>(null);
   const [selectedCommits, setSelectedCommits] = useState<Set<string>>(new Set());
-  const [searchFilter, setSearchFilter] = useState('');
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
   const [diffViewMode, setDiffViewMode] = useState<'unified' | 'split'>('unified');
   const [page, setPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  const [scope, setScope] = useState<HistoryScope>({ mode: 'head' });
+  const [refOptions, setRefOptions] = useState<string[]>([]);
+  const [pendingFocus, setPendingFocus] = useState<{ hash: string; scoped: boolean } | null>(null);
   const PAGE_SIZE = 50;
 
 
@@ -43,15 +85,13 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
     setLoading(true);
     try {
       const options: GetCommitsOptions = {
-        messageFilter: searchFilter || undefined,
-        includeDiffs: true
+        ...scopeToOptions(scope),
+        ...filtersToOptions(filters),
+        includeStats: true,
+        limit: PAGE_SIZE,
+        skip: reset ? 0 : page * PAGE_SIZE
       };
 
-      if (!searchFilter) {
-        options.limit = PAGE_SIZE;
-        options.skip = reset ? 0 : page * PAGE_SIZE;
-      }
-
       console.log('Loading commits with options:', options);
       const newCommits = await window.electronAPI.git.getCommits(options);
       
@@ -60,23 +100,15 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
       
       console.log('Loaded commits:', newCommits);
 
-      if (searchFilter) {
-        // For search, load all matching commits, then display first PAGE_SIZE
-        setAllMatchingCommits(newCommits);
-        setCommits(newCommits.slice(0, PAGE_SIZE));
+      // Searches page through git the same way as normal browsing
+      if (reset) {
+        setCommits(newCommits);
         setPage(1);
-        setHasMore(newCommits.length > PAGE_SIZE);
       } else {
-        // For normal browsing, page through commits
-        if (reset) {
-          setCommits(newCommits);
-          setPage(1);
-        } else {
-          setCommits(prev => [...prev, ...newCommits]);
-          setPage(prev => prev + 1);
-        }
-        setHasMore(newCommits.length === PAGE_SIZE);
+        setCommits(prev => [...prev, ...newCommits]);
+        setPage(prev => prev + 1);
       }
+      setHasMore(newCommits.length === PAGE_SIZE);
     } catch (error) {
       if (abortSignal?.aborted) return;
       
@@ -84,14 +116,13 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
       // Show empty state on error
       if (reset) {
         setCommits([]);
-        setAllMatchingCommits([]);
       }
     } finally {
       if (!abortSignal?.aborted) {
         setLoading(false);
       }
     }
-  }, [currentRepository, page, searchFilter]);
+  }, [currentRepository, page, filters, scope]);
 
   useEffect(() => {
     const abortController = new AbortController();
@@ -99,23 +130,62 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
     console.log('CommitHistory useEffect triggered, currentRepository:', currentRepository);
     if (currentRepository) {
       console.log('Loading commits for repository:', currentRepository.path);
-      loadCommits(true, abortController.signal).catch(() => {
-        // Ignore abort errors
-      });
-    } else {
-      console.log('No current repository, clearing commits');
-      setCommits([]);
-      setAllMatchingCommits([]);
-      setPage(0);
-      setHasMore(true);
+      // Debounced so typing in the search fields reloads once
+      const timer = setTimeout(() => {
+        loadCommits(true, abortController.signal).catch(() => {
+          // Ignore abort errors
+        });
+      }, 300);
+      return () => {
+        clearTimeout(timer);
+        abortController.abort();
+      };
     }
-    
-    return () => {
-      abortController.abort();
-    };
+
+    console.log('No current repository, clearing commits');
+    setCommits([]);
+    setPage(0);
+    setHasMore(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentRepository, scope, filters]);
+
+  // Offer the repository's branches in the ref picker
+  useEffect(() => {
+    if (!currentRepository) {
+      setRefOptions([]);
+      return;
+    }
+    window.electronAPI.git.getBranches()
+      .then(branches => setRefOptions(branches.map(branch => branch.name)))
+      .catch(error => console.error('Failed to load branches:', error));
   }, [currentRepository]);
 
+  useEffect(() => {
+    onRangeChange?.(scope.mode === 'range' && scope.base && scope.head ? { base: scope.base, head: scope.head } : null);
+  }, [scope, onRangeChange]);
+
+  useEffect(() => {
+    setPendingFocus(focusRequest ? { hash: focusRequest.hash, scoped: false } : null);
+  }, [focusRequest]);
+
+  // A focused commit outside the loaded pages is shown by switching the history to it
+  useEffect(() => {
+    if (!pendingFocus || loading) return;
+
+    if (commits.some(commit => commit.hash === pendingFocus.hash)) {
+      if (!expandedCommits.has(pendingFocus.hash)) {
+        handleToggleExpand(pendingFocus.hash);
+      }
+      document.getElementById(`commit-${pendingFocus.hash}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      setPendingFocus(null);
+    } else if (!pendingFocus.scoped) {
+      setFilters(EMPTY_FILTERS);
+      setScope({ mode: 'ref', ref: pendingFocus.hash });
+      setPendingFocus({ ...pendingFocus, scoped: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingFocus, commits, loading]);
+
   useEffect(() => {
     if (onCommitsSelected) {
       const selected = commits.filter(commit => selectedCommits.has(commit.hash));
@@ -123,7 +193,106 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
     }
   }, [selectedCommits, commits, onCommitsSelected]);
 
+  // Patches are cached by commit hash, so they outlive reloads of the list
+  const loadCommitDiff = async (commitHash: string) => {
+    if (commitDiffs.has(commitHash)) return;
+
+    try {
+      const diff = await window.electronAPI.git.getCommitDiff(commitHash);
+      setCommitDiffs(prev => new Map(prev).set(commitHash, diff));
+    } catch (error) {
+      console.error('Failed to load commit diff:', error);
+    }
+  };
+
+  const handleLoadFullFile = async (commitHash: string, filename: string) => {
+    const key = `${commitHash}:${filename}`;
+    setLoadingFullFiles(prev => new Set(prev).add(key));
+    try {
+      const file = await window.electronAPI.git.getCommitFileDiff(commitHash, filename);
+      if (file) {
+        setCommitDiffs(prev => {
+          const diff = prev.get(commitHash);
+          if (!diff) return prev;
+          const files = diff.files.map(existing => (existing.filename === filename ? file : existing));
+          return new Map(prev).set(commitHash, { ...diff, files });
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load full diff:', error);
+    } finally {
+      setLoadingFullFiles(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(key);
+        return newSet;
+      });
+    }
+  };
+
+  const notifyRepositoryUpdate = () => {
+    if (onRepositoryUpdate) {
+      onRepositoryUpdate();
+    } else {
+      loadCommits(true);
+    }
+  };
+
+  const handleCreateFixup = async (commit: CommitWithDiff, kind: FixupKind) => {
+    setActionMenu(null);
+    setActionFailure(null);
+    try {
+      const result = await window.electronAPI.git.createFixupCommit(commit.hash, kind);
+      if (result.success) {
+        notifyRepositoryUpdate();
+      } else {
+        setActionFailure(result);
+      }
+    } catch (error) {
+      console.error(`Failed to create ${kind} commit:`, error);
+    }
+  };
+
+  const handleRebaseFinished = (result: GitOperationResult) => {
+    setRebaseBase(null);
+    // A rebase that stopped is continued from the operation banner
+    setActionFailure(result.success ? null : { success: false, errorMessage: result.errorMessage || 'Rebase stopped' });
+    notifyRepositoryUpdate();
+  };
+
+  // Revert the whole selection when the menu was opened on one of its commits
+  const openRevertDialog = (commit: CommitWithDiff) => {
+    setActionMenu(null);
+    setRevertTargets(selectedCommits.has(commit.hash)
+      ? commits.filter(entry => selectedCommits.has(entry.hash))
+      : [commit]);
+  };
+
+  const handleRevertFinished = (result: GitOperationResult) => {
+    setRevertTargets([]);
+    // Conflicts are resolved from the operation banner
+    setActionFailure(result.success ? null : { success: false, errorMessage: result.errorMessage });
+    notifyRepositoryUpdate();
+  };
+
+  const handleCheckoutCommit = async (commit: CommitWithDiff) => {
+    setActionMenu(null);
+    setActionFailure(null);
+    try {
+      const result = await window.electronAPI.git.checkoutCommit(commit.hash);
+      if (result.success) {
+        notifyRepositoryUpdate();
+      } else {
+        setActionFailure({ success: false, errorMessage: result.errorMessage || `Failed to check out ${commit.hash.substring(0, 7)}` });
+      }
+    } catch (error) {
+      console.error('Failed to checkout commit:', error);
+    }
+  };
+
   const handleToggleExpand = (commitHash: string) => {
+    if (!expandedCommits.has(commitHash)) {
+      loadCommitDiff(commitHash);
+    }
     setExpandedCommits(prev => {
       const newSet = new Set(prev);
       if (newSet.has(commitHash)) {
@@ -155,15 +324,54 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
     }
   };
 
-  const handleSearch = (value: string) => {
-    setSearchFilter(value);
-    // Debounce search
-    setTimeout(() => loadCommits(true), 300);
-  };
+  const activeFilterCount = countActiveFilters(filters);
 
-  const filteredCommits = commits.filter(commit =>
-    !searchFilter || commit.message.toLowerCase().includes(searchFilter.toLowerCase())
-  );
+  const renderChanges = (commitHash: string) => {
+    const diff = commitDiffs.get(commitHash);
+    if (!diff) {
+      return <CircularProgress size={20} />;
+    }
+    if (diff.files.length === 0) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          No file changes to show
+        </Typography>
+      );
+    }
+
+    return diff.files.map((file, fileIndex) => (
+      <Box key={fileIndex} sx={{ mb: 2 }}>
+        <DiffFileHeader
+          file={file}
+          onShowHistory={onOpenFileHistory ? () => onOpenFileHistory(file.filename) : undefined}
+        />
+        {file.patch && (
+          <Box sx={{ mt: 0.5 }}>
+            <DiffViewer
+              patch={file.patch}
+              filename={file.filename}
+              mode={diffViewMode}
+              maxHeight={300}
+            />
+          </Box>
+        )}
+        {file.truncated && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+            <Typography variant="caption" color="text.secondary">
+              {file.patch ? 'Diff truncated, it is too large to show in full' : 'Diff too large to show'}
+            </Typography>
+            <Button
+              size="small"
+              onClick={() => handleLoadFullFile(commitHash, file.filename)}
+              disabled={loadingFullFiles.has(`${commitHash}:${file.filename}`)}
+            >
+              Load Full Diff
+            </Button>
+          </Box>
+        )}
+      </Box>
+    ));
+  };
 
   if (!currentRepository) {
     return (
@@ -187,21 +395,37 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
           Commit History
         </Typography>
         <Box sx={{ display: 'flex', gap: 1 }}>
-          <IconButton size="small" onClick={() => setDiffViewMode(diffViewMode === 'unified' ? 'split' : 'unified')}>
-            {diffViewMode === 'unified' ? <Code /> : <ViewList />}
-          </IconButton>
+          <Tooltip title={diffViewMode === 'unified' ? 'Switch to split diff' : 'Switch to unified diff'}>
+            <IconButton size="small" onClick={() => setDiffViewMode(diffViewMode === 'unified' ? 'split' : 'unified')}>
+              {diffViewMode === 'unified' ? <Code /> : <ViewList />}
+            </IconButton>
+          </Tooltip>
+          {onCompare && (
+            <Tooltip title="Compare branches, tags or commits">
+              <IconButton
+                size="small"
+                onClick={() => onCompare(scope.mode === 'range' && scope.base && scope.head ? { base: scope.base, head: scope.head } : undefined)}
+              >
+                <CompareArrows />
+              </IconButton>
+            </Tooltip>
+          )}
           <IconButton size="small" onClick={() => loadCommits(true)}>
             <Refresh />
           </IconButton>
         </Box>
       </Box>
 
+      <Box sx={{ mb: 2, flexShrink: 0 }}>
+        <HistoryRefPicker scope={scope} refOptions={refOptions} onChange={setScope} />
+      </Box>
+
       <Box sx={{ display: 'flex', gap: 1, mb: 2, flexShrink: 0 }}>
         <TextField
           size="small"
-          placeholder="Search commits..."
-          value={searchFilter}
-          onChange={(e) => handleSearch(e.target.value)}
+          placeholder="Search commit messages..."
+          value={filters.message}
+          onChange={(e) => setFilters({ ...filters, message: e.target.value })}
           InputProps={{
             startAdornment: (
               <InputAdornment position="start">
@@ -211,24 +435,55 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
           }}
           sx={{ flex: 1 }}
         />
+        <Tooltip title="Advanced search">
+          <IconButton
+            size="small"
+            color={showAdvancedSearch ? 'primary' : 'default'}
+            onClick={() => setShowAdvancedSearch(!showAdvancedSearch)}
+          >
+            <Badge badgeContent={activeFilterCount} color="primary">
+              <FilterList />
+            </Badge>
+          </IconButton>
+        </Tooltip>
         {onCommitsSelected && (
           <Button
             size="small"
             variant={selectedCommits.size > 0 ? "contained" : "outlined"}
             onClick={handleSelectAll}
           >
-            {selectedCommits.size === filteredCommits.length && selectedCommits.size > 0
+            {selectedCommits.size === commits.length && selectedCommits.size > 0
               ? 'Deselect All'
               : 'Select All'}
           </Button>
         )}
       </Box>
 
+      <Collapse in={showAdvancedSearch} sx={{ flexShrink: 0 }}>
+        <Box sx={{ mb: 2 }}>
+          <HistorySearchPanel filters={filters} onChange={setFilters} />
+        </Box>
+      </Collapse>
+
+      {actionFailure && (
+        <Alert severity="error" onClose={() => setActionFailure(null)} sx={{ mb: 2, flexShrink: 0 }}>
+          {actionFailure.errorMessage || 'Commit failed'}
+          {actionFailure.hookFailed && actionFailure.output && (
+            <Typography component="pre" variant="body2" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', mt: 1, mb: 0 }}>
+              {actionFailure.output}
+            </Typography>
+          )}
+        </Alert>
+      )}
+
       <Paper sx={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
         <List dense>
-          {filteredCommits.map((commit, index) => (
+          {commits.map((commit, index) => (
             <React.Fragment key={commit.hash}>
-              <ListItem alignItems="flex-start">
+              <ListItem id={`commit-${commit.hash}`} alignItems="flex-start" sx={{ py: commit.graph ? 0 : undefined }}>
+                {commit.graph && (
+                  <CommitGraph row={commit.graph} isMerge={commit.parents.length > 1} />
+                )}
                 {onCommitsSelected && (
                   <input
                     type="checkbox"
@@ -238,6 +493,7 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
                   />
                 )}
                 <ListItemText
+                  sx={{ my: commit.graph ? 1 : undefined }}
                   primary={
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
                       <Typography variant="body2" sx={{ fontFamily: 'monospace', color: 'text.secondary', minWidth: 80 }}>
@@ -247,13 +503,15 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
                         {commit.message}
                       </Typography>
                       <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
-                        {commit.branch && (
-                          <Chip
-                            label={commit.branch}
-                            size="small"
-                            variant="outlined"
-                          />
-                        )}
+                        <RefBadges refs={commit.refs} />
+                        <Tooltip title="Commit details">
+                          <IconButton size="small" onClick={() => setDetailsHash(commit.hash)}>
+                            <InfoOutlined fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <IconButton size="small" onClick={(e) => setActionMenu({ anchor: e.currentTarget, commit })}>
+                          <MoreVert fontSize="small" />
+                        </IconButton>
                         <IconButton
                           size="small"
                           onClick={() => handleToggleExpand(commit.hash)}
@@ -283,52 +541,26 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
               </ListItem>
 
               <Collapse in={expandedCommits.has(commit.hash)} timeout="auto" unmountOnExit>
-                <Box sx={{ pl: 4, pr: 2, pb: 2 }}>
-                  <Typography variant="h6" sx={{ fontSize: '1rem', mb: 1 }}>
-                    Changes
-                  </Typography>
-                  {commit.diff.files.map((file, fileIndex) => (
-                    <Box key={fileIndex} sx={{ mb: 2 }}>
-                      <Typography variant="body2" sx={{ fontFamily: 'monospace', bgcolor: 'grey.100', p: 1, borderRadius: 1 }}>
-                        {file.filename} (+{file.additions} -{file.deletions})
-                      </Typography>
-                      <Box sx={{
-                        fontFamily: 'monospace',
-                        fontSize: '0.75rem',
-                        bgcolor: 'grey.50',
-                        p: 1,
-                        mt: 0.5,
-                        borderRadius: 1,
-                        maxHeight: 200,
-                        overflow: 'auto',
-                        whiteSpace: 'pre-wrap'
-                      }}>
-                        {diffViewMode === 'unified' ? file.patch : file.patch}
-                      </Box>
-                    </Box>
-                  ))}
+                <Box sx={{ display: 'flex', pl: 2 }}>
+                  {commit.graph && <CommitGraph row={commit.graph} continuation />}
+                  <Box sx={{ flex: 1, pl: 4, pr: 2, pb: 2 }}>
+                    <Typography variant="h6" sx={{ fontSize: '1rem', mb: 1 }}>
+                      Changes
+                    </Typography>
+                    {renderChanges(commit.hash)}
+                  </Box>
                 </Box>
               </Collapse>
 
-              {index < filteredCommits.length - 1 && <Divider component="li" />}
+              {/* Dividers would cut through the graph lines */}
+              {index < commits.length - 1 && !commit.graph && <Divider component="li" />}
             </React.Fragment>
           ))}
         </List>
 
         {hasMore && commits.length > 0 && (
            <Box sx={{ p: 2, textAlign: 'center' }}>
-             <Button onClick={() => {
-               if (searchFilter && allMatchingCommits.length > 0) {
-                 // For search, load more from allMatchingCommits
-                 const nextPage = page + 1;
-                 setCommits(allMatchingCommits.slice(0, nextPage * PAGE_SIZE));
-                 setPage(nextPage);
-                 setHasMore(allMatchingCommits.length > nextPage * PAGE_SIZE);
-               } else {
-                 // For normal browsing, load from git
-                 loadCommits();
-               }
-             }} disabled={loading}>
+             <Button onClick={() => loadCommits()} disabled={loading}>
                {loading ? (
                  <>
                    <CircularProgress size={16} sx={{ mr: 1 }} />
@@ -341,14 +573,116 @@ const CommitHistory: React.FC<CommitHistoryProps> = ({ currentRepository, onComm
            </Box>
          )}
 
-         {filteredCommits.length === 0 && !loading && (
+         {commits.length === 0 && !loading && (
            <Box sx={{ p: 3, textAlign: 'center' }}>
              <Typography variant="body2" color="text.secondary">
-               {searchFilter ? 'No commits match your search' : 'No commits yet'}
+               {activeFilterCount > 0 ? 'No commits match your search' : 'No commits yet'}
              </Typography>
            </Box>
          )}
       </Paper>
+
+      <Menu anchorEl={actionMenu?.anchor} open={!!actionMenu} onClose={() => setActionMenu(null)}>
+        <MenuItem onClick={() => actionMenu && handleCreateFixup(actionMenu.commit, 'fixup')}>
+          Create fixup! commit from staged changes
+        </MenuItem>
+        <MenuItem onClick={() => actionMenu && handleCreateFixup(actionMenu.commit, 'squash')}>
+          Create squash! commit from staged changes
+        </MenuItem>
+        <Divider />
+        <MenuItem onClick={() => actionMenu && openRevertDialog(actionMenu.commit)}>
+          {actionMenu && selectedCommits.has(actionMenu.commit.hash) && selectedCommits.size > 1
+            ? `Revert ${selectedCommits.size} selected commits`
+            : 'Revert commit'}
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setResetTarget(actionMenu?.commit || null);
+            setActionMenu(null);
+          }}
+        >
+          Reset current branch to here
+        </MenuItem>
+        <MenuItem onClick={() => actionMenu && handleCheckoutCommit(actionMenu.commit)}>
+          Checkout commit (detached HEAD)
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setCreateRef(actionMenu ? { kind: 'branch', commit: actionMenu.commit } : null);
+            setActionMenu(null);
+          }}
+        >
+          Create branch here
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setCreateRef(actionMenu ? { kind: 'tag', commit: actionMenu.commit } : null);
+            setActionMenu(null);
+          }}
+        >
+          Create tag here
+        </MenuItem>
+        {onBrowseFiles && (
+          <MenuItem
+            onClick={() => {
+              if (actionMenu) {
+                onBrowseFiles(actionMenu.commit.hash);
+              }
+              setActionMenu(null);
+            }}
+          >
+            Browse files at this commit
+          </MenuItem>
+        )}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            if (actionMenu) {
+              setRebaseBase({ hash: actionMenu.commit.hash, subject: actionMenu.commit.message.split('\n')[0] });
+            }
+            setActionMenu(null);
+          }}
+        >
+          Interactive rebase onto this commit
+        </MenuItem>
+      </Menu>
+
+      <RebaseEditorDialog
+        open={!!rebaseBase}
+        base={rebaseBase}
+        onClose={() => setRebaseBase(null)}
+        onFinished={handleRebaseFinished}
+      />
+
+      <RevertDialog
+        open={revertTargets.length > 0}
+        commits={revertTargets}
+        onClose={() => setRevertTargets([])}
+        onFinished={handleRevertFinished}
+      />
+
+      <ResetDialog
+        open={!!resetTarget}
+        commit={resetTarget}
+        onClose={() => setResetTarget(null)}
+        onReset={() => {
+          setResetTarget(null);
+          notifyRepositoryUpdate();
+        }}
+      />
+
+      <CreateRefDialog
+        open={!!createRef}
+        kind={createRef?.kind || 'branch'}
+        commit={createRef?.commit || null}
+        onClose={() => setCreateRef(null)}
+        onCreated={() => {
+          setCreateRef(null);
+          notifyRepositoryUpdate();
+        }}
+      />
+
+      <CommitDetailsDialog open={!!detailsHash} hash={detailsHash} onClose={() => setDetailsHash(null)} />
     </Box>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  Collapse,
+  Alert,
+  Typography
+} from '@mui/material';
+import { ExpandMore, ExpandLess } from '@mui/icons-material';
+import { CommitOptions, CommitResult } from '../types';
+
+interface CommitPanelProps {
+  stagedCount: number;
+  onCommitted: () => void;
+}
+
+const CommitPanel: React.FC<CommitPanelProps> = ({ stagedCount, onCommitted }) => {
+  const [message, setMessage] = useState('');
+  const [options, setOptions] = useState<CommitOptions>({});
+  const [showOptions, setShowOptions] = useState(false);
+  const [amendedMessage, setAmendedMessage] = useState<string | null>(null);
+  const [committing, setCommitting] = useState(false);
+  const [failure, setFailure] = useState<CommitResult | null>(null);
+
+  const toggleOption = (key: keyof CommitOptions) => (event: React.ChangeEvent<HTMLInputElement>) =>
+    setOptions(prev => ({ ...prev, [key]: event.target.checked }));
+
+  const handleAmendChange = async (amend: boolean) => {
+    setOptions(prev => ({ ...prev, amend }));
+
+    if (!amend) {
+      // Leave edited text alone, only drop the message we filled in
+      if (message === amendedMessage) setMessage('');
+      setAmendedMessage(null);
+      return;
+    }
+
+    if (message.trim()) return;
+    try {
+      const head = await window.electronAPI.git.getCommitDetails('HEAD');
+      if (head) {
+        const previous = head.body ? `${head.subject}\n\n${head.body}` : head.subject;
+        setMessage(previous);
+        setAmendedMessage(previous);
+      }
+    } catch (error) {
+      console.error('Failed to load the last commit message:', error);
+    }
+  };
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    setFailure(null);
+    try {
+      const result = await window.electronAPI.git.commit(message, {
+        ...options,
+        author: options.author?.trim() || undefined
+      });
+      if (result.success) {
+        setMessage('');
+        setAmendedMessage(null);
+        setOptions(prev => ({ ...prev, amend: false, allowEmpty: false }));
+        onCommitted();
+      } else {
+        setFailure(result);
+      }
+    } catch (error) {
+      console.error('Failed to commit:', error);
+      setFailure({ success: false, errorMessage: String(error) });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const canCommit = !committing &&
+    (!!message.trim() || !!options.amend) &&
+    (stagedCount > 0 || !!options.amend || !!options.allowEmpty);
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        multiline
+        rows={4}
+        placeholder={options.amend ? 'Leave empty to keep the last message' : 'Enter commit message...'}
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        sx={{ mb: 1 }}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={!!options.amend} onChange={(e) => handleAmendChange(e.target.checked)} />}
+          label="Amend last commit"
+        />
+        <Button
+          size="small"
+          endIcon={showOptions ? <ExpandLess /> : <ExpandMore />}
+          onClick={() => setShowOptions(!showOptions)}
+        >
+          Options
+        </Button>
+      </Box>
+
+      <Collapse in={showOptions}>
+        <Box sx={{ display: 'flex', flexDirection: 'column', mb: 1 }}>
+          <FormControlLabel
+            control={<Checkbox size="small" checked={!!options.signOff} onChange={toggleOption('signOff')} />}
+            label="Add Signed-off-by"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={!!options.sign} onChange={toggleOption('sign')} />}
+            label="Sign commit (GPG or SSH)"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={!!options.allowEmpty} onChange={toggleOption('allowEmpty')} />}
+            label="Allow empty commit"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={!!options.noVerify} onChange={toggleOption('noVerify')} />}
+            label="Skip commit hooks (--no-verify)"
+          />
+          <TextField
+            size="small"
+            label="Author"
+            placeholder="Name <email>"
+            value={options.author || ''}
+            onChange={(e) => setOptions(prev => ({ ...prev, author: e.target.value }))}
+            sx={{ mt: 1 }}
+          />
+        </Box>
+      </Collapse>
+
+      {failure && (
+        <Alert severity="error" onClose={() => setFailure(null)} sx={{ mb: 1 }}>
+          {failure.errorMessage || 'Commit failed'}
+          {failure.hookFailed && failure.output && (
+            <Typography
+              component="pre"
+              variant="body2"
+              sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', mt: 1, mb: 0, maxHeight: 200, overflow: 'auto' }}
+            >
+              {failure.output}
+            </Typography>
+          )}
+        </Alert>
+      )}
+
+      <Button
+        fullWidth
+        variant="contained"
+        disabled={!canCommit}
+        onClick={handleCommit}
+      >
+        {options.amend ? 'Amend Commit' : 'Commit Changes'}
+      </Button>
+    </Box>
+  );
+};
+
+export default CommitPanel;
@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  TextField,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tabs,
+  Tab,
+  List,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { SwapHoriz, Code, ViewList } from '@mui/icons-material';
+import { Commit, CommitRange, CompareMode, CompareResult } from '../types';
+import DiffViewer from './DiffViewer';
+import DiffFileHeader from './DiffFileHeader';
+import RefBadges from './RefBadges';
+
+interface CompareDialogProps {
+  open: boolean;
+  initialRange?: CommitRange | null; // Compared right away when given
+  onClose: () => void;
+  onShowCommit?: (hash: string) => void;
+}
+
+type CompareTab = 'files' | 'head' | 'base';
+
+const CompareDialog: React.FC<CompareDialogProps> = ({ open, initialRange, onClose, onShowCommit }) => {
+  const [base, setBase] = useState('');
+  const [head, setHead] = useState('');
+  const [mode, setMode] = useState<CompareMode>('three-dot');
+  const [refOptions, setRefOptions] = useState<string[]>([]);
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [tab, setTab] = useState<CompareTab>('files');
+  const [diffViewMode, setDiffViewMode] = useState<'unified' | 'split'>('unified');
+  const [loadingFullFiles, setLoadingFullFiles] = useState<Set<string>>(new Set());
+
+  const runCompare = useCallback(async (compareBase: string, compareHead: string, compareMode: CompareMode) => {
+    if (!compareBase || !compareHead) return;
+
+    setLoading(true);
+    try {
+      setResult(await window.electronAPI.git.compareRefs(compareBase, compareHead, compareMode));
+    } catch (error) {
+      console.error('Failed to compare revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setBase(initialRange?.base || '');
+    setHead(initialRange?.head || '');
+    setMode('three-dot');
+    setResult(null);
+    setTab('files');
+
+    Promise.all([window.electronAPI.git.getBranches(), window.electronAPI.git.getTags()])
+      .then(([branches, tags]) => setRefOptions([...branches.map(branch => branch.name), ...tags.map(tag => tag.name)]))
+      .catch(error => console.error('Failed to load refs:', error));
+
+    if (initialRange) {
+      runCompare(initialRange.base, initialRange.head, 'three-dot');
+    }
+  }, [open, initialRange, runCompare]);
+
+  const handleSwap = () => {
+    setBase(head);
+    setHead(base);
+    if (result) {
+      runCompare(head, base, mode);
+    }
+  };
+
+  const handleModeChange = (newMode: CompareMode | null) => {
+    if (!newMode) return;
+    setMode(newMode);
+    if (result) {
+      runCompare(base, head, newMode);
+    }
+  };
+
+  const handleLoadFullFile = async (filename: string) => {
+    if (!result) return;
+
+    setLoadingFullFiles(prev => new Set(prev).add(filename));
+    try {
+      const file = await window.electronAPI.git.getCompareFileDiff(result.base, result.head, result.mode, filename);
+      if (file) {
+        setResult(prev => prev && {
+          ...prev,
+          diff: { ...prev.diff, files: prev.diff.files.map(existing => (existing.filename === filename ? file : existing)) }
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load full diff:', error);
+    } finally {
+      setLoadingFullFiles(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(filename);
+        return newSet;
+      });
+    }
+  };
+
+  const renderRefInput = (label: string, value: string, setValue: (value: string) => void) => (
+    <Autocomplete
+      freeSolo
+      size="small"
+      options={refOptions}
+      inputValue={value}
+      onInputChange={(_, newValue) => setValue(newValue.trim())}
+      sx={{ flex: 1, minWidth: 160 }}
+      renderInput={(params) => (
+        <TextField {...params} label={label} onKeyDown={(e) => e.key === 'Enter' && runCompare(base, head, mode)} />
+      )}
+    />
+  );
+
+  const renderCommits = (commits: Commit[], emptyText: string) => (
+    commits.length === 0 ? (
+      <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+        {emptyText}
+      </Typography>
+    ) : (
+      <List dense>
+        {commits.map(commit => (
+          <ListItemButton key={commit.hash} disabled={!onShowCommit} onClick={() => onShowCommit?.(commit.hash)}>
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Box component="span" sx={{ fontFamily: 'monospace', color: 'text.secondary' }}>{commit.hash.substring(0, 7)}</Box>
+                  {commit.message}
+                  <RefBadges refs={commit.refs} />
+                </Box>
+              }
+              secondary={`${commit.author} • ${new Date(commit.date).toLocaleString()}`}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    )
+  );
+
+  const renderFiles = (compare: CompareResult) => (
+    compare.diff.files.length === 0 ? (
+      <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+        No file changes between {compare.base} and {compare.head}
+      </Typography>
+    ) : (
+      compare.diff.files.map(file => (
+        <Box key={file.filename} sx={{ mb: 2 }}>
+          <DiffFileHeader file={file} />
+          {file.patch && (
+            <Box sx={{ mt: 0.5 }}>
+              <DiffViewer patch={file.patch} filename={file.filename} mode={diffViewMode} maxHeight={400} />
+            </Box>
+          )}
+          {file.truncated && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+              <Typography variant="caption" color="text.secondary">
+                {file.patch ? 'Diff truncated, it is too large to show in full' : 'Diff too large to show'}
+              </Typography>
+              <Button
+                size="small"
+                onClick={() => handleLoadFullFile(file.filename)}
+                disabled={loadingFullFiles.has(file.filename)}
+              >
+                Load Full Diff
+              </Button>
+            </Box>
+          )}
+        </Box>
+      ))
+    )
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle>Compare</DialogTitle>
+      <DialogContent dividers sx={{ height: '75vh', display: 'flex', flexDirection: 'column' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          {renderRefInput('Base', base, setBase)}
+          <Tooltip title="Swap base and head">
+            <IconButton size="small" onClick={handleSwap}>
+              <SwapHoriz />
+            </IconButton>
+          </Tooltip>
+          {renderRefInput('Head', head, setHead)}
+          <ToggleButtonGroup size="small" exclusive value={mode} onChange={(_, value: CompareMode | null) => handleModeChange(value)}>
+            <ToggleButton value="three-dot" title="Changes on head since it forked from base">...</ToggleButton>
+            <ToggleButton value="two-dot" title="Differences between the two tips">..</ToggleButton>
+          </ToggleButtonGroup>
+          <Button variant="contained" onClick={() => runCompare(base, head, mode)} disabled={loading || !base || !head}>
+            Compare
+          </Button>
+        </Box>
+
+        {loading && (
+          <Box sx={{ textAlign: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!loading && result?.errorMessage && (
+          <Alert severity="error">{result.errorMessage}</Alert>
+        )}
+
+        {!loading && result && !result.errorMessage && (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                {result.diff.files.length} file{result.diff.files.length !== 1 ? 's' : ''} changed, +{result.diff.totalAdditions} -{result.diff.totalDeletions}
+                {result.mergeBase && ` • merge base ${result.mergeBase.substring(0, 7)}`}
+              </Typography>
+              <Tooltip title={diffViewMode === 'unified' ? 'Switch to split diff' : 'Switch to unified diff'}>
+                <IconButton size="small" onClick={() => setDiffViewMode(diffViewMode === 'unified' ? 'split' : 'unified')}>
+                  {diffViewMode === 'unified' ? <Code /> : <ViewList />}
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Tabs value={tab} onChange={(_, value: CompareTab) => setTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+              <Tab value="files" label={`Files (${result.diff.files.length})`} />
+              <Tab value="head" label={`Only on ${result.head} (${result.headOnly.length})`} />
+              <Tab value="base" label={`Only on ${result.base} (${result.baseOnly.length})`} />
+            </Tabs>
+            <Box sx={{ flex: 1, overflow: 'auto', pt: 1 }}>
+              {tab === 'files' && renderFiles(result)}
+              {tab === 'head' && renderCommits(result.headOnly, `${result.base} contains every commit of ${result.head}`)}
+              {tab === 'base' && renderCommits(result.baseOnly, `${result.head} contains every commit of ${result.base}`)}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CompareDialog;
@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  CircularProgress,
+  TextField
+} from '@mui/material';
+import { OperationState, ConflictFile, ConflictSide, HunkResolution, GitOperationResult } from '../types';
+
+export type OperationControl = 'continue' | 'skip' | 'abort';
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onFinished?: (action: OperationControl) => void; // Called with the control that ended the operation
+}
+
+const describeOperation = (state: OperationState): string => {
+  const head = state.head ? ` ${state.head.substring(0, 7)}` : '';
+  switch (state.type) {
+    case 'merge':
+      return `Merging${head}`;
+    case 'cherry-pick':
+      return `Cherry-picking${head}`;
+    case 'revert':
+      return `Reverting${head}`;
+    case 'rebase': {
+      const step = state.step && state.totalSteps ? ` (step ${state.step}/${state.totalSteps})` : '';
+      return `Rebasing ${state.branch || 'detached HEAD'}${step}`;
+    }
+    default:
+      return 'No operation in progress';
+  }
+};
+
+// During a rebase "ours" is the branch being rebased onto and "theirs" is the commit being replayed
+const sideLabels = (state: OperationState | null): Record<ConflictSide, string> => {
+  if (state?.type === 'rebase') {
+    return { ours: 'Upstream', theirs: 'Your commit' };
+  }
+  return { ours: 'Current (ours)', theirs: 'Incoming (theirs)' };
+};
+
+const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
+  open,
+  onClose,
+  onFinished
+}) => {
+  const [operation, setOperation] = useState<OperationState | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [conflictFile, setConflictFile] = useState<ConflictFile | null>(null);
+  const [hunkChoices, setHunkChoices] = useState<Record<number, HunkResolution>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const loadOperationState = useCallback(async () => {
+    try {
+      const state = await window.electronAPI.git.getOperationState();
+      setOperation(state);
+      setMessage(state.pendingMessage || '');
+      setSelectedFile(prev => (prev && state.conflicts.includes(prev) ? prev : state.conflicts[0] || null));
+      return state;
+    } catch (error) {
+      console.error('Failed to load operation state:', error);
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      loadOperationState();
+    } else {
+      setOperation(null);
+      setSelectedFile(null);
+    }
+  }, [open, loadOperationState]);
+
+  useEffect(() => {
+    setHunkChoices({});
+    if (!selectedFile) {
+      setConflictFile(null);
+      return;
+    }
+
+    window.electronAPI.git.getConflictFile(selectedFile)
+      .then(setConflictFile)
+      .catch(error => console.error('Failed to load conflict file:', error));
+  }, [selectedFile]);
+
+  const runAction = async (action: () => Promise<boolean>, failureMessage: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const success = await action();
+      if (!success) {
+        setError(failureMessage);
+      }
+      await loadOperationState();
+    } catch (error) {
+      console.error(failureMessage, error);
+      setError(failureMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolveFile = (side: ConflictSide) => {
+    if (!selectedFile) return;
+    runAction(() => window.electronAPI.git.resolveConflict(selectedFile, side), `Failed to take ${side} version of ${selectedFile}`);
+  };
+
+  const handleApplyHunks = () => {
+    if (!conflictFile) return;
+    const resolutions = conflictFile.hunks.map(hunk => hunkChoices[hunk.index]);
+    runAction(
+      () => window.electronAPI.git.resolveConflictHunks(conflictFile.path, resolutions),
+      `Failed to apply hunk choices to ${conflictFile.path}`
+    );
+  };
+
+  const handleMarkResolved = () => {
+    if (!selectedFile) return;
+    runAction(() => window.electronAPI.git.markResolved([selectedFile]), `Failed to mark ${selectedFile} as resolved`);
+  };
+
+  const handleControl = async (action: OperationControl) => {
+    const controls: Record<typeof action, () => Promise<GitOperationResult>> = {
+      continue: () => window.electronAPI.git.continueOperation(operation?.pendingMessage !== undefined ? message : undefined),
+      skip: window.electronAPI.git.skipOperation,
+      abort: window.electronAPI.git.abortOperation
+    };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await controls[action]();
+      const state = await loadOperationState();
+      if (!result.success && result.errorMessage) {
+        setError(result.errorMessage);
+      }
+      if (state && !state.type) {
+        onFinished?.(action);
+        onClose();
+      }
+    } catch (error) {
+      console.error('Failed to control operation:', error);
+      setError('Operation failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const labels = sideLabels(operation);
+  const allHunksChosen = !!conflictFile && conflictFile.hunks.length > 0 &&
+    conflictFile.hunks.every(hunk => hunkChoices[hunk.index]);
+
+  return (
+    <Dialog open={open} onClose={() => !loading && onClose()} maxWidth="lg" fullWidth>
+      <DialogTitle>Resolve Conflicts</DialogTitle>
+      <DialogContent>
+        {operation && (
+          <Alert severity={operation.conflicts.length > 0 ? 'warning' : 'info'} sx={{ mb: 2 }}>
+            {describeOperation(operation)}
+            {operation.type && (operation.conflicts.length > 0
+              ? ` — ${operation.conflicts.length} file${operation.conflicts.length !== 1 ? 's' : ''} with conflicts`
+              : ' — all conflicts resolved, ready to continue')}
+            {!operation.type && operation.conflicts.length > 0 &&
+              ' — these conflicts cannot be continued, for example from a cherry-pick without committing. Resolve them and commit the result.'}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {operation?.rebaseAction === 'edit' && operation.conflicts.length === 0 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Stopped to edit {operation.head?.substring(0, 7)}. Amend the commit or add new ones, then continue.
+          </Alert>
+        )}
+
+        {operation?.pendingMessage !== undefined && operation.conflicts.length === 0 && (
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            maxRows={10}
+            label={operation.rebaseAction === 'squash' ? 'Message for the squashed commit' : 'New commit message'}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, minHeight: 400 }}>
+          <Paper variant="outlined" sx={{ width: 260, flexShrink: 0, overflow: 'auto', maxHeight: 500 }}>
+            <List dense>
+              {operation?.conflicts.map((file) => (
+                <ListItemButton
+                  key={file}
+                  selected={file === selectedFile}
+                  onClick={() => setSelectedFile(file)}
+                >
+                  <ListItemText primary={file} primaryTypographyProps={{ sx: { fontFamily: 'monospace', wordBreak: 'break-all' } }} />
+                </ListItemButton>
+              ))}
+              {operation && operation.conflicts.length === 0 && (
+                <ListItemText sx={{ px: 2 }} secondary="No conflicted files" />
+              )}
+            </List>
+          </Paper>
+
+          <Box sx={{ flex: 1, minWidth: 0, overflow: 'auto', maxHeight: 500 }}>
+            {conflictFile ? (
+              <>
+                <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                  <Button size="small" variant="outlined" onClick={() => handleResolveFile('ours')} disabled={loading}>
+                    Use {labels.ours}
+                  </Button>
+                  <Button size="small" variant="outlined" onClick={() => handleResolveFile('theirs')} disabled={loading}>
+                    Use {labels.theirs}
+                  </Button>
+                  <Button size="small" onClick={handleMarkResolved} disabled={loading}>
+                    Mark Resolved
+                  </Button>
+                </Box>
+
+                {conflictFile.binary && (
+                  <Typography variant="body2" color="text.secondary">
+                    Binary file, choose one whole version.
+                  </Typography>
+                )}
+
+                {!conflictFile.binary && conflictFile.hunks.length === 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    {conflictFile.working === null
+                      ? `Deleted on one side (${labels.ours}: ${conflictFile.ours === null ? 'deleted' : 'modified'}, ${labels.theirs}: ${conflictFile.theirs === null ? 'deleted' : 'modified'}).`
+                      : 'No conflict markers left. Mark the file as resolved once it is correct.'}
+                  </Typography>
+                )}
+
+                {conflictFile.hunks.map((hunk) => (
+                  <Paper key={hunk.index} variant="outlined" sx={{ mb: 2 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', p: 1, bgcolor: 'action.hover' }}>
+                      <Typography variant="body2">
+                        Conflict {hunk.index + 1} at line {hunk.startLine}
+                      </Typography>
+                      <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={hunkChoices[hunk.index] || null}
+                        onChange={(_, value: HunkResolution | null) => {
+                          if (value) {
+                            setHunkChoices(prev => ({ ...prev, [hunk.index]: value }));
+                          }
+                        }}
+                      >
+                        <ToggleButton value="ours">{labels.ours}</ToggleButton>
+                        <ToggleButton value="theirs">{labels.theirs}</ToggleButton>
+                        <ToggleButton value="both">Both</ToggleButton>
+                      </ToggleButtonGroup>
+                    </Box>
+                    <Box sx={{ display: 'flex' }}>
+                      {(['ours', 'theirs'] as ConflictSide[]).map((side) => (
+                        <Box
+                          key={side}
+                          sx={{
+                            flex: 1,
+                            minWidth: 0,
+                            p: 1,
+                            fontFamily: 'monospace',
+                            fontSize: '0.75rem',
+                            whiteSpace: 'pre',
+                            overflow: 'auto',
+                            borderLeft: side === 'theirs' ? 1 : 0,
+                            borderColor: 'divider',
+                            bgcolor: hunkChoices[hunk.index] === side || hunkChoices[hunk.index] === 'both'
+                              ? 'success.light'
+                              : 'transparent'
+                          }}
+                        >
+                          <Typography variant="caption" sx={{ display: 'block', fontFamily: 'inherit', color: 'text.secondary' }}>
+                            {labels[side]} {side === 'ours' ? hunk.oursLabel : hunk.theirsLabel}
+                          </Typography>
+                          {hunk[side].length > 0 ? hunk[side].join('\n') : '(empty)'}
+                        </Box>
+                      ))}
+                    </Box>
+                  </Paper>
+                ))}
+
+                {conflictFile.hunks.length > 0 && (
+                  <Button variant="contained" size="small" onClick={handleApplyHunks} disabled={!allHunksChosen || loading}>
+                    Apply Choices and Mark Resolved
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                Select a conflicted file
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {loading && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button color="error" onClick={() => handleControl('abort')} disabled={loading || !operation?.type}>
+          Abort
+        </Button>
+        <Button onClick={() => handleControl('skip')} disabled={loading || !operation?.type || operation.type === 'merge'}>
+          Skip Commit
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose} disabled={loading}>
+          Close
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => handleControl('continue')}
+          disabled={loading || !operation?.type || operation.conflicts.length > 0 ||
+            (operation.pendingMessage !== undefined && !message.trim())}
+        >
+          Continue
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ConflictResolutionDialog;
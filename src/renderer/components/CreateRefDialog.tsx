@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  FormControlLabel,
+  Checkbox,
+  Alert
+} from '@mui/material';
+import { CommitWithDiff } from '../types';
+
+export type CreateRefKind = 'branch' | 'tag';
+
+interface CreateRefDialogProps {
+  open: boolean;
+  kind: CreateRefKind;
+  commit: Pick<CommitWithDiff, 'hash' | 'message'> | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const CreateRefDialog: React.FC<CreateRefDialogProps> = ({ open, kind, commit, onClose, onCreated }) => {
+  const [name, setName] = useState('');
+  const [checkout, setCheckout] = useState(true);
+  const [message, setMessage] = useState('');
+  const [sign, setSign] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setCheckout(true);
+      setMessage('');
+      setSign(false);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (!commit || !name.trim()) return;
+
+    setError(null);
+    try {
+      if (kind === 'branch') {
+        const success = await window.electronAPI.git.createBranch(name.trim(), commit.hash, checkout);
+        if (success) {
+          onCreated();
+        } else {
+          setError(`Failed to create branch ${name.trim()}`);
+        }
+        return;
+      }
+
+      const result = await window.electronAPI.git.createTag(name.trim(), commit.hash, { message, sign });
+      if (result.success) {
+        onCreated();
+      } else {
+        setError(result.errorMessage || `Failed to create tag ${name.trim()}`);
+      }
+    } catch (error) {
+      console.error(`Failed to create ${kind}:`, error);
+      setError(`Failed to create ${kind} ${name.trim()}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Create {kind === 'branch' ? 'Branch' : 'Tag'}</DialogTitle>
+      <DialogContent>
+        {commit && (
+          <Typography variant="body2" color="text.secondary" noWrap sx={{ mb: 1 }}>
+            At <Box component="span" sx={{ fontFamily: 'monospace' }}>{commit.hash.substring(0, 7)}</Box> {commit.message}
+          </Typography>
+        )}
+        <TextField
+          autoFocus
+          fullWidth
+          margin="dense"
+          label={kind === 'branch' ? 'Branch name' : 'Tag name'}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && kind === 'branch' && handleCreate()}
+        />
+        {kind === 'branch' ? (
+          <FormControlLabel
+            control={<Checkbox size="small" checked={checkout} onChange={(e) => setCheckout(e.target.checked)} />}
+            label="Check out the new branch"
+          />
+        ) : (
+          <>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              margin="dense"
+              label="Message"
+              helperText="Leave empty for a lightweight tag"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+            <FormControlLabel
+              control={<Checkbox size="small" checked={sign} onChange={(e) => setSign(e.target.checked)} />}
+              label="Sign tag (GPG or SSH)"
+            />
+          </>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleCreate} disabled={!commit || !name.trim()}>
+          Create
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateRefDialog;
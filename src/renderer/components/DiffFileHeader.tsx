@@ -0,0 +1,45 @@
+import React from 'react';
+import { Box, Chip, IconButton, Tooltip, Typography } from '@mui/material';
+import { History } from '@mui/icons-material';
+import { DiffFile } from '../types';
+import FileStatusIcon from './FileStatusIcon';
+
+interface DiffFileHeaderProps {
+  file: DiffFile;
+  onShowHistory?: () => void;
+}
+
+const DiffFileHeader: React.FC<DiffFileHeaderProps> = ({ file, onShowHistory }) => {
+  const modeChanged = !!file.oldMode && !!file.newMode && file.oldMode !== file.newMode;
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, bgcolor: 'grey.100', p: 1, borderRadius: 1 }}>
+      <FileStatusIcon state={file.changeType} />
+      <Typography variant="body2" sx={{ fontFamily: 'monospace', flex: 1, wordBreak: 'break-all' }}>
+        {file.oldFilename ? `${file.oldFilename} → ${file.filename}` : file.filename}
+      </Typography>
+      {file.oldFilename && file.similarity !== undefined && (
+        <Chip size="small" variant="outlined" label={`${file.similarity}% similar`} />
+      )}
+      {modeChanged && (
+        <Chip size="small" variant="outlined" label={`mode ${file.oldMode} → ${file.newMode}`} />
+      )}
+      {file.binary ? (
+        <Chip size="small" label="Binary" />
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+          +{file.additions} -{file.deletions}
+        </Typography>
+      )}
+      {onShowHistory && (
+        <Tooltip title="File history and blame">
+          <IconButton size="small" onClick={onShowHistory}>
+            <History fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+    </Box>
+  );
+};
+
+export default DiffFileHeader;
@@ -0,0 +1,226 @@
+import React, { useMemo } from 'react';
+import { Box } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { DiffLine, TextRange, parsePatch, pairChangedLines, toSplitRows, wordDiff } from '../utils/diffUtils';
+import { SYNTAX_COLORS, TokenType, detectLanguage, highlightLine } from '../utils/syntaxHighlight';
+
+interface DiffViewerProps {
+  patch: string;
+  filename?: string; // Used for syntax highlighting when the patch has no file headers
+  mode: 'unified' | 'split';
+  maxHeight?: number | string;
+  wordDiff?: boolean; // Highlight the changed words of paired lines, on by default
+}
+
+interface DiffColors {
+  addBackground: string;
+  addWord: string;
+  deleteBackground: string;
+  deleteWord: string;
+  hunkBackground: string;
+  emptyBackground: string;
+  gutter: string;
+  syntax: Record<TokenType, string | undefined>;
+}
+
+const LIGHT_COLORS: DiffColors = {
+  addBackground: '#e6ffec',
+  addWord: '#abf2bc',
+  deleteBackground: '#ffebe9',
+  deleteWord: '#ffc1bd',
+  hunkBackground: '#ddf4ff',
+  emptyBackground: '#f6f8fa',
+  gutter: '#6e7781',
+  syntax: SYNTAX_COLORS.light
+};
+
+const DARK_COLORS: DiffColors = {
+  addBackground: 'rgba(46, 160, 67, 0.15)',
+  addWord: 'rgba(46, 160, 67, 0.4)',
+  deleteBackground: 'rgba(248, 81, 73, 0.15)',
+  deleteWord: 'rgba(248, 81, 73, 0.4)',
+  hunkBackground: 'rgba(56, 139, 253, 0.15)',
+  emptyBackground: 'rgba(110, 118, 129, 0.1)',
+  gutter: '#8b949e',
+  syntax: SYNTAX_COLORS.dark
+};
+
+const GUTTER_WIDTH = 48;
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ patch, filename, mode, maxHeight, wordDiff: showWordDiff = true }) => {
+  const theme = useTheme();
+  const colors = theme.palette.mode === 'dark' ? DARK_COLORS : LIGHT_COLORS;
+
+  const lines = useMemo(() => parsePatch(patch, filename), [patch, filename]);
+
+  // Intra-line changes for each deleted/added line that has a counterpart
+  const wordRanges = useMemo(() => {
+    const ranges = new Map<DiffLine, TextRange[]>();
+    if (!showWordDiff) return ranges;
+    pairChangedLines(lines).forEach((addIndex, deleteIndex) => {
+      if (lines[deleteIndex].type !== 'delete') return;
+      const diff = wordDiff(lines[deleteIndex].content, lines[addIndex].content);
+      ranges.set(lines[deleteIndex], diff.old);
+      ranges.set(lines[addIndex], diff.new);
+    });
+    return ranges;
+  }, [lines, showWordDiff]);
+
+  const splitRows = useMemo(() => (mode === 'split' ? toSplitRows(lines) : []), [lines, mode]);
+
+  const lineBackground = (line?: DiffLine): string | undefined => {
+    if (!line) return colors.emptyBackground;
+    if (line.type === 'add') return colors.addBackground;
+    if (line.type === 'delete') return colors.deleteBackground;
+    if (line.type === 'hunk') return colors.hunkBackground;
+    return undefined;
+  };
+
+  const renderContent = (line: DiffLine) => {
+    const tokens = highlightLine(line.content, detectLanguage(line.filename));
+    const ranges = wordRanges.get(line) || [];
+    const wordColor = line.type === 'add' ? colors.addWord : colors.deleteWord;
+    const parts: React.ReactNode[] = [];
+    let offset = 0;
+
+    tokens.forEach((token, tokenIndex) => {
+      const tokenEnd = offset + token.text.length;
+      // Split the token at word-diff boundaries that fall inside it
+      const cuts = new Set<number>([offset, tokenEnd]);
+      for (const range of ranges) {
+        if (range.start > offset && range.start < tokenEnd) cuts.add(range.start);
+        if (range.end > offset && range.end < tokenEnd) cuts.add(range.end);
+      }
+      const points = Array.from(cuts).sort((a, b) => a - b);
+
+      for (let p = 0; p < points.length - 1; p++) {
+        const start = points[p];
+        const changed = ranges.some(range => range.start <= start && start < range.end);
+        parts.push(
+          <span
+            key={`${tokenIndex}-${start}`}
+            style={{
+              color: colors.syntax[token.type],
+              fontStyle: token.type === 'comment' ? 'italic' : undefined,
+              backgroundColor: changed ? wordColor : undefined,
+              borderRadius: changed ? 2 : undefined
+            }}
+          >
+            {token.text.substring(start - offset, points[p + 1] - offset)}
+          </span>
+        );
+      }
+      offset = tokenEnd;
+    });
+
+    return parts.length > 0 ? parts : ' ';
+  };
+
+  const gutter = (lineNumber?: number) => (
+    <Box
+      component="span"
+      sx={{
+        width: GUTTER_WIDTH,
+        flexShrink: 0,
+        pr: 1,
+        textAlign: 'right',
+        color: colors.gutter,
+        userSelect: 'none'
+      }}
+    >
+      {lineNumber ?? ''}
+    </Box>
+  );
+
+  const fullWidthRow = (line: DiffLine, key: React.Key) => (
+    <Box
+      key={key}
+      sx={{
+        display: 'flex',
+        bgcolor: lineBackground(line),
+        color: line.type === 'hunk' ? colors.gutter : 'text.secondary',
+        fontWeight: line.type === 'meta' && line.content.startsWith('diff --git') ? 'bold' : undefined,
+        px: 1
+      }}
+    >
+      {line.content}
+    </Box>
+  );
+
+  const renderUnified = () => lines.map((line, index) => {
+    if (line.type === 'hunk' || line.type === 'meta') {
+      return fullWidthRow(line, index);
+    }
+
+    return (
+      <Box key={index} sx={{ display: 'flex', bgcolor: lineBackground(line) }}>
+        {gutter(line.oldNumber)}
+        {gutter(line.newNumber)}
+        <Box component="span" sx={{ width: 16, flexShrink: 0, color: colors.gutter, userSelect: 'none' }}>
+          {line.type === 'add' ? '+' : line.type === 'delete' ? '-' : ' '}
+        </Box>
+        <Box component="span" sx={{ flex: 1 }}>
+          {renderContent(line)}
+        </Box>
+      </Box>
+    );
+  });
+
+  const splitCell = (line: DiffLine | undefined, lineNumber: number | undefined, side: 'left' | 'right') => (
+    <Box
+      sx={{
+        display: 'flex',
+        flex: 1,
+        minWidth: 0,
+        overflow: 'hidden',
+        bgcolor: line && line.type === 'context' ? undefined : lineBackground(line),
+        borderLeft: side === 'right' ? 1 : 0,
+        borderColor: 'divider'
+      }}
+    >
+      {gutter(lineNumber)}
+      <Box component="span" sx={{ flex: 1, overflowX: 'auto' }}>
+        {line ? renderContent(line) : ' '}
+      </Box>
+    </Box>
+  );
+
+  const renderSplit = () => splitRows.map((row, index) => {
+    if (row.full) {
+      return fullWidthRow(row.full, index);
+    }
+
+    return (
+      <Box key={index} sx={{ display: 'flex' }}>
+        {splitCell(row.left, row.left?.oldNumber, 'left')}
+        {splitCell(row.right, row.right?.newNumber, 'right')}
+      </Box>
+    );
+  });
+
+  return (
+    <Box
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: '0.75rem',
+        lineHeight: 1.5,
+        whiteSpace: 'pre',
+        overflow: 'auto',
+        maxHeight,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1
+      }}
+    >
+      {lines.length === 0 ? (
+        <Box sx={{ p: 1, color: 'text.secondary' }}>No changes</Box>
+      ) : (
+        <Box sx={{ minWidth: 'fit-content' }}>
+          {mode === 'split' ? renderSplit() : renderUnified()}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default DiffViewer;
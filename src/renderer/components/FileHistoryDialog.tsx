@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Link,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import { ArrowBack, History } from '@mui/icons-material';
+import { BlameCommit, BlameResult, FileHistoryEntry } from '../types';
+
+interface FileHistoryDialogProps {
+  open: boolean;
+  path: string | null;
+  onClose: () => void;
+  onShowCommit: (hash: string) => void; // Jump to the commit in the history
+}
+
+// Revision being blamed, the working tree when rev is missing
+interface BlameTarget {
+  path: string;
+  rev?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatAge = (date: Date): string => {
+  const days = Math.floor((Date.now() - new Date(date).getTime()) / DAY);
+  if (days < 1) return 'today';
+  if (days < 30) return `${days} day${days !== 1 ? 's' : ''} ago`;
+  if (days < 365) {
+    const months = Math.floor(days / 30);
+    return `${months} month${months !== 1 ? 's' : ''} ago`;
+  }
+  const years = Math.floor(days / 365);
+  return `${years} year${years !== 1 ? 's' : ''} ago`;
+};
+
+const FileHistoryDialog: React.FC<FileHistoryDialogProps> = ({ open, path, onClose, onShowCommit }) => {
+  const [history, setHistory] = useState<FileHistoryEntry[]>([]);
+  // Revisions visited through "blame prior revision", the last one is shown
+  const [trail, setTrail] = useState<BlameTarget[]>([]);
+  const [blame, setBlame] = useState<BlameResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const target = trail[trail.length - 1];
+
+  useEffect(() => {
+    setHistory([]);
+    setTrail(open && path ? [{ path }] : []);
+    if (!open || !path) return;
+
+    window.electronAPI.git.getFileHistory(path)
+      .then(setHistory)
+      .catch(error => console.error('Failed to load file history:', error));
+  }, [open, path]);
+
+  useEffect(() => {
+    if (!target) {
+      setBlame(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    window.electronAPI.git.getBlame(target.path, target.rev)
+      .then(result => {
+        if (!cancelled) setBlame(result);
+      })
+      .catch(error => console.error('Failed to load blame:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [target]);
+
+  // Newer lines get a stronger tint, scaled between the oldest and newest commit of the file
+  const heat = useMemo(() => {
+    const times = Object.values(blame?.commits || {})
+      .filter(commit => !commit.uncommitted)
+      .map(commit => new Date(commit.authorTime).getTime());
+    const oldest = Math.min(...times);
+    const newest = Math.max(...times);
+    return (commit: BlameCommit) => {
+      if (commit.uncommitted) return 1;
+      if (times.length === 0 || newest === oldest) return 0.5;
+      return (new Date(commit.authorTime).getTime() - oldest) / (newest - oldest);
+    };
+  }, [blame]);
+
+  const showRevision = (next: BlameTarget) => setTrail(prev => [...prev, next]);
+
+  const renderAnnotation = (commit: BlameCommit) => {
+    if (commit.uncommitted) {
+      return (
+        <Typography variant="caption" color="text.secondary" noWrap>
+          Not committed yet
+        </Typography>
+      );
+    }
+
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+        <Tooltip title={`${commit.summary}\n${commit.author} <${commit.authorEmail}>, ${new Date(commit.authorTime).toLocaleString()}`}>
+          <Link
+            component="button"
+            variant="caption"
+            underline="hover"
+            onClick={() => onShowCommit(commit.hash)}
+            sx={{ display: 'flex', gap: 0.5, minWidth: 0, textAlign: 'left', color: 'text.primary' }}
+          >
+            <Box component="span" sx={{ fontFamily: 'monospace', color: 'text.secondary' }}>{commit.hash.substring(0, 7)}</Box>
+            <Box component="span" sx={{ width: 90, flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {commit.author}
+            </Box>
+            <Box component="span" sx={{ width: 80, flexShrink: 0, color: 'text.secondary' }}>{formatAge(commit.authorTime)}</Box>
+            <Box component="span" sx={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{commit.summary}</Box>
+          </Link>
+        </Tooltip>
+        {commit.previousHash && commit.previousPath && (
+          <Tooltip title="Blame prior revision">
+            <IconButton
+              size="small"
+              sx={{ p: 0, ml: 'auto' }}
+              onClick={() => showRevision({ path: commit.previousPath as string, rev: commit.previousHash })}
+            >
+              <History sx={{ fontSize: 14 }} />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+    );
+  };
+
+  const renderBlame = (result: BlameResult) => (
+    <Box sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+      {result.lines.map((line, index) => {
+        const commit = result.commits[line.hash];
+        const groupStart = index === 0 || result.lines[index - 1].hash !== line.hash;
+        return (
+          <Box
+            key={line.lineNumber}
+            sx={{ display: 'flex', borderTop: groupStart && index > 0 ? 1 : 0, borderColor: 'divider' }}
+          >
+            <Box
+              sx={{
+                width: 380,
+                flexShrink: 0,
+                px: 0.5,
+                display: 'flex',
+                alignItems: 'center',
+                bgcolor: `rgba(25, 118, 210, ${(0.05 + heat(commit) * 0.3).toFixed(2)})`
+              }}
+            >
+              {groupStart && renderAnnotation(commit)}
+            </Box>
+            <Box sx={{ width: 48, flexShrink: 0, textAlign: 'right', pr: 1, color: 'text.secondary', userSelect: 'none' }}>
+              {line.lineNumber}
+            </Box>
+            <Box sx={{ whiteSpace: 'pre', flex: 1 }}>{line.content || ' '}</Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {trail.length > 1 && (
+          <IconButton size="small" onClick={() => setTrail(prev => prev.slice(0, -1))}>
+            <ArrowBack fontSize="small" />
+          </IconButton>
+        )}
+        <Box component="span" sx={{ fontFamily: 'monospace' }}>{target?.path || path}</Box>
+        <Typography component="span" color="text.secondary">
+          {target?.rev ? `at ${target.rev.substring(0, 7)}` : 'working tree'}
+        </Typography>
+        {loading && <CircularProgress size={18} />}
+      </DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, height: '70vh' }}>
+        <Paper variant="outlined" sx={{ width: 280, flexShrink: 0, overflow: 'auto' }}>
+          <List dense>
+            <ListItemButton selected={!!target && !target.rev} onClick={() => path && showRevision({ path })}>
+              <ListItemText primary="Working tree" />
+            </ListItemButton>
+            {history.map(entry => (
+              <ListItemButton
+                key={entry.hash}
+                selected={target?.rev === entry.hash}
+                onClick={() => showRevision({ path: entry.path, rev: entry.hash })}
+              >
+                <ListItemText
+                  primary={entry.subject}
+                  primaryTypographyProps={{ noWrap: true }}
+                  secondary={
+                    <>
+                      {`${entry.hash.substring(0, 7)} • ${entry.author} • ${new Date(entry.date).toLocaleDateString()}`}
+                      {entry.oldPath && (
+                        <Typography component="span" variant="caption" sx={{ display: 'block' }}>
+                          Renamed from {entry.oldPath}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        </Paper>
+
+        <Box sx={{ flex: 1, minWidth: 0, overflow: 'auto' }}>
+          {!loading && !blame && target && (
+            <Alert severity="info">
+              {target.path} does not exist {target.rev ? `at ${target.rev.substring(0, 7)}` : 'in the working tree'}
+            </Alert>
+          )}
+          {blame && renderBlame(blame)}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FileHistoryDialog;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Tooltip } from '@mui/material';
+import {
+  Edit,
+  AddCircleOutline,
+  RemoveCircleOutline,
+  DriveFileRenameOutline,
+  ContentCopy,
+  SwapHoriz,
+  FiberNew,
+  ReportProblem,
+  HelpOutline,
+  Inventory2
+} from '@mui/icons-material';
+import { FileState } from '../types';
+
+interface FileStatusIconProps {
+  state: FileState;
+  conflicted?: boolean;
+  submodule?: boolean;
+}
+
+type IconColor = 'warning' | 'success' | 'error' | 'info' | 'disabled';
+
+const STATE_DISPLAY: Record<FileState, { label: string; color: IconColor; icon: typeof Edit }> = {
+  unmodified: { label: 'Unmodified', color: 'disabled', icon: HelpOutline },
+  modified: { label: 'Modified', color: 'warning', icon: Edit },
+  'type-changed': { label: 'Type changed', color: 'warning', icon: SwapHoriz },
+  added: { label: 'Added', color: 'success', icon: AddCircleOutline },
+  deleted: { label: 'Deleted', color: 'error', icon: RemoveCircleOutline },
+  renamed: { label: 'Renamed', color: 'info', icon: DriveFileRenameOutline },
+  copied: { label: 'Copied', color: 'info', icon: ContentCopy },
+  unmerged: { label: 'Conflicted', color: 'error', icon: ReportProblem },
+  untracked: { label: 'Untracked', color: 'success', icon: FiberNew },
+  ignored: { label: 'Ignored', color: 'disabled', icon: HelpOutline }
+};
+
+const FileStatusIcon: React.FC<FileStatusIconProps> = ({ state, conflicted, submodule }) => {
+  const display = conflicted ? STATE_DISPLAY.unmerged : STATE_DISPLAY[state];
+  const Icon = submodule && !conflicted ? Inventory2 : display.icon;
+
+  return (
+    <Tooltip title={submodule ? `${display.label} submodule` : display.label}>
+      <Icon fontSize="small" color={display.color} sx={{ mr: 1, flexShrink: 0 }} />
+    </Tooltip>
+  );
+};
+
+export default FileStatusIcon;
@@ -0,0 +1,99 @@
+import React from 'react';
+import {
+  Box,
+  ToggleButton,
+  ToggleButtonGroup,
+  Autocomplete,
+  TextField,
+  Typography
+} from '@mui/material';
+import { GetCommitsOptions } from '../types';
+
+export type HistoryScope =
+  | { mode: 'head' }
+  | { mode: 'all' }
+  | { mode: 'ref'; ref: string }
+  | { mode: 'range'; base: string; head: string };
+
+/**
+ * Translate a history scope into commit query options
+ */
+export const scopeToOptions = (scope: HistoryScope): Partial<GetCommitsOptions> => {
+  switch (scope.mode) {
+    case 'all':
+      return { all: true };
+    case 'ref':
+      return scope.ref ? { branch: scope.ref } : {};
+    case 'range':
+      return scope.base && scope.head ? { range: { base: scope.base, head: scope.head } } : {};
+    default:
+      return {};
+  }
+};
+
+interface HistoryRefPickerProps {
+  scope: HistoryScope;
+  refOptions: string[]; // Suggestions, any ref or commit hash can be typed
+  onChange: (scope: HistoryScope) => void;
+}
+
+const HistoryRefPicker: React.FC<HistoryRefPickerProps> = ({ scope, refOptions, onChange }) => {
+  const handleModeChange = (mode: HistoryScope['mode'] | null) => {
+    switch (mode) {
+      case 'head':
+      case 'all':
+        onChange({ mode });
+        break;
+      case 'ref':
+        onChange({ mode, ref: '' });
+        break;
+      case 'range':
+        onChange({ mode, base: '', head: '' });
+        break;
+    }
+  };
+
+  const renderRefInput = (label: string, value: string, setValue: (value: string) => void) => (
+    <Autocomplete
+      freeSolo
+      size="small"
+      options={refOptions}
+      value={value}
+      onChange={(_, newValue) => setValue(newValue || '')}
+      sx={{ flex: 1, minWidth: 140 }}
+      renderInput={(params) => <TextField {...params} label={label} />}
+    />
+  );
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={scope.mode}
+        onChange={(_, mode: HistoryScope['mode'] | null) => handleModeChange(mode)}
+      >
+        <ToggleButton value="head">HEAD</ToggleButton>
+        <ToggleButton value="all">All Refs</ToggleButton>
+        <ToggleButton value="ref">Ref</ToggleButton>
+        <ToggleButton value="range">Range</ToggleButton>
+      </ToggleButtonGroup>
+
+      {scope.mode === 'ref' &&
+        renderRefInput('Branch, tag or commit', scope.ref, (ref) => onChange({ ...scope, ref }))}
+
+      {scope.mode === 'range' && (
+        <>
+          {renderRefInput('Base', scope.base, (base) => onChange({ ...scope, base }))}
+          <Typography variant="body2" color="text.secondary">..</Typography>
+          {renderRefInput('Head', scope.head, (head) => onChange({ ...scope, head }))}
+          <Typography variant="caption" color="text.secondary" sx={{ width: '100%' }}>
+            Commits on {scope.head || 'head'} that are not on {scope.base || 'base'}
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default HistoryRefPicker;
@@ -0,0 +1,170 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox
+} from '@mui/material';
+import { ContentSearchMode, GetCommitsOptions, MergeFilter } from '../types';
+
+export interface HistoryFilters {
+  message: string;
+  author: string;
+  committer: string;
+  since: string;
+  until: string;
+  paths: string; // Comma separated
+  content: string;
+  contentMode: ContentSearchMode;
+  merges: MergeFilter | 'all';
+  fixedStrings: boolean;
+}
+
+export const EMPTY_FILTERS: HistoryFilters = {
+  message: '',
+  author: '',
+  committer: '',
+  since: '',
+  until: '',
+  paths: '',
+  content: '',
+  contentMode: 'occurrences',
+  merges: 'all',
+  fixedStrings: false
+};
+
+const splitPaths = (paths: string) => paths.split(',').map(path => path.trim()).filter(Boolean);
+
+/**
+ * Translate the search fields into commit query options
+ */
+export const filtersToOptions = (filters: HistoryFilters): Partial<GetCommitsOptions> => {
+  const paths = splitPaths(filters.paths);
+  return {
+    messageFilter: filters.message.trim() || undefined,
+    author: filters.author.trim() || undefined,
+    committer: filters.committer.trim() || undefined,
+    since: filters.since.trim() || undefined,
+    until: filters.until.trim() || undefined,
+    paths: paths.length > 0 ? paths : undefined,
+    content: filters.content || undefined,
+    contentMode: filters.contentMode,
+    merges: filters.merges === 'all' ? undefined : filters.merges,
+    fixedStrings: filters.fixedStrings
+  };
+};
+
+/**
+ * Number of fields narrowing down the history, not counting how patterns match
+ */
+export const countActiveFilters = (filters: HistoryFilters): number =>
+  [
+    filters.message.trim(),
+    filters.author.trim(),
+    filters.committer.trim(),
+    filters.since.trim(),
+    filters.until.trim(),
+    splitPaths(filters.paths).length > 0,
+    filters.content,
+    filters.merges !== 'all'
+  ].filter(Boolean).length;
+
+interface HistorySearchPanelProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+}
+
+const HistorySearchPanel: React.FC<HistorySearchPanelProps> = ({ filters, onChange }) => {
+  const update = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: 1.5 }}>
+      <TextField
+        size="small"
+        label="Author"
+        placeholder="Name or email"
+        value={filters.author}
+        onChange={(e) => update('author', e.target.value)}
+      />
+      <TextField
+        size="small"
+        label="Committer"
+        placeholder="Name or email"
+        value={filters.committer}
+        onChange={(e) => update('committer', e.target.value)}
+      />
+      <TextField
+        size="small"
+        label="Since"
+        placeholder="2024-05-01 or 1 month ago"
+        value={filters.since}
+        onChange={(e) => update('since', e.target.value)}
+      />
+      <TextField
+        size="small"
+        label="Until"
+        placeholder="2024-06-01 or yesterday"
+        value={filters.until}
+        onChange={(e) => update('until', e.target.value)}
+      />
+      <TextField
+        size="small"
+        label="Paths"
+        placeholder="src/main, README.md"
+        helperText="Comma separated files or directories"
+        value={filters.paths}
+        onChange={(e) => update('paths', e.target.value)}
+      />
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          size="small"
+          label="Content"
+          placeholder="Function or text in the diff"
+          value={filters.content}
+          onChange={(e) => update('content', e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel>Content match</InputLabel>
+          <Select
+            label="Content match"
+            value={filters.contentMode}
+            onChange={(e) => update('contentMode', e.target.value as ContentSearchMode)}
+          >
+            <MenuItem value="occurrences">Added or removed (-S)</MenuItem>
+            <MenuItem value="diff">In changed lines (-G)</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+      <FormControl size="small">
+        <InputLabel>Merge commits</InputLabel>
+        <Select
+          label="Merge commits"
+          value={filters.merges}
+          onChange={(e) => update('merges', e.target.value as HistoryFilters['merges'])}
+        >
+          <MenuItem value="all">Include merges</MenuItem>
+          <MenuItem value="only">Merges only</MenuItem>
+          <MenuItem value="exclude">No merges</MenuItem>
+        </Select>
+      </FormControl>
+      <FormControlLabel
+        control={
+          <Checkbox
+            size="small"
+            checked={filters.fixedStrings}
+            onChange={(e) => update('fixedStrings', e.target.checked)}
+          />
+        }
+        label="Match text literally instead of as regex"
+      />
+    </Box>
+  );
+};
+
+export default HistorySearchPanel;
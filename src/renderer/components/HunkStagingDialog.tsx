@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Paper,
+  Alert
+} from '@mui/material';
+import { groupHunks, parsePatch } from '../utils/diffUtils';
+
+interface HunkStagingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  filePath: string | null;
+  staged: boolean; // Show staged changes (for unstaging) instead of working tree changes
+  onChanged: () => void;
+}
+
+const HunkStagingDialog: React.FC<HunkStagingDialogProps> = ({
+  open,
+  onClose,
+  filePath,
+  staged,
+  onChanged
+}) => {
+  const [patch, setPatch] = useState('');
+  const [selection, setSelection] = useState<{ hunkIndex: number; lines: Set<number> } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hunks = useMemo(() => groupHunks(parsePatch(patch, filePath || undefined)), [patch, filePath]);
+
+  const loadPatch = useCallback(async () => {
+    if (!filePath) return;
+    try {
+      const diff = await window.electronAPI.git.getFileDiff(filePath, staged);
+      setPatch(diff);
+      setSelection(null);
+    } catch (error) {
+      console.error('Failed to load file diff:', error);
+    }
+  }, [filePath, staged]);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      loadPatch();
+    } else {
+      setPatch('');
+    }
+  }, [open, loadPatch]);
+
+  const toggleLine = (hunkIndex: number, lineIndex: number) => {
+    setSelection(prev => {
+      // Lines can only be selected within one hunk at a time
+      const lines = new Set(prev && prev.hunkIndex === hunkIndex ? prev.lines : []);
+      if (lines.has(lineIndex)) {
+        lines.delete(lineIndex);
+      } else {
+        lines.add(lineIndex);
+      }
+      return lines.size > 0 ? { hunkIndex, lines } : null;
+    });
+  };
+
+  const handleApply = async (hunkIndex: number, lineIndices?: number[]) => {
+    if (!filePath) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const success = staged
+        ? await window.electronAPI.git.unstageHunk(filePath, hunkIndex, lineIndices)
+        : await window.electronAPI.git.stageHunk(filePath, hunkIndex, lineIndices);
+      if (!success) {
+        setError(`Failed to ${staged ? 'unstage' : 'stage'} the selected changes`);
+      }
+      await loadPatch();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to apply hunk:', error);
+      setError(`Failed to ${staged ? 'unstage' : 'stage'} the selected changes`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const action = staged ? 'Unstage' : 'Stage';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        {action} Changes
+        <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+          {filePath}
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Click added or removed lines to select them, then {action.toLowerCase()} the selection or the whole hunk.
+        </Typography>
+
+        {hunks.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No {staged ? 'staged' : 'unstaged'} changes in this file
+          </Typography>
+        )}
+
+        {hunks.map((hunk, hunkIndex) => {
+          const selectedLines = selection?.hunkIndex === hunkIndex ? selection.lines : null;
+          return (
+            <Paper key={`${hunkIndex}-${hunk.header}`} variant="outlined" sx={{ mb: 2, overflow: 'hidden' }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, bgcolor: 'action.hover' }}>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace', flex: 1, color: 'text.secondary' }}>
+                  {hunk.header}
+                </Typography>
+                <Button
+                  size="small"
+                  disabled={loading || !selectedLines}
+                  onClick={() => selectedLines && handleApply(hunkIndex, Array.from(selectedLines))}
+                >
+                  {action} {selectedLines ? selectedLines.size : 0} Line{selectedLines?.size === 1 ? '' : 's'}
+                </Button>
+                <Button size="small" variant="outlined" disabled={loading} onClick={() => handleApply(hunkIndex)}>
+                  {action} Hunk
+                </Button>
+              </Box>
+              <Box sx={{ fontFamily: 'monospace', fontSize: '0.75rem', lineHeight: 1.5, whiteSpace: 'pre', overflowX: 'auto' }}>
+                {hunk.lines.map((line, lineIndex) => {
+                  const changed = line.type === 'add' || line.type === 'delete';
+                  const isSelected = !!selectedLines?.has(lineIndex);
+                  return (
+                    <Box
+                      key={lineIndex}
+                      onClick={() => changed && toggleLine(hunkIndex, lineIndex)}
+                      sx={{
+                        display: 'flex',
+                        cursor: changed ? 'pointer' : 'default',
+                        bgcolor: line.type === 'add' ? 'rgba(46, 160, 67, 0.15)' : line.type === 'delete' ? 'rgba(248, 81, 73, 0.15)' : undefined,
+                        outline: isSelected ? 2 : 0,
+                        outlineColor: 'primary.main',
+                        outlineOffset: -2
+                      }}
+                    >
+                      <Box component="span" sx={{ width: 24, flexShrink: 0, textAlign: 'center', color: 'primary.main' }}>
+                        {isSelected ? '✓' : ''}
+                      </Box>
+                      <Box component="span" sx={{ width: 48, flexShrink: 0, pr: 1, textAlign: 'right', color: 'text.secondary' }}>
+                        {line.oldNumber ?? ''}
+                      </Box>
+                      <Box component="span" sx={{ width: 48, flexShrink: 0, pr: 1, textAlign: 'right', color: 'text.secondary' }}>
+                        {line.newNumber ?? ''}
+                      </Box>
+                      <Box component="span" sx={{ width: 16, flexShrink: 0 }}>
+                        {line.type === 'add' ? '+' : line.type === 'delete' ? '-' : ' '}
+                      </Box>
+                      <Box component="span">{line.content || ' '}</Box>
+                    </Box>
+                  );
+                })}
+              </Box>
+            </Paper>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default HunkStagingDialog;
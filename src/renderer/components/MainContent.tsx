@@ -4,53 +4,98 @@ import {
   Typography,
   Paper,
   Button,
-  TextField,
   Grid,
   Card,
   CardContent,
-  List,
-  ListItem,
-  ListItemText,
-  Divider,
   Dialog,
   DialogTitle,
   DialogContent,
-  DialogActions
+  DialogActions,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress
 } from '@mui/material';
-import { GitStatus, Repository } from '../types';
+import { GitStatus, WorkingDiffSource, Repository, OperationState, StashEntry, StashOptions, GitOperationResult, BranchInfo, GitProgress, PushOptions, PullOptions, TagPushResult } from '../types';
 import BranchManager from './BranchManager';
+import ConflictResolutionDialog from './ConflictResolutionDialog';
+import WorkingDiffDialog from './WorkingDiffDialog';
+import HunkStagingDialog from './HunkStagingDialog';
+import ChangesPanel from './ChangesPanel';
+import StashPanel from './StashPanel';
+import CommitPanel from './CommitPanel';
+import RemotesDialog from './RemotesDialog';
+import TagsDialog from './TagsDialog';
+import PushDialog from './PushDialog';
+import PullDialog from './PullDialog';
+import { getStagedFiles } from '../utils/statusUtils';
 
 interface MainContentProps {
   currentRepository: Repository | null;
   onRepositoryUpdate?: () => void;
+  onOpenFileHistory?: (path: string) => void;
+  onBrowseFiles?: () => void;
 }
 
 const MainContent: React.FC<MainContentProps> = ({
   currentRepository,
-  onRepositoryUpdate
+  onRepositoryUpdate,
+  onOpenFileHistory,
+  onBrowseFiles
 }) => {
   const [status, setStatus] = useState<GitStatus | null>(null);
-  const [commitMessage, setCommitMessage] = useState('');
-  const [diffDialogOpen, setDiffDialogOpen] = useState(false);
-  const [diffContent, setDiffContent] = useState('');
-  const [branches, setBranches] = useState<string[]>([]);
-
+  // File whose changes are shown, null for every changed file
+  const [workingDiff, setWorkingDiff] = useState<{ path: string | null; source: WorkingDiffSource } | null>(null);
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [operationState, setOperationState] = useState<OperationState | null>(null);
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  const [hunkStagingFile, setHunkStagingFile] = useState<{ path: string; staged: boolean } | null>(null);
+  const [stashes, setStashes] = useState<StashEntry[]>([]);
+  const [remotesDialogOpen, setRemotesDialogOpen] = useState(false);
+  const [tagsDialogOpen, setTagsDialogOpen] = useState(false);
+  const [pushDialogOpen, setPushDialogOpen] = useState(false);
+  const [pullDialogOpen, setPullDialogOpen] = useState(false);
+  const [networkOperation, setNetworkOperation] = useState<string | null>(null);
+  const [progress, setProgress] = useState<GitProgress | null>(null);
+  const [blockedCheckout, setBlockedCheckout] = useState<{ branch: string; files: string[] } | null>(null);
 
   // Load git status and branches when repository changes
   useEffect(() => {
     if (currentRepository) {
       loadGitStatus();
       loadBranches();
+      loadStashes();
     } else {
       setStatus(null);
       setBranches([]);
+      setOperationState(null);
+      setStashes([]);
     }
   }, [currentRepository]);
 
+  // Progress events arrive while a fetch, pull or push is running
+  useEffect(() => window.electronAPI.git.onProgress(setProgress), []);
+
+  // Changes made outside the app, such as commits from a terminal. A new
+  // repository from onRepositoryUpdate reloads branches, stashes and history.
+  useEffect(() => {
+    if (!currentRepository) return;
+    return window.electronAPI.repositories.onChanged((change) => {
+      if (change === 'status-changed') {
+        loadGitStatus();
+      } else {
+        onRepositoryUpdate?.();
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentRepository]);
+
   const loadGitStatus = async () => {
     try {
       const gitStatus = await window.electronAPI.git.getStatus();
       setStatus(gitStatus);
+      setOperationState(await window.electronAPI.git.getOperationState());
     } catch (error) {
       console.error('Failed to load git status:', error);
     }
@@ -65,6 +110,14 @@ const MainContent: React.FC<MainContentProps> = ({
     }
   };
 
+  const loadStashes = async () => {
+    try {
+      setStashes(await window.electronAPI.git.getStashes());
+    } catch (error) {
+      console.error('Failed to load stashes:', error);
+    }
+  };
+
   const handleStageFiles = async (files: string[]) => {
     try {
       await window.electronAPI.git.addFiles(files);
@@ -74,33 +127,83 @@ const MainContent: React.FC<MainContentProps> = ({
     }
   };
 
-  const handleCommit = async () => {
-    if (!commitMessage.trim()) return;
+  const handleUnstageFiles = async (files: string[]) => {
+    try {
+      await window.electronAPI.git.unstageFiles(files);
+      await loadGitStatus();
+    } catch (error) {
+      console.error('Failed to unstage files:', error);
+    }
+  };
+
+  const handleDiscardChanges = async (files: string[]) => {
+    try {
+      const success = await window.electronAPI.git.discardChanges(files);
+      if (!success) {
+        alert('Failed to discard changes');
+      }
+      await loadGitStatus();
+    } catch (error) {
+      console.error('Failed to discard changes:', error);
+    }
+  };
 
+  const handleCleanUntracked = async (files: string[]) => {
     try {
-      await window.electronAPI.git.commit(commitMessage);
-      setCommitMessage('');
-      await loadGitStatus(); // Refresh status
+      const success = await window.electronAPI.git.cleanUntracked(files);
+      if (!success) {
+        alert('Failed to delete untracked files');
+      }
+      await loadGitStatus();
     } catch (error) {
-      console.error('Failed to commit:', error);
+      console.error('Failed to delete untracked files:', error);
     }
   };
 
-  const handleBranchChange = async (branchName: string) => {
+  const handleBranchChange = async (branchName: string, stashChanges = false) => {
     try {
-      await window.electronAPI.git.checkoutBranch(branchName);
+      const result = await window.electronAPI.git.checkoutBranch(branchName, { stashChanges });
+      if (!result.success) {
+        if (result.blockingFiles && result.blockingFiles.length > 0 && !stashChanges) {
+          setBlockedCheckout({ branch: branchName, files: result.blockingFiles });
+        } else {
+          alert('Checkout failed: ' + (result.errorMessage || 'Unknown error'));
+        }
+      }
       await loadGitStatus();
       await loadBranches();
+      if (result.stashed) {
+        await loadStashes();
+      }
       onRepositoryUpdate?.();
     } catch (error) {
       console.error('Failed to checkout branch:', error);
     }
   };
 
-  const handleCreateBranch = async (branchName: string) => {
+  const handleCheckoutRemoteBranch = async (remoteBranch: string) => {
     try {
-      await window.electronAPI.git.createBranch(branchName);
+      const result = await window.electronAPI.git.checkoutRemoteBranch(remoteBranch);
+      if (!result.success) {
+        alert('Checkout failed: ' + (result.errorMessage || 'Unknown error'));
+      }
+      await loadGitStatus();
       await loadBranches();
+      onRepositoryUpdate?.();
+    } catch (error) {
+      console.error('Failed to checkout remote branch:', error);
+    }
+  };
+
+  const handleCreateBranch = async (branchName: string, startPoint?: string) => {
+    try {
+      const success = await window.electronAPI.git.createBranch(branchName, startPoint);
+      if (!success) {
+        alert(`Failed to create branch ${branchName}`);
+      }
+      await loadGitStatus();
+      await loadBranches();
+      onRepositoryUpdate?.();
     } catch (error) {
       console.error('Failed to create branch:', error);
     }
@@ -108,9 +211,14 @@ const MainContent: React.FC<MainContentProps> = ({
 
   const handleMergeBranch = async (sourceBranch: string) => {
     try {
-      await window.electronAPI.git.mergeBranch(sourceBranch);
+      const result = await window.electronAPI.git.mergeBranch(sourceBranch);
       await loadGitStatus();
       await loadBranches();
+      if (result.conflicts.length > 0) {
+        setConflictDialogOpen(true);
+      } else if (!result.success) {
+        alert('Merge failed: ' + (result.errorMessage || 'Unknown error'));
+      }
     } catch (error) {
       console.error('Failed to merge branch:', error);
     }
@@ -118,13 +226,140 @@ const MainContent: React.FC<MainContentProps> = ({
 
 
 
-  const handlePreviewDiff = async () => {
+  // Apply and pop leave conflict markers behind when the stash does not apply cleanly
+  const handleStashResult = async (result: GitOperationResult, action: string) => {
+    await loadGitStatus();
+    await loadStashes();
+    if (result.conflicts.length > 0) {
+      setConflictDialogOpen(true);
+    } else if (!result.success) {
+      alert(`${action} failed: ` + (result.errorMessage || 'Unknown error'));
+    }
+  };
+
+  const handleCreateStash = async (options: StashOptions) => {
+    try {
+      await handleStashResult(await window.electronAPI.git.createStash(options), 'Stash');
+    } catch (error) {
+      console.error('Failed to stash changes:', error);
+    }
+  };
+
+  const handleApplyStash = async (index: number) => {
+    try {
+      await handleStashResult(await window.electronAPI.git.applyStash(index), 'Apply stash');
+    } catch (error) {
+      console.error('Failed to apply stash:', error);
+    }
+  };
+
+  const handlePopStash = async (index: number) => {
+    try {
+      await handleStashResult(await window.electronAPI.git.popStash(index), 'Pop stash');
+    } catch (error) {
+      console.error('Failed to pop stash:', error);
+    }
+  };
+
+  const handleDropStash = async (index: number) => {
+    try {
+      const success = await window.electronAPI.git.dropStash(index);
+      if (!success) {
+        alert('Failed to drop stash');
+      }
+      await loadStashes();
+    } catch (error) {
+      console.error('Failed to drop stash:', error);
+    }
+  };
+
+  const handleCreateBranchFromStash = async (index: number, branchName: string) => {
+    try {
+      const result = await window.electronAPI.git.createBranchFromStash(index, branchName);
+      await handleStashResult(result, 'Create branch from stash');
+      await loadBranches();
+      onRepositoryUpdate?.();
+    } catch (error) {
+      console.error('Failed to create branch from stash:', error);
+    }
+  };
+
+  const handleFetch = async (remote?: string, prune = false) => {
+    setNetworkOperation(remote ? `Fetching ${remote}` : 'Fetching all remotes');
+    setProgress(null);
+    try {
+      const result = await window.electronAPI.git.fetch({ remote, prune });
+      if (!result.success) {
+        const failures = result.remotes
+          .filter(remoteResult => !remoteResult.success)
+          .map(remoteResult => `${remoteResult.remote}: ${remoteResult.errorMessage || 'Unknown error'}`);
+        alert('Fetch failed\n' + failures.join('\n'));
+      }
+      await loadBranches();
+      onRepositoryUpdate?.();
+    } catch (error) {
+      console.error('Failed to fetch:', error);
+    } finally {
+      setNetworkOperation(null);
+      setProgress(null);
+    }
+  };
+
+  const handlePush = async (options: PushOptions) => {
+    setNetworkOperation(`Pushing to ${options.remote}`);
+    setProgress(null);
+    try {
+      const result = await window.electronAPI.git.push(options);
+      await loadBranches();
+      onRepositoryUpdate?.();
+      return result;
+    } catch (error) {
+      console.error('Push failed:', error);
+      return null;
+    } finally {
+      setNetworkOperation(null);
+      setProgress(null);
+    }
+  };
+
+  const runTagPush = async (description: string, push: () => Promise<TagPushResult>) => {
+    setNetworkOperation(description);
+    setProgress(null);
+    try {
+      return await push();
+    } catch (error) {
+      console.error('Tag push failed:', error);
+      return null;
+    } finally {
+      setNetworkOperation(null);
+      setProgress(null);
+    }
+  };
+
+  const handlePushTags = (remote: string, names?: string[]) =>
+    runTagPush(`Pushing ${names ? names.join(', ') : 'all tags'} to ${remote}`, () => window.electronAPI.git.pushTags(remote, names));
+
+  const handleDeleteRemoteTag = (remote: string, name: string) =>
+    runTagPush(`Deleting ${name} from ${remote}`, () => window.electronAPI.git.deleteRemoteTag(remote, name));
+
+  const handlePull = async (options: PullOptions) => {
+    setNetworkOperation(`Pulling from ${options.remote}`);
+    setProgress(null);
     try {
-      const diff = await (window.electronAPI.git as any).getDiff(false); // Get unstaged diff
-      setDiffContent(diff);
-      setDiffDialogOpen(true);
+      const result = await window.electronAPI.git.pull(options);
+      await loadGitStatus();
+      await loadBranches();
+      onRepositoryUpdate?.();
+      if (result.conflicts.length > 0) {
+        setConflictDialogOpen(true);
+      }
+      return result;
     } catch (error) {
-      console.error('Failed to get diff:', error);
+      console.error('Pull failed:', error);
+      return null;
+    } finally {
+      setNetworkOperation(null);
+      setProgress(null);
     }
   };
 
@@ -167,9 +402,31 @@ const MainContent: React.FC<MainContentProps> = ({
           currentBranch={currentRepository.currentBranch}
           branches={branches}
           onBranchChange={handleBranchChange}
+          onCheckoutRemoteBranch={handleCheckoutRemoteBranch}
           onCreateBranch={handleCreateBranch}
           onMergeBranch={handleMergeBranch}
+          onBranchesChanged={() => {
+            loadBranches();
+            onRepositoryUpdate?.();
+          }}
         />
+        {operationState?.type && (
+          <Alert
+            severity="warning"
+            action={
+              <Button color="inherit" size="small" onClick={() => setConflictDialogOpen(true)}>
+                {operationState.conflicts.length > 0 ? 'Resolve' : 'Continue'}
+              </Button>
+            }
+          >
+            {operationState.type.charAt(0).toUpperCase() + operationState.type.slice(1)} in progress
+            {operationState.conflicts.length > 0
+              ? ` with ${operationState.conflicts.length} conflicted file${operationState.conflicts.length !== 1 ? 's' : ''}`
+              : operationState.pendingMessage !== undefined
+                ? ', waiting for a commit message'
+                : operationState.rebaseAction === 'edit' ? ', stopped to edit a commit' : ''}
+          </Alert>
+        )}
       </Box>
 
       <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
@@ -182,54 +439,21 @@ const MainContent: React.FC<MainContentProps> = ({
                 <Typography variant="h6" gutterBottom>
                   Changes
                 </Typography>
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Files ready to commit
-                </Typography>
-
-                {status?.staged && status.staged.length > 0 ? (
-                  <List dense>
-                    {status.staged.map((file) => (
-                      <ListItem key={file}>
-                        <ListItemText primary={file} />
-                      </ListItem>
-                    ))}
-                  </List>
-                ) : (
-                  <Typography variant="body2" color="text.secondary">
-                    No staged changes
-                  </Typography>
-                )}
-
-                <Divider sx={{ my: 2 }} />
-
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Modified files
-                </Typography>
-
-                {status?.unstaged && status.unstaged.length > 0 ? (
-                  <List dense>
-                    {status.unstaged.map((file) => (
-                      <ListItem key={file}>
-                        <ListItemText primary={file} />
-                        <Button
-                          size="small"
-                          onClick={() => handleStageFiles([file])}
-                        >
-                          Stage
-                        </Button>
-                      </ListItem>
-                    ))}
-                  </List>
-                ) : (
-                  <Typography variant="body2" color="text.secondary">
-                    No modified files
-                  </Typography>
-                )}
+                <ChangesPanel
+                  status={status}
+                  onStage={handleStageFiles}
+                  onUnstage={handleUnstageFiles}
+                  onDiscard={handleDiscardChanges}
+                  onClean={handleCleanUntracked}
+                  onOpenDiff={(file, staged) => setWorkingDiff({ path: file, source: staged ? 'staged' : 'unstaged' })}
+                  onResolveConflicts={() => setConflictDialogOpen(true)}
+                  onOpenFileHistory={onOpenFileHistory}
+                />
                 <Button
                   fullWidth
                   variant="text"
                   size="small"
-                  onClick={handlePreviewDiff}
+                  onClick={() => setWorkingDiff({ path: null, source: 'unstaged' })}
                   sx={{ mt: 1 }}
                 >
                   Preview Changes
@@ -238,6 +462,25 @@ const MainContent: React.FC<MainContentProps> = ({
             </Card>
             </Grid>
 
+            {/* Stashes */}
+            <Grid item xs={12}>
+              <Card>
+                <CardContent sx={{ maxHeight: '300px', overflow: 'auto' }}>
+                  <Typography variant="h6" gutterBottom>
+                    Stashes
+                  </Typography>
+                  <StashPanel
+                    stashes={stashes}
+                    onCreateStash={handleCreateStash}
+                    onApplyStash={handleApplyStash}
+                    onPopStash={handlePopStash}
+                    onDropStash={handleDropStash}
+                    onCreateBranch={handleCreateBranchFromStash}
+                  />
+                </CardContent>
+              </Card>
+            </Grid>
+
             {/* Commit */}
             <Grid item xs={12}>
               <Card>
@@ -245,65 +488,74 @@ const MainContent: React.FC<MainContentProps> = ({
                   <Typography variant="h6" gutterBottom>
                     Commit
                   </Typography>
-                  <TextField
-                    fullWidth
-                    multiline
-                    rows={4}
-                    placeholder="Enter commit message..."
-                    value={commitMessage}
-                    onChange={(e) => setCommitMessage(e.target.value)}
-                    sx={{ mb: 2 }}
+                  <CommitPanel
+                    stagedCount={getStagedFiles(status).length}
+                    onCommitted={() => {
+                      loadGitStatus();
+                      onRepositoryUpdate?.();
+                    }}
                   />
-                  <Button
-                    fullWidth
-                    variant="contained"
-                    disabled={!commitMessage.trim() || !status?.staged?.length}
-                    onClick={handleCommit}
-                  >
-                    Commit Changes
-                  </Button>
                   <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
                     <Button
                       fullWidth
                       variant="outlined"
-                      onClick={async () => {
-                        try {
-                          const success = await (window.electronAPI.git as any).pull();
-                          if (success) {
-                            loadGitStatus();
-                            // Optionally refresh commits
-                          } else {
-                            alert('Pull failed');
-                          }
-                        } catch (error) {
-                          console.error('Pull failed:', error);
-                          alert('Pull failed: ' + (error as Error).message);
-                        }
-                      }}
+                      disabled={!!networkOperation}
+                      onClick={() => setPullDialogOpen(true)}
                     >
                       Pull
                     </Button>
                     <Button
                       fullWidth
                       variant="outlined"
-                      onClick={async () => {
-                        try {
-                          const success = await (window.electronAPI.git as any).push();
-                          if (success) {
-                            loadGitStatus();
-                            // Optionally refresh commits
-                          } else {
-                            alert('Push failed');
-                          }
-                        } catch (error) {
-                          console.error('Push failed:', error);
-                          alert('Push failed: ' + (error as Error).message);
-                        }
-                      }}
+                      disabled={!!networkOperation}
+                      onClick={() => setPushDialogOpen(true)}
                     >
                       Push
                     </Button>
+                    <Button
+                      fullWidth
+                      variant="outlined"
+                      disabled={!!networkOperation}
+                      onClick={() => handleFetch()}
+                    >
+                      Fetch
+                    </Button>
+                    <Button
+                      fullWidth
+                      variant="text"
+                      onClick={() => setRemotesDialogOpen(true)}
+                    >
+                      Remotes
+                    </Button>
+                    <Button
+                      fullWidth
+                      variant="text"
+                      onClick={() => setTagsDialogOpen(true)}
+                    >
+                      Tags
+                    </Button>
+                    {onBrowseFiles && (
+                      <Button
+                        fullWidth
+                        variant="text"
+                        onClick={onBrowseFiles}
+                      >
+                        Files
+                      </Button>
+                    )}
                   </Box>
+                  {networkOperation && (
+                    <Box sx={{ mt: 2 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        {networkOperation}
+                        {progress ? ` • ${progress.remote ? `${progress.remote}: ` : ''}${progress.stage} ${progress.progress}%` : '...'}
+                      </Typography>
+                      <LinearProgress
+                        variant={progress ? 'determinate' : 'indeterminate'}
+                        value={progress?.progress}
+                      />
+                    </Box>
+                  )}
                 </CardContent>
               </Card>
             </Grid>
@@ -314,51 +566,98 @@ const MainContent: React.FC<MainContentProps> = ({
 
 
 
-        <Dialog
-          open={diffDialogOpen}
-          onClose={() => setDiffDialogOpen(false)}
-          maxWidth="lg"
-          fullWidth
-        >
-          <DialogTitle>Changes Preview</DialogTitle>
+        <WorkingDiffDialog
+          open={!!workingDiff}
+          filePath={workingDiff?.path || null}
+          initialSource={workingDiff?.source}
+          onClose={() => setWorkingDiff(null)}
+          onStageHunks={(file, staged) => {
+            setWorkingDiff(null);
+            setHunkStagingFile({ path: file, staged });
+          }}
+        />
+
+        <Dialog open={!!blockedCheckout} onClose={() => setBlockedCheckout(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>Cannot Switch to {blockedCheckout?.branch}</DialogTitle>
           <DialogContent>
-            <Box
-              sx={{
-                fontFamily: 'monospace',
-                fontSize: '0.875rem',
-                bgcolor: 'grey.900',
-                color: 'white',
-                p: 2,
-                borderRadius: 1,
-                overflow: 'auto',
-                maxHeight: 600,
-                '& .diff-added': { color: '#4ade80' },
-                '& .diff-removed': { color: '#f87171' },
-                '& .diff-header': { color: '#fbbf24' }
-              }}
-            >
-              {diffContent ? (
-                diffContent.split('\n').map((line, index) => (
-                  <div
-                    key={index}
-                    className={
-                      line.startsWith('+') ? 'diff-added' :
-                      line.startsWith('-') ? 'diff-removed' :
-                      line.startsWith('@@') ? 'diff-header' : ''
-                    }
-                  >
-                    {line || '\u00A0'}
-                  </div>
-                ))
-              ) : (
-                'No changes to preview'
-              )}
-            </Box>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              Your local changes to these files would be overwritten by the checkout.
+              Stash them first, then switch branches.
+            </Typography>
+            <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+              {blockedCheckout?.files.map((file) => (
+                <ListItem key={file}>
+                  <ListItemText primary={file} primaryTypographyProps={{ sx: { fontFamily: 'monospace' } }} />
+                </ListItem>
+              ))}
+            </List>
           </DialogContent>
           <DialogActions>
-            <Button onClick={() => setDiffDialogOpen(false)}>Close</Button>
+            <Button onClick={() => setBlockedCheckout(null)}>Cancel</Button>
+            <Button
+              variant="contained"
+              onClick={() => {
+                if (blockedCheckout) handleBranchChange(blockedCheckout.branch, true);
+                setBlockedCheckout(null);
+              }}
+            >
+              Stash and Switch
+            </Button>
           </DialogActions>
         </Dialog>
+
+        <PushDialog
+          open={pushDialogOpen}
+          onClose={() => setPushDialogOpen(false)}
+          branch={branches.find(branch => branch.isCurrent)}
+          busy={!!networkOperation}
+          onPush={handlePush}
+        />
+
+        <PullDialog
+          open={pullDialogOpen}
+          onClose={() => setPullDialogOpen(false)}
+          branch={branches.find(branch => branch.isCurrent)}
+          busy={!!networkOperation}
+          onPull={handlePull}
+        />
+
+        <RemotesDialog
+          open={remotesDialogOpen}
+          onClose={() => setRemotesDialogOpen(false)}
+          busy={!!networkOperation}
+          onFetch={handleFetch}
+          onChanged={loadBranches}
+        />
+
+        <TagsDialog
+          open={tagsDialogOpen}
+          onClose={() => setTagsDialogOpen(false)}
+          busy={!!networkOperation}
+          onPushTags={handlePushTags}
+          onDeleteRemoteTag={handleDeleteRemoteTag}
+          onChanged={() => onRepositoryUpdate?.()}
+        />
+
+        <HunkStagingDialog
+          open={!!hunkStagingFile}
+          onClose={() => setHunkStagingFile(null)}
+          filePath={hunkStagingFile?.path || null}
+          staged={!!hunkStagingFile?.staged}
+          onChanged={loadGitStatus}
+        />
+
+        <ConflictResolutionDialog
+          open={conflictDialogOpen}
+          onClose={() => {
+            setConflictDialogOpen(false);
+            loadGitStatus();
+          }}
+          onFinished={() => {
+            loadBranches();
+            onRepositoryUpdate?.();
+          }}
+        />
       </Box>
     </Box>
   );
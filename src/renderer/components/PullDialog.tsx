@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  TextField
+} from '@mui/material';
+import { BranchInfo, PullMode, PullOptions, PullResult, RemoteInfo } from '../types';
+
+interface PullDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branch?: BranchInfo; // Current branch
+  busy: boolean;
+  onPull: (options: PullOptions) => Promise<PullResult | null>;
+}
+
+const PullDialog: React.FC<PullDialogProps> = ({
+  open,
+  onClose,
+  branch,
+  busy,
+  onPull
+}) => {
+  const [remotes, setRemotes] = useState<RemoteInfo[]>([]);
+  const [options, setOptions] = useState<PullOptions>({ mode: 'merge', autostash: false });
+  const [result, setResult] = useState<PullResult | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setResult(null);
+    window.electronAPI.git.getRemotes()
+      .then((remoteList) => {
+        setRemotes(remoteList);
+        // Default to the upstream, "origin/feature/x" splits into the remote and branch
+        const upstream = branch?.upstream;
+        const separator = upstream ? upstream.indexOf('/') : -1;
+        setOptions(prev => ({
+          ...prev,
+          remote: separator > 0 ? upstream?.substring(0, separator) : remoteList[0]?.name,
+          branch: separator > 0 ? upstream?.substring(separator + 1) : branch?.name
+        }));
+      })
+      .catch((error) => console.error('Failed to load remotes:', error));
+  }, [open, branch?.upstream, branch?.name]);
+
+  const handlePull = async () => {
+    const pullResult = await onPull(options);
+    // Conflicts are resolved in the conflict dialog
+    if (pullResult && (pullResult.success || pullResult.conflicts.length > 0)) {
+      onClose();
+    } else {
+      setResult(pullResult);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Pull into {branch?.name}</DialogTitle>
+      <DialogContent>
+        {remotes.length === 0 ? (
+          <Alert severity="info">This repository has no remotes. Add one under Remotes first.</Alert>
+        ) : (
+          <>
+            <FormControl fullWidth size="small" sx={{ mt: 1, mb: 1 }}>
+              <InputLabel>Remote</InputLabel>
+              <Select
+                value={options.remote || ''}
+                label="Remote"
+                onChange={(e) => setOptions(prev => ({ ...prev, remote: e.target.value }))}
+              >
+                {remotes.map((remote) => (
+                  <MenuItem key={remote.name} value={remote.name}>
+                    {remote.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              fullWidth
+              size="small"
+              label="Remote Branch"
+              value={options.branch || ''}
+              onChange={(e) => setOptions(prev => ({ ...prev, branch: e.target.value }))}
+              sx={{ mb: 2 }}
+            />
+            <FormControl>
+              <FormLabel>Integrate remote changes by</FormLabel>
+              <RadioGroup
+                value={options.mode}
+                onChange={(e) => setOptions(prev => ({ ...prev, mode: e.target.value as PullMode }))}
+              >
+                <FormControlLabel value="merge" control={<Radio size="small" />} label="Merging" />
+                <FormControlLabel value="rebase" control={<Radio size="small" />} label="Rebasing local commits on top" />
+                <FormControlLabel value="ff-only" control={<Radio size="small" />} label="Fast-forwarding only" />
+              </RadioGroup>
+            </FormControl>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!options.autostash}
+                  onChange={(e) => setOptions(prev => ({ ...prev, autostash: e.target.checked }))}
+                />
+              }
+              label="Stash local changes during the pull"
+            />
+          </>
+        )}
+
+        {result && !result.success && result.conflicts.length === 0 && (
+          <Alert severity="error" sx={{ mt: 2, whiteSpace: 'pre-wrap' }}>
+            {result.errorMessage || 'Pull failed'}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" onClick={handlePull} disabled={busy || !options.remote || !options.branch?.trim()}>
+          Pull
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PullDialog;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Alert,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  Chip
+} from '@mui/material';
+import { BranchInfo, PushOptions, PushResult, RefUpdate, RemoteInfo } from '../types';
+
+interface PushDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branch?: BranchInfo; // Current branch
+  busy: boolean;
+  onPush: (options: PushOptions) => Promise<PushResult | null>;
+}
+
+const shortRef = (ref: string) => ref.replace(/^refs\/(heads|tags)\//, '');
+
+const PushDialog: React.FC<PushDialogProps> = ({
+  open,
+  onClose,
+  branch,
+  busy,
+  onPush
+}) => {
+  const [remotes, setRemotes] = useState<RemoteInfo[]>([]);
+  const [options, setOptions] = useState<PushOptions>({});
+  const [result, setResult] = useState<PushResult | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setResult(null);
+    window.electronAPI.git.getRemotes()
+      .then((remoteList) => {
+        setRemotes(remoteList);
+        // Branches without an upstream are pushed to the first remote and start tracking it
+        const upstreamRemote = branch?.upstream ? branch.upstream.split('/')[0] : undefined;
+        setOptions({
+          remote: upstreamRemote || remoteList[0]?.name,
+          setUpstream: !branch?.upstream,
+          forceWithLease: false,
+          tags: false
+        });
+      })
+      .catch((error) => console.error('Failed to load remotes:', error));
+  }, [open, branch?.upstream]);
+
+  const handlePush = async () => {
+    setResult(await onPush(options));
+  };
+
+  const renderRef = (ref: RefUpdate) => (
+    <ListItem key={`${ref.localRef}:${ref.remoteRef}`}>
+      <ListItemText
+        primary={`${shortRef(ref.localRef) || '(delete)'} → ${shortRef(ref.remoteRef)}`}
+        secondary={ref.reason ? `${ref.summary} (${ref.reason})` : ref.summary}
+      />
+      <Chip size="small" color={ref.status === 'rejected' ? 'error' : 'default'} label={ref.status} />
+    </ListItem>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Push {branch?.name}</DialogTitle>
+      <DialogContent>
+        {remotes.length === 0 ? (
+          <Alert severity="info">This repository has no remotes. Add one under Remotes first.</Alert>
+        ) : (
+          <>
+            <FormControl fullWidth size="small" sx={{ mt: 1, mb: 1 }}>
+              <InputLabel>Remote</InputLabel>
+              <Select
+                value={options.remote || ''}
+                label="Remote"
+                onChange={(e) => setOptions(prev => ({ ...prev, remote: e.target.value }))}
+              >
+                {remotes.map((remote) => (
+                  <MenuItem key={remote.name} value={remote.name}>
+                    {remote.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!options.setUpstream}
+                  onChange={(e) => setOptions(prev => ({ ...prev, setUpstream: e.target.checked }))}
+                />
+              }
+              label={`Track ${options.remote || 'the remote'}/${branch?.name || ''} as upstream`}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!options.forceWithLease}
+                  onChange={(e) => setOptions(prev => ({ ...prev, forceWithLease: e.target.checked }))}
+                />
+              }
+              label="Force with lease (overwrite the remote branch if nobody else pushed to it)"
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={!!options.tags}
+                  onChange={(e) => setOptions(prev => ({ ...prev, tags: e.target.checked }))}
+                />
+              }
+              label="Push tags"
+            />
+          </>
+        )}
+
+        {result && (
+          <Box sx={{ mt: 2 }}>
+            {result.success ? (
+              <Alert severity="success">
+                Pushed{result.tracking.upstream ? ` to ${result.tracking.upstream}` : ''}
+                {result.tracking.ahead > 0 || result.tracking.behind > 0
+                  ? ` (${result.tracking.ahead} ahead, ${result.tracking.behind} behind)`
+                  : ''}
+              </Alert>
+            ) : (
+              <Alert severity="error">
+                {result.rejectedRefs.length > 0
+                  ? 'The remote rejected the push. Pull the remote changes first, or force push with lease.'
+                  : result.errorMessage || 'Push failed'}
+              </Alert>
+            )}
+            {(result.updatedRefs.length > 0 || result.rejectedRefs.length > 0) && (
+              <List dense>
+                {result.rejectedRefs.map(renderRef)}
+                {result.updatedRefs.map(renderRef)}
+              </List>
+            )}
+            {result.noUpstream && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Pick a remote above and keep &ldquo;Track as upstream&rdquo; checked.
+              </Typography>
+            )}
+            {result.detachedHead && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Check out the branch to push, or create a branch at this commit first.
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" onClick={handlePush} disabled={busy || !options.remote}>
+          Push
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PushDialog;
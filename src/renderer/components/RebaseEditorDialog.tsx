@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  List,
+  ListItem,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { DragIndicator } from '@mui/icons-material';
+import { RebaseAction, RebaseTodoItem, GitOperationResult } from '../types';
+
+interface RebaseEditorDialogProps {
+  open: boolean;
+  base: { hash: string; subject: string } | null; // Commits after this one are rebased
+  onClose: () => void;
+  onFinished: (result: GitOperationResult) => void; // Called once the rebase ran, even if it stopped
+}
+
+const ACTIONS: { value: RebaseAction; label: string }[] = [
+  { value: 'pick', label: 'Pick' },
+  { value: 'reword', label: 'Reword' },
+  { value: 'edit', label: 'Edit' },
+  { value: 'squash', label: 'Squash' },
+  { value: 'fixup', label: 'Fixup' },
+  { value: 'drop', label: 'Drop' }
+];
+
+/**
+ * Squash and fixup fold into the previous kept commit, so the first one
+ * needs a commit to fold into
+ */
+const validateTodo = (todo: RebaseTodoItem[]): string | null => {
+  const first = todo.find(item => item.action !== 'drop');
+  if (first && (first.action === 'squash' || first.action === 'fixup')) {
+    return `"${first.subject}" cannot be ${first.action === 'squash' ? 'squashed' : 'fixed up'} without a commit before it`;
+  }
+  return null;
+};
+
+const RebaseEditorDialog: React.FC<RebaseEditorDialogProps> = ({ open, base, onClose, onFinished }) => {
+  const [todo, setTodo] = useState<RebaseTodoItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!open || !base) {
+      setTodo([]);
+      return;
+    }
+
+    setLoading(true);
+    window.electronAPI.git.getRebaseTodo(base.hash)
+      .then(setTodo)
+      .catch(error => console.error('Failed to load rebase todo:', error))
+      .finally(() => setLoading(false));
+  }, [open, base]);
+
+  const setAction = (index: number, action: RebaseAction) =>
+    setTodo(prev => prev.map((item, i) => (i === index ? { ...item, action } : item)));
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+
+    setTodo(prev => {
+      const reordered = [...prev];
+      const [moved] = reordered.splice(dragIndex, 1);
+      reordered.splice(index, 0, moved);
+      return reordered;
+    });
+    setDragIndex(index);
+  };
+
+  const handleStart = async () => {
+    if (!base) return;
+
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.git.startInteractiveRebase(base.hash, todo);
+      onFinished(result);
+    } catch (error) {
+      console.error('Failed to start interactive rebase:', error);
+      setError('Failed to start interactive rebase');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const validationError = validateTodo(todo);
+
+  return (
+    <Dialog open={open} onClose={() => !running && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>Interactive Rebase</DialogTitle>
+      <DialogContent dividers>
+        {base && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            Rewrite the commits after{' '}
+            <Box component="span" sx={{ fontFamily: 'monospace' }}>{base.hash.substring(0, 7)}</Box>
+            {' '}{base.subject}, oldest first. Drag rows to reorder them.
+          </Typography>
+        )}
+
+        {(error || validationError) && (
+          <Alert severity="error" sx={{ mb: 1 }}>
+            {error || validationError}
+          </Alert>
+        )}
+
+        {loading && (
+          <Box sx={{ textAlign: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!loading && todo.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No commits to rebase
+          </Typography>
+        )}
+
+        <List dense disablePadding>
+          {todo.map((item, index) => (
+            <ListItem
+              key={item.hash}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={() => setDragIndex(null)}
+              sx={{
+                gap: 1,
+                border: 1,
+                borderColor: 'divider',
+                borderRadius: 1,
+                mb: 0.5,
+                cursor: 'grab',
+                opacity: dragIndex === index ? 0.5 : item.action === 'drop' ? 0.6 : 1
+              }}
+            >
+              <DragIndicator fontSize="small" color="action" />
+              <Select
+                size="small"
+                value={item.action}
+                onChange={(e) => setAction(index, e.target.value as RebaseAction)}
+                sx={{ minWidth: 110 }}
+              >
+                {ACTIONS.map(action => (
+                  <MenuItem key={action.value} value={action.value}>{action.label}</MenuItem>
+                ))}
+              </Select>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }} color="text.secondary">
+                {item.hash.substring(0, 7)}
+              </Typography>
+              <Typography
+                variant="body2"
+                noWrap
+                sx={{ flex: 1, textDecoration: item.action === 'drop' ? 'line-through' : 'none' }}
+              >
+                {item.subject}
+              </Typography>
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        {running && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose} disabled={running}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleStart}
+          disabled={running || loading || todo.length === 0 || !!validationError}
+        >
+          Start Rebase
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RebaseEditorDialog;
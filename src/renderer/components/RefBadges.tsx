@@ -0,0 +1,54 @@
+import React from 'react';
+import { Box, Chip } from '@mui/material';
+import { CallSplit, Cloud, LocalOffer, GpsFixed } from '@mui/icons-material';
+import { CommitRef } from '../types';
+
+interface RefBadgesProps {
+  refs: CommitRef[];
+}
+
+// Checked out branch first, then local branches, remote branches and tags
+const ORDER: Record<CommitRef['type'], number> = { head: 0, branch: 1, remote: 2, tag: 3 };
+
+const RefBadges: React.FC<RefBadgesProps> = ({ refs }) => {
+  if (refs.length === 0) return null;
+
+  const sorted = [...refs].sort((a, b) =>
+    Number(!!b.isHead) - Number(!!a.isHead) || ORDER[a.type] - ORDER[b.type]
+  );
+
+  return (
+    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+      {sorted.map((ref) => {
+        switch (ref.type) {
+          case 'head':
+            return <Chip key="HEAD" size="small" color="error" icon={<GpsFixed />} label="HEAD (detached)" />;
+          case 'branch':
+            return (
+              <Chip
+                key={`branch:${ref.name}`}
+                size="small"
+                color="primary"
+                variant={ref.isHead ? 'filled' : 'outlined'}
+                icon={<CallSplit />}
+                label={ref.name}
+                title={ref.isHead ? 'Checked out' : undefined}
+              />
+            );
+          case 'remote':
+            return (
+              <Chip key={`remote:${ref.name}`} size="small" color="secondary" variant="outlined" icon={<Cloud />} label={ref.name} />
+            );
+          case 'tag':
+            return (
+              <Chip key={`tag:${ref.name}`} size="small" color="warning" variant="outlined" icon={<LocalOffer />} label={ref.name} />
+            );
+          default:
+            return null;
+        }
+      })}
+    </Box>
+  );
+};
+
+export default RefBadges;
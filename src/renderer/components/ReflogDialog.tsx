@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress
+} from '@mui/material';
+import { CallSplit, Restore, ContentCopy } from '@mui/icons-material';
+import { BranchInfo, ReflogEntry } from '../types';
+import ResetDialog from './ResetDialog';
+import CreateRefDialog from './CreateRefDialog';
+
+interface ReflogDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branches: BranchInfo[];
+  currentBranch?: string;
+  onChanged: () => void;
+}
+
+type ChipColor = 'default' | 'primary' | 'secondary' | 'warning' | 'error' | 'info' | 'success';
+
+// Actions that move a ref somewhere unexpected stand out
+const actionColor = (action: string): ChipColor => {
+  if (action.startsWith('reset')) return 'error';
+  if (action.startsWith('rebase')) return 'warning';
+  if (action.startsWith('checkout')) return 'info';
+  if (action.startsWith('commit')) return 'success';
+  if (action.startsWith('merge') || action.startsWith('pull')) return 'secondary';
+  return 'default';
+};
+
+const ReflogDialog: React.FC<ReflogDialogProps> = ({ open, onClose, branches, currentBranch, onChanged }) => {
+  const [ref, setRef] = useState('HEAD');
+  const [entries, setEntries] = useState<ReflogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [resetTarget, setResetTarget] = useState<{ hash: string; message: string } | null>(null);
+  const [branchTarget, setBranchTarget] = useState<{ hash: string; message: string } | null>(null);
+
+  const loadReflog = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await window.electronAPI.git.getReflog(ref));
+    } catch (error) {
+      console.error('Failed to load reflog:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ref]);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setNotice(null);
+      loadReflog();
+    }
+  }, [open, loadReflog]);
+
+  const handleChanged = async (message: string) => {
+    setNotice(message);
+    await loadReflog();
+    onChanged();
+  };
+
+  const handleCherryPick = async (entry: ReflogEntry) => {
+    if (!currentBranch) return;
+
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await window.electronAPI.git.cherryPickCommits([entry.newHash], currentBranch);
+      if (result.success) {
+        await handleChanged(`Cherry-picked ${entry.newHash.substring(0, 7)} onto ${currentBranch}`);
+      } else {
+        setError(result.errorMessage || `Failed to cherry-pick ${entry.newHash.substring(0, 7)}`);
+        onChanged();
+      }
+    } catch (error) {
+      console.error('Failed to cherry-pick reflog entry:', error);
+      setError(`Failed to cherry-pick ${entry.newHash.substring(0, 7)}`);
+    }
+  };
+
+  const asTarget = (entry: ReflogEntry) => ({ hash: entry.newHash, message: entry.subject });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Reflog</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Ref</InputLabel>
+            <Select value={ref} label="Ref" onChange={(e) => setRef(e.target.value)}>
+              <MenuItem value="HEAD">HEAD</MenuItem>
+              {branches.filter(branch => branch.isLocal).map(branch => (
+                <MenuItem key={branch.ref} value={branch.ref}>
+                  {branch.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {loading && <CircularProgress size={20} />}
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>
+            Every position {ref === 'HEAD' ? 'HEAD' : 'the branch'} had, newest first
+          </Typography>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {notice && (
+          <Alert severity="success" sx={{ mb: 1 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
+        {!loading && entries.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+            No reflog entries
+          </Typography>
+        )}
+
+        <List dense>
+          {entries.map((entry) => (
+            <ListItem key={entry.selector} sx={{ pr: 1, alignItems: 'flex-start' }}>
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }} color="text.secondary">
+                      {entry.selector}
+                    </Typography>
+                    <Chip size="small" variant="outlined" color={actionColor(entry.action)} label={entry.action} />
+                    {entry.message}
+                    {entry.lost && <Chip size="small" color="error" label="not on any branch" />}
+                  </Box>
+                }
+                secondary={
+                  <>
+                    <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                      {entry.oldHash ? entry.oldHash.substring(0, 7) : '-------'} → {entry.newHash.substring(0, 7)}
+                    </Box>
+                    {` ${entry.subject} • ${new Date(entry.date).toLocaleString()}`}
+                  </>
+                }
+              />
+              <Tooltip title="Create a branch here">
+                <IconButton size="small" onClick={() => setBranchTarget(asTarget(entry))}>
+                  <CallSplit fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Reset the current branch here">
+                <IconButton size="small" onClick={() => setResetTarget(asTarget(entry))}>
+                  <Restore fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={currentBranch ? `Cherry-pick onto ${currentBranch}` : 'Check out a branch to cherry-pick'}>
+                <span>
+                  <IconButton size="small" disabled={!currentBranch} onClick={() => handleCherryPick(entry)}>
+                    <ContentCopy fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <ResetDialog
+        open={!!resetTarget}
+        commit={resetTarget}
+        onClose={() => setResetTarget(null)}
+        onReset={() => {
+          const hash = resetTarget?.hash.substring(0, 7);
+          setResetTarget(null);
+          handleChanged(`Reset ${currentBranch || 'HEAD'} to ${hash}`);
+        }}
+      />
+
+      <CreateRefDialog
+        open={!!branchTarget}
+        kind="branch"
+        commit={branchTarget}
+        onClose={() => setBranchTarget(null)}
+        onCreated={() => {
+          const hash = branchTarget?.hash.substring(0, 7);
+          setBranchTarget(null);
+          handleChanged(`Created a branch at ${hash}`);
+        }}
+      />
+    </Dialog>
+  );
+};
+
+export default ReflogDialog;
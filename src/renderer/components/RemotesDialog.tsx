@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Alert,
+  TextField,
+  Checkbox,
+  FormControlLabel
+} from '@mui/material';
+import { Edit, Delete, CloudDownload } from '@mui/icons-material';
+import { RemoteInfo } from '../types';
+
+interface RemotesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  busy: boolean; // A fetch, pull or push is running
+  onFetch: (remote: string | undefined, prune: boolean) => void;
+  onChanged: () => void;
+}
+
+interface RemoteForm {
+  mode: 'add' | 'edit';
+  originalName: string;
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+const RemotesDialog: React.FC<RemotesDialogProps> = ({
+  open,
+  onClose,
+  busy,
+  onFetch,
+  onChanged
+}) => {
+  const [remotes, setRemotes] = useState<RemoteInfo[]>([]);
+  const [prune, setPrune] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RemoteForm | null>(null);
+  const [removeTarget, setRemoveTarget] = useState<RemoteInfo | null>(null);
+
+  const loadRemotes = useCallback(async () => {
+    try {
+      setRemotes(await window.electronAPI.git.getRemotes());
+    } catch (error) {
+      console.error('Failed to load remotes:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      loadRemotes();
+    }
+  }, [open, loadRemotes]);
+
+  const handleSave = async () => {
+    if (!form || !form.name.trim() || !form.fetchUrl.trim()) return;
+
+    const name = form.name.trim();
+    const fetchUrl = form.fetchUrl.trim();
+    const pushUrl = form.pushUrl.trim();
+    setError(null);
+    try {
+      let success = true;
+      if (form.mode === 'add') {
+        success = await window.electronAPI.git.addRemote(name, fetchUrl);
+      } else {
+        const original = remotes.find(remote => remote.name === form.originalName);
+        if (name !== form.originalName) {
+          success = await window.electronAPI.git.renameRemote(form.originalName, name);
+        }
+        if (success && fetchUrl !== original?.fetchUrl) {
+          success = await window.electronAPI.git.setRemoteUrl(name, fetchUrl);
+        }
+      }
+      // The push URL follows the fetch URL unless it is set separately
+      if (success && pushUrl && pushUrl !== fetchUrl) {
+        success = await window.electronAPI.git.setRemoteUrl(name, pushUrl, true);
+      }
+      if (!success) {
+        setError(`Failed to save remote ${name}`);
+      }
+      setForm(null);
+      await loadRemotes();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to save remote:', error);
+      setError(`Failed to save remote ${name}`);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget) return;
+
+    const name = removeTarget.name;
+    setRemoveTarget(null);
+    setError(null);
+    try {
+      if (!(await window.electronAPI.git.removeRemote(name))) {
+        setError(`Failed to remove remote ${name}`);
+      }
+      await loadRemotes();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to remove remote:', error);
+      setError(`Failed to remove remote ${name}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Remotes</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {remotes.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No remotes configured
+          </Typography>
+        ) : (
+          <List dense>
+            {remotes.map((remote) => (
+              <ListItem key={remote.name} sx={{ pr: 1 }}>
+                <ListItemText
+                  primary={remote.name}
+                  secondary={
+                    remote.pushUrl && remote.pushUrl !== remote.fetchUrl
+                      ? `${remote.fetchUrl} (fetch) • ${remote.pushUrl} (push)`
+                      : remote.fetchUrl
+                  }
+                />
+                <Tooltip title="Fetch">
+                  <span>
+                    <IconButton size="small" disabled={busy} onClick={() => onFetch(remote.name, prune)}>
+                      <CloudDownload fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Edit">
+                  <IconButton
+                    size="small"
+                    onClick={() => setForm({
+                      mode: 'edit',
+                      originalName: remote.name,
+                      name: remote.name,
+                      fetchUrl: remote.fetchUrl,
+                      pushUrl: remote.pushUrl !== remote.fetchUrl ? remote.pushUrl : ''
+                    })}
+                  >
+                    <Edit fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Remove">
+                  <IconButton size="small" color="error" onClick={() => setRemoveTarget(remote)}>
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+          <Button size="small" onClick={() => setForm({ mode: 'add', originalName: '', name: '', fetchUrl: '', pushUrl: '' })}>
+            Add Remote
+          </Button>
+          <Box sx={{ flex: 1 }} />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={prune} onChange={(e) => setPrune(e.target.checked)} />}
+            label="Prune deleted branches"
+          />
+          <Button size="small" variant="outlined" disabled={busy || remotes.length === 0} onClick={() => onFetch(undefined, prune)}>
+            Fetch All
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <Dialog open={!!form} onClose={() => setForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{form?.mode === 'add' ? 'Add Remote' : `Edit ${form?.originalName}`}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            fullWidth
+            value={form?.name || ''}
+            onChange={(e) => setForm(prev => prev && { ...prev, name: e.target.value })}
+          />
+          <TextField
+            margin="dense"
+            label="URL"
+            fullWidth
+            value={form?.fetchUrl || ''}
+            onChange={(e) => setForm(prev => prev && { ...prev, fetchUrl: e.target.value })}
+          />
+          <TextField
+            margin="dense"
+            label="Push URL (optional)"
+            fullWidth
+            value={form?.pushUrl || ''}
+            onChange={(e) => setForm(prev => prev && { ...prev, pushUrl: e.target.value })}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!form?.name.trim() || !form?.fetchUrl.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!removeTarget} onClose={() => setRemoveTarget(null)}>
+        <DialogTitle>Remove Remote</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            Remove {removeTarget?.name}? Its remote-tracking branches are deleted as well.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRemoveTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleRemove}>
+            Remove
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+};
+
+export default RemotesDialog;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { CommitWithDiff, ResetMode, ResetPreview } from '../types';
+
+interface ResetDialogProps {
+  open: boolean;
+  commit: Pick<CommitWithDiff, 'hash' | 'message'> | null;
+  onClose: () => void;
+  onReset: () => void;
+}
+
+const MODES: { value: ResetMode; label: string; description: string }[] = [
+  { value: 'soft', label: 'Soft', description: 'Keep the changes of the removed commits staged' },
+  { value: 'mixed', label: 'Mixed', description: 'Keep the changes of the removed commits unstaged' },
+  { value: 'hard', label: 'Hard', description: 'Discard the removed commits and all uncommitted changes to tracked files' }
+];
+
+const ResetDialog: React.FC<ResetDialogProps> = ({ open, commit, onClose, onReset }) => {
+  const [mode, setMode] = useState<ResetMode>('mixed');
+  const [preview, setPreview] = useState<ResetPreview | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMode('mixed');
+    setError(null);
+    setPreview(null);
+    if (!open || !commit) return;
+
+    window.electronAPI.git.getResetPreview(commit.hash)
+      .then(setPreview)
+      .catch(error => console.error('Failed to preview reset:', error));
+  }, [open, commit]);
+
+  const handleReset = async () => {
+    if (!commit) return;
+
+    setRunning(true);
+    setError(null);
+    try {
+      const success = await window.electronAPI.git.resetToCommit(commit.hash, mode);
+      if (success) {
+        onReset();
+      } else {
+        setError('Reset failed');
+      }
+    } catch (error) {
+      console.error('Failed to reset:', error);
+      setError('Reset failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const lostCommits = preview?.commits.filter(entry => entry.unreachable) || [];
+  const hardLosses = mode === 'hard' && preview && (lostCommits.length > 0 || preview.changedFiles.length > 0);
+
+  return (
+    <Dialog open={open} onClose={() => !running && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>Reset Current Branch</DialogTitle>
+      <DialogContent>
+        {commit && (
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            Move the current branch to{' '}
+            <Box component="span" sx={{ fontFamily: 'monospace' }}>{commit.hash.substring(0, 7)}</Box>
+            {' '}{commit.message}
+          </Typography>
+        )}
+
+        <RadioGroup value={mode} onChange={(e) => setMode(e.target.value as ResetMode)}>
+          {MODES.map(option => (
+            <FormControlLabel
+              key={option.value}
+              value={option.value}
+              control={<Radio size="small" />}
+              label={
+                <Box>
+                  <Typography variant="body2">{option.label}</Typography>
+                  <Typography variant="caption" color="text.secondary">{option.description}</Typography>
+                </Box>
+              }
+            />
+          ))}
+        </RadioGroup>
+
+        {!preview && open && (
+          <Box sx={{ textAlign: 'center', p: 1 }}>
+            <CircularProgress size={20} />
+          </Box>
+        )}
+
+        {preview && preview.commits.length > 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            The branch will no longer contain {preview.commits.length} commit{preview.commits.length !== 1 ? 's' : ''}
+            {lostCommits.length > 0 && `, ${lostCommits.length} of them on no other branch or tag`}.
+          </Typography>
+        )}
+
+        {hardLosses && (
+          <Alert severity="warning" sx={{ mt: 1 }}>
+            {lostCommits.length > 0 && (
+              <>
+                <Typography variant="body2">Commits only reachable from this branch:</Typography>
+                <Box component="ul" sx={{ my: 0.5, pl: 2 }}>
+                  {lostCommits.map(entry => (
+                    <li key={entry.hash}>
+                      <Typography variant="body2">
+                        <Box component="span" sx={{ fontFamily: 'monospace' }}>{entry.hash.substring(0, 7)}</Box> {entry.subject}
+                      </Typography>
+                    </li>
+                  ))}
+                </Box>
+              </>
+            )}
+            {preview.changedFiles.length > 0 && (
+              <>
+                <Typography variant="body2">Uncommitted changes that will be discarded:</Typography>
+                <Box component="ul" sx={{ my: 0.5, pl: 2 }}>
+                  {preview.changedFiles.map(file => (
+                    <li key={file}>
+                      <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{file}</Typography>
+                    </li>
+                  ))}
+                </Box>
+              </>
+            )}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {running && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose} disabled={running}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={mode === 'hard' ? 'error' : 'primary'}
+          onClick={handleReset}
+          disabled={running || !commit || !preview}
+        >
+          {hardLosses ? 'Discard and Reset' : 'Reset'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ResetDialog;
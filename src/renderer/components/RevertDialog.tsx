@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { CommitWithDiff, GitOperationResult } from '../types';
+
+interface RevertDialogProps {
+  open: boolean;
+  commits: CommitWithDiff[];
+  onClose: () => void;
+  onFinished: (result: GitOperationResult) => void; // Called once the revert ran, even if it stopped on conflicts
+}
+
+const RevertDialog: React.FC<RevertDialogProps> = ({ open, commits, onClose, onFinished }) => {
+  const [mainline, setMainline] = useState(1);
+  const [noCommit, setNoCommit] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setMainline(1);
+      setNoCommit(false);
+      setError(null);
+    }
+  }, [open]);
+
+  // Git applies one mainline to every merge in the list
+  const merges = commits.filter(commit => commit.parents.length > 1);
+  const parentCount = Math.max(0, ...merges.map(commit => commit.parents.length));
+
+  const handleRevert = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.git.revertCommits(
+        commits.map(commit => commit.hash),
+        { mainline: merges.length > 0 ? mainline : undefined, noCommit }
+      );
+      if (!result.success && result.conflicts.length === 0) {
+        setError(result.errorMessage || 'Revert failed');
+      } else {
+        onFinished(result);
+      }
+    } catch (error) {
+      console.error('Failed to revert commits:', error);
+      setError('Revert failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={() => !running && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>Revert {commits.length === 1 ? 'Commit' : `${commits.length} Commits`}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          New commits undo these changes, newest first:
+        </Typography>
+        <Box sx={{ mb: 2, maxHeight: 200, overflow: 'auto' }}>
+          {commits.map(commit => (
+            <Typography key={commit.hash} variant="body2" noWrap>
+              <Box component="span" sx={{ fontFamily: 'monospace', color: 'text.secondary', mr: 1 }}>
+                {commit.hash.substring(0, 7)}
+              </Box>
+              {commit.message}
+            </Typography>
+          ))}
+        </Box>
+
+        {merges.length > 0 && (
+          <FormControl size="small" fullWidth sx={{ mb: 1 }}>
+            <InputLabel>Keep the side of</InputLabel>
+            <Select
+              label="Keep the side of"
+              value={mainline}
+              onChange={(e) => setMainline(Number(e.target.value))}
+            >
+              {Array.from({ length: parentCount }, (_, index) => (
+                <MenuItem key={index} value={index + 1}>
+                  Parent {index + 1}
+                  {merges.length === 1 && ` (${merges[0].parents[index].substring(0, 7)})`}
+                  {index === 0 && ', the branch merged into'}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        <FormControlLabel
+          control={<Checkbox size="small" checked={noCommit} onChange={(e) => setNoCommit(e.target.checked)} />}
+          label="Stage the changes without committing"
+        />
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {running && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose} disabled={running}>Cancel</Button>
+        <Button variant="contained" onClick={handleRevert} disabled={running || commits.length === 0}>
+          Revert
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RevertDialog;
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Collapse,
+  Tooltip,
+  Checkbox,
+  FormControlLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField
+} from '@mui/material';
+import { ExpandMore, ExpandLess, CallSplit, Delete } from '@mui/icons-material';
+import { StashEntry, StashOptions, CommitDiff } from '../types';
+import DiffViewer from './DiffViewer';
+import DiffFileHeader from './DiffFileHeader';
+
+interface StashPanelProps {
+  stashes: StashEntry[];
+  onCreateStash: (options: StashOptions) => void;
+  onApplyStash: (index: number) => void;
+  onPopStash: (index: number) => void;
+  onDropStash: (index: number) => void;
+  onCreateBranch: (index: number, branchName: string) => void;
+}
+
+const StashPanel: React.FC<StashPanelProps> = ({
+  stashes,
+  onCreateStash,
+  onApplyStash,
+  onPopStash,
+  onDropStash,
+  onCreateBranch
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, CommitDiff>>({});
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [stashOptions, setStashOptions] = useState<StashOptions>({ message: '', includeUntracked: false, keepIndex: false });
+  const [dropTarget, setDropTarget] = useState<StashEntry | null>(null);
+  const [branchTarget, setBranchTarget] = useState<StashEntry | null>(null);
+  const [branchName, setBranchName] = useState('');
+
+  // Diffs are keyed by hash since stash indices shift after every push, pop or drop
+  const toggleExpanded = async (stash: StashEntry) => {
+    if (expanded === stash.hash) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(stash.hash);
+    if (!diffs[stash.hash]) {
+      try {
+        const diff = await window.electronAPI.git.getStashDiff(stash.index);
+        setDiffs(prev => ({ ...prev, [stash.hash]: diff }));
+      } catch (error) {
+        console.error('Failed to load stash diff:', error);
+      }
+    }
+  };
+
+  const handleCreateStash = () => {
+    onCreateStash({ ...stashOptions, message: stashOptions.message?.trim() || undefined });
+    setStashOptions({ message: '', includeUntracked: false, keepIndex: false });
+    setCreateDialogOpen(false);
+  };
+
+  const handleCreateBranch = () => {
+    if (branchTarget && branchName.trim()) {
+      onCreateBranch(branchTarget.index, branchName.trim());
+      setBranchName('');
+      setBranchTarget(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+        <Button size="small" variant="outlined" onClick={() => setCreateDialogOpen(true)}>
+          Stash Changes
+        </Button>
+      </Box>
+
+      {stashes.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No stashes
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {stashes.map((stash) => (
+            <React.Fragment key={stash.hash}>
+              <ListItem disablePadding sx={{ pr: 1 }}>
+                <IconButton size="small" onClick={() => toggleExpanded(stash)}>
+                  {expanded === stash.hash ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+                </IconButton>
+                <ListItemText
+                  primary={stash.message}
+                  secondary={`${stash.ref}${stash.branch ? ` on ${stash.branch}` : ''} • ${new Date(stash.date).toLocaleString()}`}
+                />
+                <Button size="small" onClick={() => onApplyStash(stash.index)}>
+                  Apply
+                </Button>
+                <Button size="small" onClick={() => onPopStash(stash.index)}>
+                  Pop
+                </Button>
+                <Tooltip title="Create branch from stash">
+                  <IconButton size="small" onClick={() => setBranchTarget(stash)}>
+                    <CallSplit fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Drop stash">
+                  <IconButton size="small" color="error" onClick={() => setDropTarget(stash)}>
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </ListItem>
+              <Collapse in={expanded === stash.hash} timeout="auto" unmountOnExit>
+                <Box sx={{ pl: 4, pb: 1 }}>
+                  {diffs[stash.hash]?.files.map((file) => (
+                    <Box key={file.filename} sx={{ mb: 1 }}>
+                      <DiffFileHeader file={file} />
+                      {file.patch && (
+                        <Box sx={{ mt: 0.5 }}>
+                          <DiffViewer patch={file.patch} filename={file.filename} mode="unified" maxHeight={200} />
+                        </Box>
+                      )}
+                    </Box>
+                  )) ?? (
+                    <Typography variant="body2" color="text.secondary">
+                      Loading...
+                    </Typography>
+                  )}
+                </Box>
+              </Collapse>
+            </React.Fragment>
+          ))}
+        </List>
+      )}
+
+      <Dialog open={createDialogOpen} onClose={() => setCreateDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Stash Changes</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Message (optional)"
+            fullWidth
+            variant="outlined"
+            value={stashOptions.message}
+            onChange={(e) => setStashOptions(prev => ({ ...prev, message: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateStash()}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={!!stashOptions.includeUntracked}
+                onChange={(e) => setStashOptions(prev => ({ ...prev, includeUntracked: e.target.checked }))}
+              />
+            }
+            label="Include untracked files"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={!!stashOptions.keepIndex}
+                onChange={(e) => setStashOptions(prev => ({ ...prev, keepIndex: e.target.checked }))}
+              />
+            }
+            label="Keep staged changes in the index"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreateStash}>
+            Stash
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!branchTarget} onClose={() => setBranchTarget(null)}>
+        <DialogTitle>Create Branch from {branchTarget?.ref}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            The branch starts at the commit the stash was created on. The stash is applied to it and dropped.
+          </Typography>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Branch Name"
+            fullWidth
+            variant="outlined"
+            value={branchName}
+            onChange={(e) => setBranchName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateBranch()}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setBranchTarget(null)}>Cancel</Button>
+          <Button onClick={handleCreateBranch} variant="contained" disabled={!branchName.trim()}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!dropTarget} onClose={() => setDropTarget(null)}>
+        <DialogTitle>Drop Stash</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            Drop {dropTarget?.ref} ({dropTarget?.message})? This cannot be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDropTarget(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              if (dropTarget) onDropStash(dropTarget.index);
+              setDropTarget(null);
+            }}
+          >
+            Drop
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default StashPanel;
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Typography,
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Alert,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  Checkbox,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { Delete, CloudUpload, Add, VerifiedUser } from '@mui/icons-material';
+import { TagInfo, TagPushResult, RefUpdate, RemoteInfo } from '../types';
+
+interface TagsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  busy: boolean;
+  onPushTags: (remote: string, names?: string[]) => Promise<TagPushResult | null>; // All tags when no names are given
+  onDeleteRemoteTag: (remote: string, name: string) => Promise<TagPushResult | null>;
+  onChanged: () => void;
+}
+
+const shortRef = (ref: string) => ref.replace(/^refs\/tags\//, '');
+
+const TagsDialog: React.FC<TagsDialogProps> = ({
+  open,
+  onClose,
+  busy,
+  onPushTags,
+  onDeleteRemoteTag,
+  onChanged
+}) => {
+  const [tags, setTags] = useState<TagInfo[]>([]);
+  const [remotes, setRemotes] = useState<RemoteInfo[]>([]);
+  const [remote, setRemote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pushResult, setPushResult] = useState<TagPushResult | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newTag, setNewTag] = useState({ name: '', target: 'HEAD', message: '', sign: false });
+  const [deleteTarget, setDeleteTarget] = useState<{ tag: TagInfo; fromRemote: boolean } | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await window.electronAPI.git.getTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setError(null);
+    setPushResult(null);
+    loadTags();
+    window.electronAPI.git.getRemotes()
+      .then((remoteList) => {
+        setRemotes(remoteList);
+        setRemote(prev => (remoteList.some(entry => entry.name === prev) ? prev : remoteList[0]?.name || ''));
+      })
+      .catch((error) => console.error('Failed to load remotes:', error));
+  }, [open, loadTags]);
+
+  const handleCreate = async () => {
+    if (!newTag.name.trim()) return;
+
+    setError(null);
+    try {
+      const result = await window.electronAPI.git.createTag(newTag.name.trim(), newTag.target.trim() || 'HEAD', {
+        message: newTag.message,
+        sign: newTag.sign
+      });
+      if (result.success) {
+        setCreateOpen(false);
+        await loadTags();
+        onChanged();
+      } else {
+        setError(result.errorMessage || `Failed to create ${newTag.name.trim()}`);
+      }
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+      setError(`Failed to create ${newTag.name.trim()}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const { tag, fromRemote } = deleteTarget;
+    setDeleteTarget(null);
+    setError(null);
+    setPushResult(null);
+
+    try {
+      if (fromRemote && remote) {
+        const result = await onDeleteRemoteTag(remote, tag.name);
+        setPushResult(result);
+        // Keep the local tag when the remote refused, so deleting can be retried
+        if (!result?.success) return;
+      }
+      if (!(await window.electronAPI.git.deleteTag(tag.name))) {
+        setError(`Failed to delete ${tag.name}`);
+      }
+      await loadTags();
+      onChanged();
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      setError(`Failed to delete ${tag.name}`);
+    }
+  };
+
+  const handlePush = async (names?: string[]) => {
+    setError(null);
+    setPushResult(await onPushTags(remote, names));
+  };
+
+  const describeTag = (tag: TagInfo) => {
+    const target = `${tag.target.substring(0, 7)} ${tag.targetSubject}`;
+    const by = tag.tagger ? ` • ${tag.tagger.name}` : '';
+    return `${target}${by} • ${new Date(tag.date).toLocaleDateString()}`;
+  };
+
+  const renderRef = (ref: RefUpdate) => (
+    <ListItem key={`${ref.localRef}:${ref.remoteRef}`}>
+      <ListItemText
+        primary={shortRef(ref.remoteRef)}
+        secondary={ref.reason ? `${ref.summary} (${ref.reason})` : ref.summary}
+      />
+      <Chip size="small" color={ref.status === 'rejected' ? 'error' : 'default'} label={ref.status} />
+    </ListItem>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Tags</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => {
+              setNewTag({ name: '', target: 'HEAD', message: '', sign: false });
+              setCreateOpen(true);
+            }}
+          >
+            New Tag
+          </Button>
+          <Box sx={{ flex: 1 }} />
+          {remotes.length > 0 && (
+            <>
+              <FormControl size="small" sx={{ minWidth: 140 }}>
+                <InputLabel>Remote</InputLabel>
+                <Select value={remote} label="Remote" onChange={(e) => setRemote(e.target.value)}>
+                  {remotes.map((entry) => (
+                    <MenuItem key={entry.name} value={entry.name}>
+                      {entry.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<CloudUpload />}
+                disabled={busy || !remote || tags.length === 0}
+                onClick={() => handlePush()}
+              >
+                Push All Tags
+              </Button>
+            </>
+          )}
+        </Box>
+
+        {pushResult && (
+          <Box sx={{ mb: 1 }}>
+            <Alert severity={pushResult.success ? 'success' : 'error'}>
+              {pushResult.success ? `Updated tags on ${remote}` : pushResult.errorMessage || 'Push failed'}
+            </Alert>
+            {(pushResult.updatedRefs.length > 0 || pushResult.rejectedRefs.length > 0) && (
+              <List dense>
+                {pushResult.rejectedRefs.map(renderRef)}
+                {pushResult.updatedRefs.map(renderRef)}
+              </List>
+            )}
+          </Box>
+        )}
+
+        {tags.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+            No tags
+          </Typography>
+        ) : (
+          <List dense>
+            {tags.map((tag) => (
+              <ListItem key={tag.name} sx={{ pr: 1, alignItems: 'flex-start' }}>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      {tag.name}
+                      <Chip size="small" variant="outlined" label={tag.annotated ? 'annotated' : 'lightweight'} />
+                      {tag.signed && <Chip size="small" color="success" variant="outlined" icon={<VerifiedUser />} label="signed" />}
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      {describeTag(tag)}
+                      {tag.message && (
+                        <Typography component="span" variant="body2" sx={{ display: 'block', whiteSpace: 'pre-wrap', mt: 0.5 }}>
+                          {tag.message}
+                        </Typography>
+                      )}
+                    </>
+                  }
+                />
+                <Tooltip title={remote ? `Push to ${remote}` : 'No remote'}>
+                  <span>
+                    <IconButton size="small" disabled={busy || !remote} onClick={() => handlePush([tag.name])}>
+                      <CloudUpload fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton size="small" color="error" onClick={() => setDeleteTarget({ tag, fromRemote: false })}>
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Create Tag</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Tag name"
+            value={newTag.name}
+            onChange={(e) => setNewTag(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <TextField
+            fullWidth
+            margin="dense"
+            label="Commit"
+            helperText="Branch, tag or commit hash"
+            value={newTag.target}
+            onChange={(e) => setNewTag(prev => ({ ...prev, target: e.target.value }))}
+          />
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            margin="dense"
+            label="Message"
+            helperText="Leave empty for a lightweight tag"
+            value={newTag.message}
+            onChange={(e) => setNewTag(prev => ({ ...prev, message: e.target.value }))}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={newTag.sign}
+                onChange={(e) => setNewTag(prev => ({ ...prev, sign: e.target.checked }))}
+              />
+            }
+            label="Sign tag (GPG or SSH)"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={!newTag.name.trim()}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Tag</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">Delete {deleteTarget?.tag.name}?</Typography>
+          {remote && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={!!deleteTarget?.fromRemote}
+                  onChange={(e) => setDeleteTarget(prev => (prev ? { ...prev, fromRemote: e.target.checked } : prev))}
+                />
+              }
+              label={`Also delete it from ${remote}`}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete} disabled={busy && !!deleteTarget?.fromRemote}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+};
+
+export default TagsDialog;
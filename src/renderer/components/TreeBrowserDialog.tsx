@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Paper,
+  TextField,
+  Autocomplete,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import {
+  Folder,
+  FolderOpen,
+  InsertDriveFile,
+  Link as LinkIcon,
+  Inventory2,
+  Save,
+  History
+} from '@mui/icons-material';
+import { FileContent, TreeEntry, TreeEntryType } from '../types';
+import { SYNTAX_COLORS, detectLanguage, highlightLine } from '../utils/syntaxHighlight';
+
+interface TreeBrowserDialogProps {
+  open: boolean;
+  initialRev?: string; // Revision to open at, the working tree when missing
+  onClose: () => void;
+  onOpenFileHistory?: (path: string) => void;
+}
+
+// Longer files are cut short in the preview, saving them gives the whole file
+const MAX_PREVIEW_LINES = 5000;
+
+const ENTRY_ICONS: Record<TreeEntryType, React.ReactElement> = {
+  directory: <Folder fontSize="small" />,
+  file: <InsertDriveFile fontSize="small" />,
+  symlink: <LinkIcon fontSize="small" />,
+  submodule: <Inventory2 fontSize="small" />
+};
+
+const formatSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const TreeBrowserDialog: React.FC<TreeBrowserDialogProps> = ({ open, initialRev, onClose, onOpenFileHistory }) => {
+  const theme = useTheme();
+  const [rev, setRev] = useState('');
+  const [refOptions, setRefOptions] = useState<string[]>([]);
+  // Loaded directories by path, the root is ''
+  const [children, setChildren] = useState<Record<string, TreeEntry[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [treeError, setTreeError] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [content, setContent] = useState<FileContent | null>(null);
+  const [loadingContent, setLoadingContent] = useState(false);
+  const [notice, setNotice] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const loadDirectory = useCallback(async (dirPath: string) => {
+    try {
+      const entries = await window.electronAPI.git.getTree(rev || undefined, dirPath);
+      setChildren(prev => ({ ...prev, [dirPath]: entries }));
+    } catch (error) {
+      console.error('Failed to load directory:', error);
+    }
+  }, [rev]);
+
+  useEffect(() => {
+    if (!open) return;
+    setRev(initialRev || '');
+    setNotice(null);
+
+    Promise.all([window.electronAPI.git.getBranches(), window.electronAPI.git.getTags()])
+      .then(([branches, tags]) => setRefOptions([...branches.map(branch => branch.name), ...tags.map(tag => tag.name)]))
+      .catch(error => console.error('Failed to load refs:', error));
+  }, [open, initialRev]);
+
+  // A new revision starts from a collapsed root
+  useEffect(() => {
+    if (!open) return;
+    setChildren({});
+    setExpanded(new Set());
+    setSelectedFile(null);
+    setContent(null);
+    setTreeError(null);
+
+    window.electronAPI.git.getTree(rev || undefined)
+      .then(entries => {
+        setChildren({ '': entries });
+        if (entries.length === 0) {
+          setTreeError(rev ? `Nothing to show at ${rev}` : 'The working tree is empty');
+        }
+      })
+      .catch(error => console.error('Failed to load tree:', error));
+  }, [open, rev]);
+
+  useEffect(() => {
+    if (!selectedFile) {
+      setLoadingContent(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingContent(true);
+    setContent(null);
+    window.electronAPI.git.getFileContent(selectedFile, rev || undefined)
+      .then(result => {
+        if (!cancelled) setContent(result);
+      })
+      .catch(error => console.error('Failed to load file:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingContent(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile, rev]);
+
+  const handleToggleDirectory = (dirPath: string) => {
+    if (!children[dirPath]) {
+      loadDirectory(dirPath);
+    }
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(dirPath)) {
+        next.delete(dirPath);
+      } else {
+        next.add(dirPath);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selectedFile) return;
+
+    setNotice(null);
+    try {
+      const result = await window.electronAPI.git.saveFileAtRevision(selectedFile, rev || undefined);
+      if (result.success) {
+        setNotice({ severity: 'success', text: `Saved to ${result.path}` });
+      } else if (result.errorMessage) {
+        setNotice({ severity: 'error', text: result.errorMessage });
+      }
+    } catch (error) {
+      console.error('Failed to save file:', error);
+      setNotice({ severity: 'error', text: `Failed to save ${selectedFile}` });
+    }
+  };
+
+  const previewLines = useMemo(() => {
+    if (!content?.text) return [];
+    const lines = content.text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines.slice(0, MAX_PREVIEW_LINES);
+  }, [content]);
+
+  const renderEntries = (dirPath: string, depth: number): React.ReactNode =>
+    (children[dirPath] || []).map(entry => {
+      const isOpen = expanded.has(entry.path);
+      return (
+        <React.Fragment key={entry.path}>
+          <ListItemButton
+            dense
+            selected={entry.path === selectedFile}
+            disabled={entry.type === 'submodule'}
+            onClick={() => entry.type === 'directory' ? handleToggleDirectory(entry.path) : setSelectedFile(entry.path)}
+            sx={{ pl: 1 + depth * 2, opacity: entry.ignored ? 0.6 : undefined }}
+          >
+            <ListItemIcon sx={{ minWidth: 28 }}>
+              {entry.type === 'directory' && isOpen ? <FolderOpen fontSize="small" /> : ENTRY_ICONS[entry.type]}
+            </ListItemIcon>
+            <ListItemText primary={entry.name} primaryTypographyProps={{ noWrap: true, variant: 'body2' }} />
+          </ListItemButton>
+          {entry.type === 'directory' && isOpen && (
+            children[entry.path]
+              ? renderEntries(entry.path, depth + 1)
+              : <CircularProgress size={16} sx={{ ml: 4 + depth * 2 }} />
+          )}
+        </React.Fragment>
+      );
+    });
+
+  const renderPreview = () => {
+    if (loadingContent) {
+      return <CircularProgress size={24} />;
+    }
+    if (!selectedFile) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          Select a file to preview it
+        </Typography>
+      );
+    }
+    if (!content) {
+      return <Alert severity="error">Failed to read {selectedFile}</Alert>;
+    }
+    if (content.tooLarge) {
+      return <Alert severity="info">This file is too large to preview ({formatSize(content.size)}). Save it to open it elsewhere.</Alert>;
+    }
+    if (content.image) {
+      return (
+        <Box
+          component="img"
+          src={content.image}
+          alt={content.path}
+          sx={{ maxWidth: '100%', backgroundColor: 'action.hover', border: 1, borderColor: 'divider' }}
+        />
+      );
+    }
+    if (content.binary) {
+      return <Alert severity="info">Binary file ({formatSize(content.size)})</Alert>;
+    }
+
+    const language = detectLanguage(content.path);
+    const colors = SYNTAX_COLORS[theme.palette.mode];
+    return (
+      <Box sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+        {previewLines.map((line, index) => (
+          <Box key={index} sx={{ display: 'flex' }}>
+            <Box sx={{ width: 48, flexShrink: 0, textAlign: 'right', pr: 1, color: 'text.secondary', userSelect: 'none' }}>
+              {index + 1}
+            </Box>
+            <Box sx={{ whiteSpace: 'pre', flex: 1 }}>
+              {line
+                ? highlightLine(line, language).map((token, tokenIndex) => (
+                    <span
+                      key={tokenIndex}
+                      style={{ color: colors[token.type], fontStyle: token.type === 'comment' ? 'italic' : undefined }}
+                    >
+                      {token.text}
+                    </span>
+                  ))
+                : ' '}
+            </Box>
+          </Box>
+        ))}
+        {previewLines.length === MAX_PREVIEW_LINES && (
+          <Alert severity="info" sx={{ mt: 1 }}>
+            Only the first {MAX_PREVIEW_LINES} lines are shown
+          </Alert>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        Browse Files
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={refOptions}
+          value={rev}
+          onChange={(_, newValue) => setRev((newValue || '').trim())}
+          sx={{ minWidth: 280 }}
+          renderInput={(params) => (
+            <TextField {...params} label="Branch, tag or commit" placeholder="Working tree" InputLabelProps={{ shrink: true }} />
+          )}
+        />
+      </DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, height: '70vh' }}>
+        <Paper variant="outlined" sx={{ width: 300, flexShrink: 0, overflow: 'auto' }}>
+          {treeError ? (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 1 }}>
+              {treeError}
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {renderEntries('', 0)}
+            </List>
+          )}
+        </Paper>
+
+        <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+          {selectedFile && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', flex: 1, wordBreak: 'break-all' }}>
+                {selectedFile}
+                {content && !content.tooLarge && (
+                  <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                    {formatSize(content.size)}
+                  </Typography>
+                )}
+              </Typography>
+              {onOpenFileHistory && (
+                <Button size="small" startIcon={<History />} onClick={() => onOpenFileHistory(selectedFile)}>
+                  History
+                </Button>
+              )}
+              <Button size="small" startIcon={<Save />} onClick={handleSave}>
+                {rev ? 'Save File at Revision' : 'Save Copy'}
+              </Button>
+            </Box>
+          )}
+          {notice && (
+            <Alert severity={notice.severity} sx={{ mb: 1 }} onClose={() => setNotice(null)}>
+              {notice.text}
+            </Alert>
+          )}
+          <Box sx={{ flex: 1, overflow: 'auto' }}>
+            {renderPreview()}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TreeBrowserDialog;
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  TextField,
+  Autocomplete,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress
+} from '@mui/material';
+import { CommitDiff, WhitespaceMode, WorkingDiffOptions, WorkingDiffSource } from '../types';
+import DiffViewer from './DiffViewer';
+import DiffFileHeader from './DiffFileHeader';
+
+interface WorkingDiffDialogProps {
+  open: boolean;
+  filePath: string | null; // Only this file, every changed file when null
+  initialSource?: WorkingDiffSource;
+  onClose: () => void;
+  onStageHunks?: (filePath: string, staged: boolean) => void; // Offered for a single file's unstaged or staged changes
+}
+
+const SOURCES: { value: WorkingDiffSource; label: string }[] = [
+  { value: 'unstaged', label: 'Unstaged changes' },
+  { value: 'staged', label: 'Staged changes' },
+  { value: 'head', label: 'Working tree vs HEAD' },
+  { value: 'commit', label: 'Working tree vs commit' }
+];
+
+const WHITESPACE_MODES: { value: WhitespaceMode; label: string }[] = [
+  { value: 'none', label: 'Show all whitespace' },
+  { value: 'eol', label: 'Ignore at line end' },
+  { value: 'change', label: 'Ignore amount' },
+  { value: 'all', label: 'Ignore all' }
+];
+
+const CONTEXT_LINES = [0, 1, 3, 5, 10, 25];
+
+const WorkingDiffDialog: React.FC<WorkingDiffDialogProps> = ({ open, filePath, initialSource, onClose, onStageHunks }) => {
+  const [source, setSource] = useState<WorkingDiffSource>('unstaged');
+  const [commitInput, setCommitInput] = useState('');
+  const [commit, setCommit] = useState('');
+  const [whitespace, setWhitespace] = useState<WhitespaceMode>('none');
+  const [contextLines, setContextLines] = useState(3);
+  const [showWordDiff, setShowWordDiff] = useState(true);
+  const [diffViewMode, setDiffViewMode] = useState<'unified' | 'split'>('unified');
+  const [onlyFile, setOnlyFile] = useState<string | null>(null);
+  const [refOptions, setRefOptions] = useState<string[]>([]);
+  const [diff, setDiff] = useState<CommitDiff | null>(null);
+  const [loadingFullFiles, setLoadingFullFiles] = useState<Set<string>>(new Set());
+
+  const options: WorkingDiffOptions = {
+    source,
+    commit: source === 'commit' ? commit : undefined,
+    paths: onlyFile ? [onlyFile] : undefined,
+    whitespace,
+    contextLines
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setSource(initialSource || 'unstaged');
+    setOnlyFile(filePath);
+
+    Promise.all([window.electronAPI.git.getBranches(), window.electronAPI.git.getTags()])
+      .then(([branches, tags]) => setRefOptions([...branches.map(branch => branch.name), ...tags.map(tag => tag.name)]))
+      .catch(error => console.error('Failed to load refs:', error));
+  }, [open, filePath, initialSource]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!open || (source === 'commit' && !commit)) return;
+
+    let cancelled = false;
+    window.electronAPI.git.getDiff(options)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(error => console.error('Failed to load diff:', error));
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, source, commit, whitespace, contextLines, onlyFile]);
+
+  const handleLoadFullFile = async (filename: string) => {
+    setLoadingFullFiles(prev => new Set(prev).add(filename));
+    try {
+      const file = await window.electronAPI.git.getWorkingFileDiff(filename, options);
+      if (file) {
+        setDiff(prev => prev && { ...prev, files: prev.files.map(existing => (existing.filename === filename ? file : existing)) });
+      }
+    } catch (error) {
+      console.error('Failed to load full diff:', error);
+    } finally {
+      setLoadingFullFiles(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(filename);
+        return newSet;
+      });
+    }
+  };
+
+  const canStageHunks = !!onStageHunks && !!onlyFile && (source === 'unstaged' || source === 'staged');
+
+  const renderFiles = (changes: CommitDiff) => (
+    changes.files.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">
+        No changes to show
+      </Typography>
+    ) : (
+      changes.files.map(file => (
+        <Box key={file.filename} sx={{ mb: 2 }}>
+          <DiffFileHeader file={file} />
+          {file.patch && (
+            <Box sx={{ mt: 0.5 }}>
+              <DiffViewer
+                patch={file.patch}
+                filename={file.filename}
+                mode={diffViewMode}
+                wordDiff={showWordDiff}
+                maxHeight={onlyFile ? undefined : 400}
+              />
+            </Box>
+          )}
+          {file.truncated && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+              <Typography variant="caption" color="text.secondary">
+                {file.patch ? 'Diff truncated, it is too large to show in full' : 'Diff too large to show'}
+              </Typography>
+              <Button
+                size="small"
+                onClick={() => handleLoadFullFile(file.filename)}
+                disabled={loadingFullFiles.has(file.filename)}
+              >
+                Load Full Diff
+              </Button>
+            </Box>
+          )}
+        </Box>
+      ))
+    )
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box component="span" sx={{ flex: 1 }}>Changes</Box>
+        {onlyFile && (
+          <Chip
+            size="small"
+            label={onlyFile}
+            onDelete={() => setOnlyFile(null)}
+            sx={{ fontFamily: 'monospace', maxWidth: 400 }}
+          />
+        )}
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={diffViewMode}
+          onChange={(_, value: 'unified' | 'split' | null) => value && setDiffViewMode(value)}
+        >
+          <ToggleButton value="unified">Unified</ToggleButton>
+          <ToggleButton value="split">Split</ToggleButton>
+        </ToggleButtonGroup>
+      </DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Compare</InputLabel>
+            <Select value={source} label="Compare" onChange={(e) => setSource(e.target.value as WorkingDiffSource)}>
+              {SOURCES.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {source === 'commit' && (
+            <Autocomplete
+              freeSolo
+              size="small"
+              options={refOptions}
+              inputValue={commitInput}
+              onInputChange={(_, value) => setCommitInput(value)}
+              onChange={(_, value) => setCommit((value || '').trim())}
+              sx={{ minWidth: 220 }}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Branch, tag or commit"
+                  onKeyDown={(e) => e.key === 'Enter' && setCommit(commitInput.trim())}
+                />
+              )}
+            />
+          )}
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Whitespace</InputLabel>
+            <Select value={whitespace} label="Whitespace" onChange={(e) => setWhitespace(e.target.value as WhitespaceMode)}>
+              {WHITESPACE_MODES.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>Context lines</InputLabel>
+            <Select value={contextLines} label="Context lines" onChange={(e) => setContextLines(Number(e.target.value))}>
+              {CONTEXT_LINES.map(lines => (
+                <MenuItem key={lines} value={lines}>{lines}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControlLabel
+            control={<Switch size="small" checked={showWordDiff} onChange={(e) => setShowWordDiff(e.target.checked)} />}
+            label="Word diff"
+          />
+        </Box>
+
+        {source === 'commit' && !commit ? (
+          <Typography variant="body2" color="text.secondary">
+            Choose a commit to compare the working tree with
+          </Typography>
+        ) : diff ? (
+          <>
+            {diff.files.length > 1 && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                {diff.files.length} files changed, +{diff.totalAdditions} -{diff.totalDeletions}
+              </Typography>
+            )}
+            {renderFiles(diff)}
+          </>
+        ) : (
+          <CircularProgress size={24} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        {canStageHunks && (
+          <Button onClick={() => onlyFile && onStageHunks?.(onlyFile, source === 'staged')} sx={{ mr: 'auto' }}>
+            {source === 'staged' ? 'Unstage Hunks or Lines' : 'Stage Hunks or Lines'}
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WorkingDiffDialog;
@@ -1,8 +1,33 @@
 // Git status types
+export type FileState =
+  | 'unmodified'
+  | 'modified'
+  | 'type-changed'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'unmerged'
+  | 'untracked'
+  | 'ignored';
+
+export interface SubmoduleStatus {
+  commitChanged: boolean; // Checked out commit differs from the recorded one
+  modified: boolean; // Has tracked changes
+  untracked: boolean; // Has untracked files
+}
+
+export interface FileStatusEntry {
+  path: string;
+  originalPath?: string; // Source path of a rename or copy
+  indexState: FileState; // Index compared to HEAD
+  worktreeState: FileState; // Working tree compared to the index
+  conflicted: boolean;
+  submodule?: SubmoduleStatus;
+}
+
 export interface GitStatus {
-  staged: string[];
-  unstaged: string[];
-  untracked: string[];
+  files: FileStatusEntry[];
 }
 
 // Repository types
@@ -13,20 +38,107 @@ export interface Repository {
   status?: GitStatus;
 }
 
+export type RepositoryChange = 'status-changed' | 'refs-changed' | 'head-changed';
+
 // Commit types
 export interface Commit {
   hash: string;
+  parents: string[];
   message: string;
   author: string;
   date: Date;
-  branch?: string;
+  refs: CommitRef[];
+  graph?: CommitGraphRow;
+}
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+  date: Date;
 }
 
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+export type SignatureStatus = 'G' | 'B' | 'U' | 'X' | 'Y' | 'R' | 'E' | 'N';
+
+export interface CommitSignature {
+  status: SignatureStatus;
+  signer?: string;
+  key?: string;
+}
+
+export interface CommitDetails {
+  hash: string;
+  parents: string[];
+  subject: string;
+  body: string;
+  author: CommitIdentity;
+  committer: CommitIdentity;
+  trailers: CommitTrailer[];
+  refs: CommitRef[];
+  branches: string[];
+  tags: string[];
+  signature: CommitSignature;
+}
+
+export type CommitRefType = 'head' | 'branch' | 'remote' | 'tag';
+
+export interface CommitRef {
+  name: string;
+  type: CommitRefType;
+  isHead?: boolean;
+}
+
+export interface GraphLine {
+  fromLane: number;
+  toLane: number;
+  color: number;
+  segment: 'full' | 'top' | 'bottom';
+}
+
+export interface CommitGraphRow {
+  lane: number;
+  color: number;
+  lines: GraphLine[];
+  laneCount: number;
+}
+
+export type FileChangeType = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
 export interface DiffFile {
   filename: string;
+  oldFilename?: string;
+  changeType: FileChangeType;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;
+  binary: boolean;
   additions: number;
   deletions: number;
+  hunks: PatchHunk[];
   patch: string;
+  truncated?: boolean;
+}
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section: string;
+  lines: PatchLine[];
+}
+
+export interface PatchLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+  noNewlineAtEnd?: boolean;
 }
 
 export interface CommitDiff {
@@ -39,12 +151,64 @@ export interface CommitWithDiff extends Commit {
   diff: CommitDiff;
 }
 
+export interface CommitOptions {
+  amend?: boolean;
+  signOff?: boolean;
+  sign?: boolean;
+  author?: string;
+  allowEmpty?: boolean;
+  noVerify?: boolean;
+}
+
+export type FixupKind = 'fixup' | 'squash';
+
+export interface CommitResult {
+  success: boolean;
+  hash?: string;
+  hookFailed?: boolean;
+  output?: string;
+  errorMessage?: string;
+}
+
 export interface GetCommitsOptions {
   limit?: number;
   skip?: number;
   branch?: string;
+  refs?: string[];
+  all?: boolean;
+  range?: CommitRange;
   messageFilter?: string;
-  includeDiffs?: boolean;
+  author?: string;
+  committer?: string;
+  since?: string;
+  until?: string;
+  paths?: string[];
+  content?: string;
+  contentMode?: ContentSearchMode;
+  merges?: MergeFilter;
+  fixedStrings?: boolean;
+  includeStats?: boolean;
+}
+
+export type ContentSearchMode = 'occurrences' | 'diff';
+
+export type MergeFilter = 'only' | 'exclude';
+
+export interface CommitRange {
+  base: string;
+  head: string;
+}
+
+export type WorkingDiffSource = 'unstaged' | 'staged' | 'head' | 'commit';
+
+export type WhitespaceMode = 'none' | 'eol' | 'change' | 'all';
+
+export interface WorkingDiffOptions {
+  source: WorkingDiffSource;
+  commit?: string;
+  paths?: string[];
+  whitespace?: WhitespaceMode;
+  contextLines?: number;
 }
 
 export interface CherryPickOptions {
@@ -57,6 +221,341 @@ export interface CherryPickResult {
   success: boolean;
   conflicts: string[];
   appliedCommits: string[];
+  totalCommits?: number;
+  currentCommit?: string;
+  progress?: number;
+  errorMessage?: string;
+  errorType?: 'conflict' | 'branch_error' | 'git_error' | 'permission_error' | 'unknown';
+  pendingCommits?: string[];
+}
+
+export interface RevertOptions {
+  mainline?: number;
+  noCommit?: boolean;
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard';
+
+export interface ResetPreviewCommit {
+  hash: string;
+  subject: string;
+  unreachable: boolean;
+}
+
+export interface ResetPreview {
+  commits: ResetPreviewCommit[];
+  changedFiles: string[];
+}
+
+// File history types
+export interface FileHistoryEntry {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: Date;
+  subject: string;
+  path: string;
+  oldPath?: string;
+  changeType: FileChangeType;
+}
+
+export interface BlameCommit {
+  hash: string;
+  author: string;
+  authorEmail: string;
+  authorTime: Date;
+  summary: string;
+  previousHash?: string;
+  previousPath?: string;
+  boundary: boolean;
+  uncommitted: boolean;
+}
+
+export interface BlameLine {
+  lineNumber: number;
+  originalLineNumber: number;
+  hash: string;
+  path: string;
+  content: string;
+}
+
+export interface BlameResult {
+  path: string;
+  rev?: string;
+  lines: BlameLine[];
+  commits: Record<string, BlameCommit>;
+}
+
+// Tree browser types
+export type TreeEntryType = 'file' | 'directory' | 'symlink' | 'submodule';
+
+export interface TreeEntry {
+  name: string;
+  path: string;
+  type: TreeEntryType;
+  size?: number;
+  ignored?: boolean;
+}
+
+export interface FileContent {
+  path: string;
+  rev?: string;
+  size: number;
+  binary: boolean;
+  tooLarge: boolean;
+  text?: string;
+  image?: string;
+}
+
+export interface SaveFileResult {
+  success: boolean;
+  path?: string;
+  errorMessage?: string;
+}
+
+// Compare types
+export type CompareMode = 'two-dot' | 'three-dot';
+
+export interface CompareResult {
+  base: string;
+  head: string;
+  mode: CompareMode;
+  mergeBase?: string;
+  diff: CommitDiff;
+  baseOnly: Commit[];
+  headOnly: Commit[];
+  errorMessage?: string;
+}
+
+// Reflog types
+export interface ReflogEntry {
+  selector: string;
+  oldHash?: string;
+  newHash: string;
+  action: string;
+  message: string;
+  subject: string;
+  date: Date;
+  lost: boolean;
+}
+
+// Conflict resolution types
+export type GitOperationType = 'merge' | 'cherry-pick' | 'revert' | 'rebase';
+
+export interface OperationState {
+  type: GitOperationType | null;
+  head?: string;
+  branch?: string;
+  step?: number;
+  totalSteps?: number;
+  rebaseAction?: RebaseAction;
+  pendingMessage?: string;
+  conflicts: string[];
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+  action: RebaseAction;
+  hash: string;
+  subject: string;
+}
+
+export type ConflictSide = 'ours' | 'theirs';
+
+export type HunkResolution = 'ours' | 'theirs' | 'both';
+
+export interface ConflictHunk {
+  index: number;
+  startLine: number;
+  oursLabel: string;
+  theirsLabel: string;
+  ours: string[];
+  base: string[] | null;
+  theirs: string[];
+}
+
+export interface ConflictFile {
+  path: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  working: string | null;
+  binary: boolean;
+  hunks: ConflictHunk[];
+}
+
+export interface GitOperationResult {
+  success: boolean;
+  conflicts: string[];
+  errorMessage?: string;
+}
+
+// Stash types
+export interface StashEntry {
+  index: number;
+  ref: string; // stash@{n}
+  hash: string;
+  message: string;
+  branch?: string; // Branch the stash was created on
+  date: Date;
+}
+
+export interface StashOptions {
+  message?: string;
+  includeUntracked?: boolean;
+  keepIndex?: boolean; // Leave staged changes in place
+}
+
+export interface CheckoutOptions {
+  stashChanges?: boolean; // Stash local changes before switching
+}
+
+export interface CheckoutResult {
+  success: boolean;
+  errorMessage?: string;
+  blockingFiles?: string[]; // Local changes that would be overwritten by the checkout
+  stashed?: boolean; // Local changes were stashed before switching
+}
+
+// Branch types
+export interface BranchCommit {
+  hash: string;
+  message: string;
+  author: string;
+  date: Date;
+}
+
+export interface BranchInfo {
+  name: string;
+  ref: string;
+  isLocal: boolean;
+  isRemote: boolean;
+  remote?: string;
+  isCurrent: boolean;
+  upstream?: string;
+  upstreamGone: boolean;
+  ahead: number;
+  behind: number;
+  lastCommit: BranchCommit;
+  merged: boolean;
+}
+
+export interface DeleteBranchResult {
+  success: boolean;
+  notMerged?: boolean;
+  errorMessage?: string;
+}
+
+// Tag types
+export interface TagInfo {
+  name: string;
+  annotated: boolean;
+  target: string;
+  targetSubject: string;
+  tagger?: CommitIdentity;
+  message?: string;
+  signed: boolean;
+  date: Date;
+}
+
+export interface CreateTagOptions {
+  message?: string;
+  sign?: boolean;
+  force?: boolean;
+}
+
+export interface TagResult {
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface TagPushResult {
+  success: boolean;
+  updatedRefs: RefUpdate[];
+  rejectedRefs: RefUpdate[];
+  errorMessage?: string;
+}
+
+// Remote types
+export interface RemoteInfo {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+export interface FetchOptions {
+  remote?: string;
+  prune?: boolean;
+}
+
+export interface RemoteOperationResult {
+  remote: string;
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface FetchResult {
+  success: boolean;
+  remotes: RemoteOperationResult[];
+}
+
+export interface GitProgress {
+  method: string;
+  stage: string;
+  progress: number;
+  processed: number;
+  total: number;
+  remote?: string;
+}
+
+// Push and pull types
+export interface PushOptions {
+  remote?: string;
+  branch?: string;
+  setUpstream?: boolean;
+  forceWithLease?: boolean;
+  tags?: boolean;
+}
+
+export type PullMode = 'merge' | 'rebase' | 'ff-only';
+
+export interface PullOptions {
+  remote?: string;
+  branch?: string;
+  mode?: PullMode;
+  autostash?: boolean;
+}
+
+export type RefUpdateStatus = 'fast-forward' | 'forced' | 'new' | 'deleted' | 'up-to-date' | 'rejected';
+
+export interface RefUpdate {
+  localRef: string;
+  remoteRef: string;
+  status: RefUpdateStatus;
+  summary: string;
+  reason?: string;
+}
+
+export interface TrackingState {
+  upstream?: string;
+  ahead: number;
+  behind: number;
+}
+
+export interface PushResult {
+  success: boolean;
+  updatedRefs: RefUpdate[];
+  rejectedRefs: RefUpdate[];
+  noUpstream?: boolean;
+  detachedHead?: boolean;
+  tracking: TrackingState;
+  errorMessage?: string;
+}
+
+export interface PullResult extends GitOperationResult {
+  noUpstream?: boolean;
+  tracking: TrackingState;
 }
 
 // Electron API types (matching preload script)
@@ -67,19 +566,80 @@ declare global {
         getStatus: () => Promise<GitStatus>;
         initRepository: (path: string) => Promise<boolean>;
         addFiles: (files: string[]) => Promise<boolean>;
-        commit: (message: string) => Promise<boolean>;
-        getBranches: () => Promise<string[]>;
-        createBranch: (name: string) => Promise<boolean>;
-        checkoutBranch: (name: string) => Promise<boolean>;
-        mergeBranch: (sourceBranch: string) => Promise<boolean>;
-        rebaseBranch: (targetBranch: string) => Promise<boolean>;
+        unstageFiles: (files: string[]) => Promise<boolean>;
+        discardChanges: (files: string[]) => Promise<boolean>;
+        cleanUntracked: (files: string[]) => Promise<boolean>;
+        getFileDiff: (filePath: string, staged?: boolean) => Promise<string>;
+        stageHunk: (filePath: string, hunkIndex: number, lineIndices?: number[]) => Promise<boolean>;
+        unstageHunk: (filePath: string, hunkIndex: number, lineIndices?: number[]) => Promise<boolean>;
+        commit: (message: string, options?: CommitOptions) => Promise<CommitResult>;
+        createFixupCommit: (targetHash: string, kind: FixupKind, options?: CommitOptions) => Promise<CommitResult>;
+        getBranches: () => Promise<BranchInfo[]>;
+        createBranch: (name: string, startPoint?: string, checkout?: boolean) => Promise<boolean>;
+        getTags: () => Promise<TagInfo[]>;
+        createTag: (name: string, target?: string, options?: CreateTagOptions) => Promise<TagResult>;
+        deleteTag: (name: string) => Promise<boolean>;
+        deleteBranch: (name: string, force?: boolean) => Promise<DeleteBranchResult>;
+        renameBranch: (oldName: string, newName: string) => Promise<boolean>;
+        setUpstream: (branch: string, upstream: string) => Promise<boolean>;
+        unsetUpstream: (branch: string) => Promise<boolean>;
+        checkoutBranch: (name: string, options?: CheckoutOptions) => Promise<CheckoutResult>;
+        checkoutCommit: (hash: string, options?: CheckoutOptions) => Promise<CheckoutResult>;
+        checkoutRemoteBranch: (remoteBranch: string, localName?: string) => Promise<CheckoutResult>;
+        mergeBranch: (sourceBranch: string) => Promise<GitOperationResult>;
+        rebaseBranch: (targetBranch: string) => Promise<GitOperationResult>;
+        getRebaseTodo: (base: string) => Promise<RebaseTodoItem[]>;
+        startInteractiveRebase: (base: string, todo: RebaseTodoItem[]) => Promise<GitOperationResult>;
         getCommits: (options?: GetCommitsOptions) => Promise<CommitWithDiff[]>;
+        getCommitDiff: (hash: string) => Promise<CommitDiff>;
+        getCommitFileDiff: (hash: string, filePath: string) => Promise<DiffFile | null>;
+        getCommitDetails: (hash: string) => Promise<CommitDetails | null>;
+        compareRefs: (base: string, head: string, mode?: CompareMode) => Promise<CompareResult>;
+        getCompareFileDiff: (base: string, head: string, mode: CompareMode, filePath: string) => Promise<DiffFile | null>;
+        getFileHistory: (filePath: string, limit?: number) => Promise<FileHistoryEntry[]>;
+        getBlame: (filePath: string, rev?: string) => Promise<BlameResult | null>;
+        getTree: (rev?: string, dirPath?: string) => Promise<TreeEntry[]>;
+        getFileContent: (filePath: string, rev?: string) => Promise<FileContent | null>;
+        saveFileAtRevision: (filePath: string, rev?: string) => Promise<SaveFileResult>;
+        getReflog: (ref?: string, limit?: number) => Promise<ReflogEntry[]>;
         cherryPickCommits: (commitHashes: string[], targetBranch: string, options?: CherryPickOptions) => Promise<CherryPickResult>;
+        revertCommits: (commitHashes: string[], options?: RevertOptions) => Promise<GitOperationResult>;
+        getResetPreview: (hash: string) => Promise<ResetPreview>;
+        resetToCommit: (hash: string, mode: ResetMode) => Promise<boolean>;
+        getOperationState: () => Promise<OperationState>;
+        getConflictFile: (filePath: string) => Promise<ConflictFile | null>;
+        resolveConflict: (filePath: string, side: ConflictSide) => Promise<boolean>;
+        resolveConflictHunks: (filePath: string, resolutions: HunkResolution[]) => Promise<boolean>;
+        markResolved: (files: string[]) => Promise<boolean>;
+        continueOperation: (message?: string) => Promise<GitOperationResult>;
+        skipOperation: () => Promise<GitOperationResult>;
+        abortOperation: () => Promise<GitOperationResult>;
+        getStashes: () => Promise<StashEntry[]>;
+        getStashDiff: (index: number) => Promise<CommitDiff>;
+        createStash: (options?: StashOptions) => Promise<GitOperationResult>;
+        applyStash: (index: number) => Promise<GitOperationResult>;
+        popStash: (index: number) => Promise<GitOperationResult>;
+        dropStash: (index: number) => Promise<boolean>;
+        createBranchFromStash: (index: number, branchName: string) => Promise<GitOperationResult>;
+        getRemotes: () => Promise<RemoteInfo[]>;
+        addRemote: (name: string, url: string) => Promise<boolean>;
+        removeRemote: (name: string) => Promise<boolean>;
+        renameRemote: (oldName: string, newName: string) => Promise<boolean>;
+        setRemoteUrl: (name: string, url: string, push?: boolean) => Promise<boolean>;
+        fetch: (options?: FetchOptions) => Promise<FetchResult>;
+        onProgress: (callback: (progress: GitProgress) => void) => () => void;
+        push: (options?: PushOptions) => Promise<PushResult>;
+        pushTags: (remote: string, names?: string[]) => Promise<TagPushResult>;
+        deleteRemoteTag: (remote: string, name: string) => Promise<TagPushResult>;
+        pull: (options?: PullOptions) => Promise<PullResult>;
+        getDiff: (options?: WorkingDiffOptions) => Promise<CommitDiff>;
+        getWorkingFileDiff: (filePath: string, options: WorkingDiffOptions) => Promise<DiffFile | null>;
       };
       repositories: {
         discover: () => Promise<Repository[]>;
         open: (path: string) => Promise<boolean>;
         getCurrent: () => Promise<Repository | null>;
+        onChanged: (callback: (change: RepositoryChange) => void) => () => void;
       };
       dialog: {
         openDirectory: () => Promise<string | null>;
@@ -0,0 +1,215 @@
+export type DiffLineType = 'context' | 'add' | 'delete' | 'hunk' | 'meta';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string; // Line text without the leading +, - or space
+  oldNumber?: number;
+  newNumber?: number;
+  filename?: string; // File the line belongs to, when known
+}
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+  full?: DiffLine; // Hunk headers and metadata span both columns
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Parse a unified diff (one or more files, or bare hunks) into numbered lines
+ */
+export const parsePatch = (patch: string, filename?: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldNumber = 0;
+  let newNumber = 0;
+  let currentFile = filename;
+  let inHunk = false;
+
+  for (const raw of patch.split('\n')) {
+    if (raw.startsWith('diff --git')) {
+      const match = raw.match(/ b\/(.+)$/);
+      currentFile = match ? match[1] : currentFile;
+      inHunk = false;
+      lines.push({ type: 'meta', content: raw, filename: currentFile });
+      continue;
+    }
+
+    const hunk = raw.match(HUNK_HEADER);
+    if (hunk) {
+      oldNumber = parseInt(hunk[1], 10);
+      newNumber = parseInt(hunk[2], 10);
+      inHunk = true;
+      lines.push({ type: 'hunk', content: raw, filename: currentFile });
+      continue;
+    }
+
+    if (!inHunk) {
+      if (raw) {
+        lines.push({ type: 'meta', content: raw, filename: currentFile });
+      }
+      continue;
+    }
+
+    if (raw.startsWith('+')) {
+      lines.push({ type: 'add', content: raw.substring(1), newNumber: newNumber++, filename: currentFile });
+    } else if (raw.startsWith('-')) {
+      lines.push({ type: 'delete', content: raw.substring(1), oldNumber: oldNumber++, filename: currentFile });
+    } else if (raw.startsWith(' ')) {
+      lines.push({ type: 'context', content: raw.substring(1), oldNumber: oldNumber++, newNumber: newNumber++, filename: currentFile });
+    } else if (raw.startsWith('\\')) {
+      lines.push({ type: 'meta', content: raw, filename: currentFile });
+    }
+  }
+
+  return lines;
+};
+
+/**
+ * Pair each deleted line with the added line at the same position in its
+ * change block. Returns a map from line index to its counterpart's index.
+ */
+export const pairChangedLines = (lines: DiffLine[]): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type !== 'delete') {
+      i++;
+      continue;
+    }
+
+    const deleteStart = i;
+    while (i < lines.length && lines[i].type === 'delete') i++;
+    const addStart = i;
+    while (i < lines.length && lines[i].type === 'add') i++;
+
+    const count = Math.min(addStart - deleteStart, i - addStart);
+    for (let k = 0; k < count; k++) {
+      pairs.set(deleteStart + k, addStart + k);
+      pairs.set(addStart + k, deleteStart + k);
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Align diff lines into left (old) and right (new) columns
+ */
+export const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.type === 'hunk' || line.type === 'meta') {
+      rows.push({ full: line });
+      i++;
+    } else if (line.type === 'context') {
+      rows.push({ left: line, right: line });
+      i++;
+    } else {
+      const deleted: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (i < lines.length && lines[i].type === 'delete') deleted.push(lines[i++]);
+      while (i < lines.length && lines[i].type === 'add') added.push(lines[i++]);
+
+      for (let k = 0; k < Math.max(deleted.length, added.length); k++) {
+        rows.push({ left: deleted[k], right: added[k] });
+      }
+    }
+  }
+
+  return rows;
+};
+
+const MAX_WORD_DIFF_TOKENS = 300;
+
+const tokenizeWords = (text: string): string[] => text.match(/\w+|\s+|[^\w\s]/g) || [];
+
+/**
+ * Find the changed character ranges between two versions of a line using a
+ * word-level longest common subsequence
+ */
+export const wordDiff = (oldText: string, newText: string): { old: TextRange[]; new: TextRange[] } => {
+  const oldTokens = tokenizeWords(oldText);
+  const newTokens = tokenizeWords(newText);
+
+  if (oldTokens.length > MAX_WORD_DIFF_TOKENS || newTokens.length > MAX_WORD_DIFF_TOKENS) {
+    return { old: [], new: [] };
+  }
+
+  // lcs[i][j] = length of the LCS of oldTokens[i:] and newTokens[j:]
+  const lcs: number[][] = Array.from({ length: oldTokens.length + 1 }, () => new Array(newTokens.length + 1).fill(0));
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldTokens[i] === newTokens[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  // Changed tokens only, a completely rewritten line is not worth highlighting
+  if (lcs[0][0] === 0) {
+    return { old: [], new: [] };
+  }
+
+  const oldRanges: TextRange[] = [];
+  const newRanges: TextRange[] = [];
+  const addRange = (ranges: TextRange[], start: number, length: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === start) {
+      last.end += length;
+    } else {
+      ranges.push({ start, end: start + length });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let oldOffset = 0;
+  let newOffset = 0;
+  while (i < oldTokens.length || j < newTokens.length) {
+    if (i < oldTokens.length && j < newTokens.length && oldTokens[i] === newTokens[j]) {
+      oldOffset += oldTokens[i++].length;
+      newOffset += newTokens[j++].length;
+    } else if (j < newTokens.length && (i >= oldTokens.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      addRange(newRanges, newOffset, newTokens[j].length);
+      newOffset += newTokens[j++].length;
+    } else {
+      addRange(oldRanges, oldOffset, oldTokens[i].length);
+      oldOffset += oldTokens[i++].length;
+    }
+  }
+
+  return { old: oldRanges, new: newRanges };
+};
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[]; // Context, added and removed lines, in patch order
+}
+
+/**
+ * Group parsed lines by hunk. Line positions within each hunk match the
+ * line indices expected by the hunk staging API.
+ */
+export const groupHunks = (lines: DiffLine[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+
+  for (const line of lines) {
+    if (line.type === 'hunk') {
+      hunks.push({ header: line.content, lines: [] });
+    } else if (line.type !== 'meta' && hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line);
+    }
+  }
+
+  return hunks;
+};
@@ -0,0 +1,33 @@
+import { FileState, FileStatusEntry, GitStatus } from '../types';
+
+const NOT_STAGED: FileState[] = ['unmodified', 'untracked', 'ignored'];
+const WORKTREE_CHANGES: FileState[] = ['modified', 'deleted', 'type-changed'];
+
+export const getStagedFiles = (status: GitStatus | null): FileStatusEntry[] =>
+  (status?.files || []).filter(file => !file.conflicted && !NOT_STAGED.includes(file.indexState));
+
+export const getUnstagedFiles = (status: GitStatus | null): FileStatusEntry[] =>
+  (status?.files || []).filter(file => !file.conflicted && WORKTREE_CHANGES.includes(file.worktreeState));
+
+export const getUntrackedFiles = (status: GitStatus | null): FileStatusEntry[] =>
+  (status?.files || []).filter(file => file.worktreeState === 'untracked');
+
+export const getConflictedFiles = (status: GitStatus | null): FileStatusEntry[] =>
+  (status?.files || []).filter(file => file.conflicted);
+
+/**
+ * Paths an index operation must touch for an entry. A staged rename is a
+ * deletion of the original path plus an addition of the new one.
+ */
+export const entryPaths = (entry: FileStatusEntry): string[] =>
+  entry.originalPath ? [entry.originalPath, entry.path] : [entry.path];
+
+export const describeSubmodule = (entry: FileStatusEntry): string | null => {
+  if (!entry.submodule) return null;
+  const changes = [
+    entry.submodule.commitChanged && 'new commits',
+    entry.submodule.modified && 'modified content',
+    entry.submodule.untracked && 'untracked content'
+  ].filter(Boolean);
+  return `Submodule${changes.length > 0 ? ` (${changes.join(', ')})` : ''}`;
+};
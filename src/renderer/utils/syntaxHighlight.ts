@@ -0,0 +1,175 @@
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface SyntaxToken {
+  type: TokenType;
+  text: string;
+}
+
+// Token colors for light and dark themes, plain text keeps the theme's color
+export const SYNTAX_COLORS: Record<'light' | 'dark', Record<TokenType, string | undefined>> = {
+  light: { plain: undefined, keyword: '#cf222e', string: '#0a3069', comment: '#6e7781', number: '#0550ae' },
+  dark: { plain: undefined, keyword: '#ff7b72', string: '#a5d6ff', comment: '#8b949e', number: '#79c0ff' }
+};
+
+interface LanguageDefinition {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  quotes: string[];
+}
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const C_LIKE_KEYWORDS = 'if else for while do switch case default break continue return goto struct union enum typedef const static extern void int char long short float double unsigned signed sizeof volatile inline';
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    keywords: words('const let var function return if else for while do switch case default break continue new delete typeof instanceof in of class extends super this import export from as async await yield try catch finally throw null undefined true false void static get set interface type enum implements private protected public readonly abstract declare namespace keyof'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`']
+  },
+  python: {
+    keywords: words('def class return if elif else for while break continue pass import from as with try except finally raise lambda yield global nonlocal assert del in is not and or None True False async await self'),
+    lineComment: '#',
+    quotes: ['"', "'"]
+  },
+  go: {
+    keywords: words('package import func return if else for range switch case default break continue go defer select chan map struct interface type var const fallthrough goto nil true false'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`']
+  },
+  rust: {
+    keywords: words('fn let mut const static return if else match for while loop break continue struct enum impl trait pub use mod crate self Self super where as ref move async await dyn unsafe extern type true false Some None Ok Err'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"']
+  },
+  java: {
+    keywords: words('class interface enum extends implements public private protected static final abstract synchronized native transient volatile return if else for while do switch case default break continue new this super try catch finally throw throws import package void boolean int long short byte char float double null true false var record fun val override object when is in data sealed'),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  },
+  c: {
+    keywords: words(`${C_LIKE_KEYWORDS} class public private protected virtual override template typename namespace using new delete this nullptr true false auto bool try catch throw`),
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  },
+  shell: {
+    keywords: words('if then else elif fi for in do done while until case esac function return local export readonly set unset echo exit'),
+    lineComment: '#',
+    quotes: ['"', "'"]
+  },
+  css: {
+    keywords: words('important media import from to and not only'),
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"]
+  },
+  json: {
+    keywords: words('true false null'),
+    quotes: ['"']
+  },
+  yaml: {
+    keywords: words('true false null yes no on off'),
+    lineComment: '#',
+    quotes: ['"', "'"]
+  }
+};
+
+const EXTENSIONS: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  java: 'java', kt: 'java', kts: 'java', scala: 'java', cs: 'java', swift: 'java', dart: 'java',
+  c: 'c', h: 'c', cc: 'c', cpp: 'c', cxx: 'c', hpp: 'c', m: 'c',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  css: 'css', scss: 'css', less: 'css',
+  json: 'json',
+  yml: 'yaml', yaml: 'yaml', toml: 'yaml'
+};
+
+/**
+ * Detect the highlighting language from a file name
+ */
+export const detectLanguage = (filename?: string): string | null => {
+  if (!filename) return null;
+  const base = filename.split('/').pop() || '';
+  if (base === 'Dockerfile' || base === 'Makefile') return 'shell';
+  const extension = base.includes('.') ? base.split('.').pop()!.toLowerCase() : '';
+  return EXTENSIONS[extension] || null;
+};
+
+/**
+ * Split a single line of code into syntax tokens. Lines are highlighted
+ * independently, so constructs spanning several lines (block comments,
+ * template strings) are only recognised where they start.
+ */
+export const highlightLine = (text: string, language: string | null): SyntaxToken[] => {
+  const definition = language ? LANGUAGES[language] : undefined;
+  if (!definition) {
+    return [{ type: 'plain', text }];
+  }
+
+  const tokens: SyntaxToken[] = [];
+  const push = (type: TokenType, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += value;
+    } else {
+      tokens.push({ type, text: value });
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.substring(i);
+
+    if (definition.lineComment && rest.startsWith(definition.lineComment)) {
+      push('comment', rest);
+      break;
+    }
+
+    if (definition.blockComment && rest.startsWith(definition.blockComment[0])) {
+      const end = text.indexOf(definition.blockComment[1], i + definition.blockComment[0].length);
+      const stop = end === -1 ? text.length : end + definition.blockComment[1].length;
+      push('comment', text.substring(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const char = text[i];
+    if (definition.quotes.includes(char)) {
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        j += text[j] === '\\' ? 2 : 1;
+      }
+      const stop = Math.min(j + 1, text.length);
+      push('string', text.substring(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const number = rest.match(/^(0x[\da-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/);
+    if (number && !/\w/.test(text[i - 1] || '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      push(definition.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    i++;
+  }
+
+  return tokens;
+};
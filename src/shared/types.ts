@@ -1,8 +1,33 @@
 // Git status types
+export type FileState =
+  | 'unmodified'
+  | 'modified'
+  | 'type-changed'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'unmerged'
+  | 'untracked'
+  | 'ignored';
+
+export interface SubmoduleStatus {
+  commitChanged: boolean; // Checked out commit differs from the recorded one
+  modified: boolean; // Has tracked changes
+  untracked: boolean; // Has untracked files
+}
+
+export interface FileStatusEntry {
+  path: string;
+  originalPath?: string; // Source path of a rename or copy
+  indexState: FileState; // Index compared to HEAD
+  worktreeState: FileState; // Working tree compared to the index
+  conflicted: boolean;
+  submodule?: SubmoduleStatus;
+}
+
 export interface GitStatus {
-  staged: string[];
-  unstaged: string[];
-  untracked: string[];
+  files: FileStatusEntry[];
 }
 
 // Repository types